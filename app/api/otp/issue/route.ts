@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  OTP_SESSION_COOKIE,
+  createSessionId,
+  getOtpService,
+  shouldExposeCode
+} from '../../../../lib/otp'
+
+// Issue a fresh code for the caller's session
+export async function POST(request: NextRequest) {
+  const service = getOtpService()
+  const sessionId = request.cookies.get(OTP_SESSION_COOKIE)?.value ?? createSessionId()
+
+  service.prune()
+  const result = service.issue(sessionId)
+
+  const response = result.ok
+    ? NextResponse.json({
+        ok: true,
+        expiresAt: result.expiresAt,
+        digits: result.digits,
+        provider: result.provider,
+        ...(shouldExposeCode() && { devCode: result.code })
+      })
+    : NextResponse.json(result, {
+        status: 429,
+        headers: { 'Retry-After': String(result.retryAfter) }
+      })
+
+  response.cookies.set(OTP_SESSION_COOKIE, sessionId, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/api/otp'
+  })
+  return response
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { OTP_SESSION_COOKIE, OtpVerifyResult, getOtpService } from '../../../../lib/otp'
+
+const STATUS_BY_ERROR: Record<Exclude<OtpVerifyResult, { valid: true }>['error'], number> = {
+  invalid_code: 400,
+  no_code: 404,
+  expired: 410,
+  too_many_attempts: 429
+}
+
+// Check a submitted code against the caller's session
+export async function POST(request: NextRequest) {
+  const sessionId = request.cookies.get(OTP_SESSION_COOKIE)?.value
+  const body = await request.json().catch(() => null)
+  const code = typeof body?.code === 'string' ? body.code.trim() : ''
+
+  if (!sessionId) {
+    return NextResponse.json({ valid: false, error: 'no_code' }, { status: STATUS_BY_ERROR.no_code })
+  }
+  if (!code) {
+    return NextResponse.json({ valid: false, error: 'invalid_request' }, { status: 400 })
+  }
+
+  const result = getOtpService().verify(sessionId, code)
+  return NextResponse.json(result, { status: result.valid ? 200 : STATUS_BY_ERROR[result.error] })
+}
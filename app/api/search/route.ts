@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { DEFAULT_SEARCH_LIMIT, SearchAbortedError, isSearchResultType, searchProviders } from '../../../lib/search'
+import { CATALOG_PROVIDERS } from '../../../lib/search-catalog'
+
+const MAX_LIMIT = 50
+// Client closed the request; nobody reads the body
+const CLIENT_CLOSED_REQUEST = 499
+
+// Search the workspace catalog: ?q=text&type=person&limit=20
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  const text = params.get('q')?.trim() ?? ''
+  const type = params.get('type')
+  const limit = Number(params.get('limit') ?? DEFAULT_SEARCH_LIMIT)
+
+  if (type !== null && !isSearchResultType(type)) {
+    return NextResponse.json({ error: 'invalid_type' }, { status: 400 })
+  }
+  if (!Number.isInteger(limit) || limit < 1) {
+    return NextResponse.json({ error: 'invalid_limit' }, { status: 400 })
+  }
+
+  try {
+    const response = await searchProviders(
+      CATALOG_PROVIDERS,
+      { text, type: type ?? undefined, limit: Math.min(limit, MAX_LIMIT) },
+      request.signal
+    )
+    return NextResponse.json(response)
+  } catch (error) {
+    if (error instanceof SearchAbortedError) {
+      return new NextResponse(null, { status: CLIENT_CLOSED_REQUEST })
+    }
+    throw error
+  }
+}
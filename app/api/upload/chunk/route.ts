@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getUploadStore, readBodyWithin } from '../../../../lib/upload'
+import { CHUNK_CHECKSUM_HEADER } from '../../../../lib/upload-protocol'
+
+const ERROR_STATUS = {
+  not_found: 404,
+  invalid_index: 400,
+  invalid_length: 400,
+  checksum_mismatch: 422
+} as const
+
+// Store one chunk: PUT ?id=...&index=N with the raw bytes and their SHA-256 in `X-Chunk-SHA256`
+export async function PUT(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  const id = params.get('id') ?? ''
+  const index = Number(params.get('index'))
+  const checksum = request.headers.get(CHUNK_CHECKSUM_HEADER)
+
+  if (!checksum) {
+    return NextResponse.json({ error: 'missing_checksum' }, { status: 400 })
+  }
+
+  // Refuse oversized chunks up front, and stop reading if the body outgrows its declared length
+  const store = getUploadStore()
+  const declared = Number(request.headers.get('content-length') ?? 0)
+  if (declared > store.maxChunkSize) {
+    return NextResponse.json({ error: 'too_large' }, { status: 413 })
+  }
+  const data = await readBodyWithin(request.body, store.maxChunkSize)
+  if (!data) {
+    return NextResponse.json({ error: 'too_large' }, { status: 413 })
+  }
+
+  const result = await store.writeChunk(id, index, data, checksum)
+  if (!result.ok) {
+    return NextResponse.json(result, { status: ERROR_STATUS[result.error] })
+  }
+  return NextResponse.json(result.session)
+}
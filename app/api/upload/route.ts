@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getUploadStore } from '../../../lib/upload'
+
+// Start an upload: { name, type, size, chunkSize? } -> session with the chunk size to use
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null)
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json({ error: 'invalid_request' }, { status: 400 })
+  }
+
+  const store = getUploadStore()
+  await store.prune()
+  const result = await store.create(body)
+  if (!result.ok) {
+    return NextResponse.json(result, { status: result.error === 'too_large' ? 413 : 400 })
+  }
+  return NextResponse.json(result.session, { status: 201 })
+}
+
+// Resume point for an upload: ?id=... -> session with the chunks received so far
+export async function GET(request: NextRequest) {
+  const session = await getUploadStore().get(request.nextUrl.searchParams.get('id') ?? '')
+  if (!session) {
+    return NextResponse.json({ error: 'not_found' }, { status: 404 })
+  }
+  return NextResponse.json(session)
+}
+
+// Cancel an upload and discard what was stored: ?id=...
+export async function DELETE(request: NextRequest) {
+  const removed = await getUploadStore().remove(request.nextUrl.searchParams.get('id') ?? '')
+  if (!removed) {
+    return NextResponse.json({ error: 'not_found' }, { status: 404 })
+  }
+  return new NextResponse(null, { status: 204 })
+}
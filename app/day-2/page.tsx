@@ -1,26 +1,74 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { motion } from "framer-motion";
 import Link from "next/link";
-import { OtpInput } from "../../components/otp/OtpInput";
+import { OtpInput, lockoutDurationMs } from "../../components/otp/OtpInput";
 import { FadeIn, ScaleIn } from "../../components/motion/Primitives";
 import { useStore, useIsDay2Complete } from "../../lib/store";
 import { ScreenReader } from "../../lib/a11y";
+import { OtpIssueResponse, describeOtpError, requestOtp, verifyOtp } from "../../lib/otp-client";
 
-// Mock validation function - simulates API call
-const validateOtpCode = async (code: string): Promise<boolean> => {
-  // Simulate network delay
-  await new Promise(resolve => setTimeout(resolve, 1500));
-  
-  // Accept codes like "123456" or "000000" for demo
-  return ['123456', '000000', '111111', '999999'].includes(code);
-};
+const LOCKOUT_MS = 30_000;
 
 export default function Day2Page() {
   const isDay2Complete = useIsDay2Complete();
   const [completedCode, setCompletedCode] = useState<string>('');
   const [showSuccess, setShowSuccess] = useState(false);
+  const [issued, setIssued] = useState<Extract<OtpIssueResponse, { ok: true }> | null>(null);
+  const [isRateLimited, setIsRateLimited] = useState(false);
+  const [resendAvailableAt, setResendAvailableAt] = useState<number | undefined>(undefined);
+  const [verifyMessage, setVerifyMessage] = useState('');
+  // The server stops accepting the current code after too many attempts; mirror that here
+  const [lockedUntil, setLockedUntil] = useState<number | undefined>(undefined);
+  const [isCodeSpent, setIsCodeSpent] = useState(false);
+  const lockoutCount = useRef(0);
+
+  // Ask the OTP route for a fresh code. Throws when none was issued, so the input
+  // only resets and announces a new code once one actually exists
+  const sendCode = useCallback(async () => {
+    setVerifyMessage('');
+    let result: OtpIssueResponse;
+    try {
+      result = await requestOtp();
+    } catch (error) {
+      setVerifyMessage('Could not reach the verification service.');
+      throw error;
+    }
+
+    setIsRateLimited(!result.ok);
+    if (!result.ok) {
+      // Let the server's rate limit drive the resend cooldown; the previous code stays valid
+      setResendAvailableAt(Date.now() + result.retryAfter * 1000);
+      throw new Error('Too many codes requested');
+    }
+    setIssued(result);
+    setResendAvailableAt(undefined);
+    setLockedUntil(undefined);
+    setIsCodeSpent(false);
+  }, []);
+
+  // Issue the first code once, even when effects run twice in development
+  const hasRequestedCode = useRef(false);
+  useEffect(() => {
+    if (hasRequestedCode.current) return;
+    hasRequestedCode.current = true;
+    sendCode().catch(() => {
+      // Shown in the delivery status; the resend button stays available
+    });
+  }, [sendCode]);
+
+  // Validate against the OTP route, locking the input when the server gives up on the code
+  const validateOtpCode = useCallback(async (code: string): Promise<boolean> => {
+    const result = await verifyOtp(code);
+    setVerifyMessage(describeOtpError(result));
+    if (!result.valid && result.error === 'too_many_attempts') {
+      setLockedUntil(Date.now() + lockoutDurationMs(LOCKOUT_MS, lockoutCount.current));
+      setIsCodeSpent(true);
+      lockoutCount.current += 1;
+    }
+    return result.valid;
+  }, []);
 
   const handleOtpComplete = (code: string) => {
     setCompletedCode(code);
@@ -36,6 +84,9 @@ export default function Day2Page() {
     setCompletedCode('');
     setShowSuccess(false);
     ScreenReader.announce('Demo reset', 'polite');
+    sendCode().catch(() => {
+      // Shown in the delivery status
+    });
   };
 
   return (
@@ -115,13 +166,39 @@ export default function Day2Page() {
           <ScaleIn delay={0.2}>
             <div className="bg-surface/20 backdrop-blur-sm rounded-2xl border border-white/10 p-8 mb-8">
               {!showSuccess ? (
-                <OtpInput
-                  length={6}
-                  onComplete={handleOtpComplete}
-                  onValidate={validateOtpCode}
-                  autoFocus={true}
-                  placeholder="•"
-                />
+                <>
+                  <OtpInput
+                    length={issued?.digits ?? 6}
+                    groups={[3, 3]}
+                    expiresAt={issued?.expiresAt}
+                    onResend={sendCode}
+                    resendAvailableAt={resendAvailableAt}
+                    lockedUntil={lockedUntil}
+                    disabled={isCodeSpent}
+                    onComplete={handleOtpComplete}
+                    onValidate={validateOtpCode}
+                    autoFocus={true}
+                    placeholder="•"
+                  />
+
+                  {/* Delivery status */}
+                  <div className="mt-6 pt-6 border-t border-white/10 flex flex-col items-center gap-3 text-sm">
+                    {verifyMessage && (
+                      <p className="text-danger" role="alert">{verifyMessage}</p>
+                    )}
+                    {issued?.devCode && (
+                      <p className="text-gray-400">
+                        Demo delivery: your code is{' '}
+                        <span className="font-mono text-brand">{issued.devCode}</span>
+                      </p>
+                    )}
+                    {isRateLimited && (
+                      <p className="text-warn">
+                        Too many codes requested. Please wait before resending.
+                      </p>
+                    )}
+                  </div>
+                </>
               ) : (
                 <div className="text-center py-8">
                   <motion.div
@@ -183,7 +260,7 @@ export default function Day2Page() {
                   <span className="text-brand text-xs mt-0.5">▸</span>
                   <div>
                     <strong className="text-white">Paste detection:</strong>
-                    <p className="text-gray-400">Paste 6-digit codes like &ldquo;123456&rdquo; for quick entry</p>
+                    <p className="text-gray-400">Paste the 6-digit code shown below the input for quick entry</p>
                   </div>
                 </div>
                 
@@ -195,6 +272,14 @@ export default function Day2Page() {
                   </div>
                 </div>
                 
+                <div className="flex items-start gap-3">
+                  <span className="text-brand text-xs mt-0.5">▸</span>
+                  <div>
+                    <strong className="text-white">Resend &amp; lockout:</strong>
+                    <p className="text-gray-400">Resend cooldown doubles each time; five wrong codes lock the input</p>
+                  </div>
+                </div>
+                
                 <div className="flex items-start gap-3">
                   <span className="text-brand text-xs mt-0.5">▸</span>
                   <div>
@@ -206,7 +291,7 @@ export default function Day2Page() {
 
               <div className="mt-6 pt-4 border-t border-white/10">
                 <p className="text-xs text-gray-500">
-                  <strong className="text-gray-400">Demo codes:</strong> Try 123456, 000000, 111111, or 999999 for successful validation
+                  <strong className="text-gray-400">Demo codes:</strong> Codes come from the <code>/api/otp</code> route (TOTP by default, HOTP with <code>OTP_PROVIDER=hotp</code>). Outside production the issued code is shown under the input.
                 </p>
               </div>
             </div>
@@ -227,7 +312,9 @@ export default function Day2Page() {
                     <li>• Controlled state per cell</li>
                     <li>• Auto-advance logic</li>
                     <li>• Backspace handling</li>
-                    <li>• Numeric-only input</li>
+                    <li>• Numeric, alphanumeric, hex or custom charsets</li>
+                    <li>• Grouped cells with separators</li>
+                    <li>• WebOTP &amp; one-time-code autofill</li>
                   </ul>
                 </div>
                 
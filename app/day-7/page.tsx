@@ -88,7 +88,7 @@ export default function Day7Page() {
               href="/day-8"
               className="flex items-center gap-2 px-4 py-2 text-brand hover:text-purple-300 transition-colors group"
             >
-              Day 8: Coming Soon
+              Day 8: Identity Board
               <motion.span
                 whileHover={{ x: 2 }}
                 transition={{ type: "spring", stiffness: 400 }}
@@ -1,6 +1,7 @@
 import type { Metadata } from "next"
 import { Inter } from 'next/font/google'
 import "./globals.css"
+import { CommandHost } from "../components/commands/CommandHost"
 
 const inter = Inter({ 
   subsets: ['latin'],
@@ -33,6 +34,7 @@ export default function RootLayout({
     <html lang="en" className={inter.variable}>
       <body className="min-h-screen bg-slate-900 text-white font-sans antialiased">
         {children}
+        <CommandHost />
       </body>
     </html>
   )
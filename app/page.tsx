@@ -8,7 +8,7 @@ const challenges = [
   { day: 5, title: 'Progressive Input Stack ("Chip-to-Form")', desc: 'Chips morph into form fields with stagger', status: 'complete' },
   { day: 6, title: 'Warp Overlay ("Context Portal")', desc: 'Portal-style overlay with context switching', status: 'complete' },
   { day: 7, title: 'Peerlist Autofill w/ AI ("Delightful Wait")', desc: 'AI skeleton, thought bubbles & staged reveals', status: 'complete' },
-  { day: 8, title: 'Coming Soon...', desc: 'Final challenge will be revealed soon', status: 'coming-soon' }
+  { day: 8, title: 'Identity Board Synthesis', desc: 'Collect and arrange your week into one board', status: 'complete' }
 ]
 
 export default function HomePage() {
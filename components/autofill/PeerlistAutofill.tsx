@@ -219,7 +219,7 @@ interface PeerlistAutofillProps {
 }
 
 export function PeerlistAutofill({ className = "" }: PeerlistAutofillProps) {
-  const { markDayComplete, preferences } = useStore();
+  const { markDayComplete, setProject, preferences } = useStore();
   
   // Component state
   const [isAutofilling, setIsAutofilling] = useState(false);
@@ -278,9 +278,17 @@ export function PeerlistAutofill({ className = "" }: PeerlistAutofillProps) {
   const handleAccept = useCallback(() => {
     setIsAccepted(true);
     setShowConfetti(true);
+    setProject({
+      title: autofillData.title ?? '',
+      description: autofillData.description ?? '',
+      category: autofillData.category ?? '',
+      tags: autofillData.tags ?? [],
+      tools: autofillData.tools ?? [],
+      thumbnail: autofillData.thumbnail ?? ''
+    });
     markDayComplete(7);
     ScreenReader.announce('Autofill accepted! Day 7 challenge completed!', 'polite');
-  }, [markDayComplete]);
+  }, [autofillData, markDayComplete, setProject]);
 
   // Handle cancel/undo
   const handleCancel = useCallback(() => {
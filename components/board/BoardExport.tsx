@@ -0,0 +1,216 @@
+"use client";
+
+import { useState, useRef, useCallback, useEffect, useMemo } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { SPRING } from "../motion/Primitives";
+import { usePersona, useProfile } from "../../lib/store";
+import { ScreenReader } from "../../lib/a11y";
+import { Command } from "../../lib/commands";
+import { useRegisterCommands } from "../commands/useCommands";
+import {
+  DEFAULT_EXPORT_DPI,
+  ExportCancelledError,
+  ExportProgress,
+  collectRegions,
+  exportPdf,
+  exportPng
+} from "../../lib/export";
+
+const DPI_OPTIONS = [96, 144, 192, 300] as const;
+
+const IDLE_PROGRESS: ExportProgress = { phase: 'idle', progress: 0, message: '' };
+
+// Export job state with progress and cancellation
+export function useExportJob() {
+  const [progress, setProgress] = useState<ExportProgress>(IDLE_PROGRESS);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const isExporting = ['capturing', 'composing', 'saving'].includes(progress.phase);
+
+  const run = useCallback(async (job: (signal: AbortSignal) => Promise<unknown>) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setProgress({ phase: 'capturing', progress: 0, message: 'Preparing export' });
+
+    try {
+      await job(controller.signal);
+      ScreenReader.announce('Export complete', 'polite');
+    } catch (error) {
+      if (error instanceof ExportCancelledError) {
+        setProgress({ phase: 'cancelled', progress: 0, message: 'Export cancelled' });
+        ScreenReader.announce('Export cancelled', 'polite');
+      } else {
+        setProgress({ phase: 'error', progress: 0, message: 'Export failed. Please try again.' });
+        ScreenReader.announce('Export failed', 'assertive');
+      }
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+      }
+    }
+  }, []);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  // Abort any running job on unmount
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { progress, setProgress, isExporting, run, cancel };
+}
+
+interface BoardExportProps {
+  // Element to export; marked regions inside it become PDF pages
+  targetRef: React.RefObject<HTMLElement | null>;
+  filename?: string;
+  className?: string;
+}
+
+export function BoardExport({ targetRef, filename = "flux-id-board", className = "" }: BoardExportProps) {
+  const profile = useProfile();
+  const persona = usePersona();
+  const [dpi, setDpi] = useState<number>(DEFAULT_EXPORT_DPI);
+  const { progress, setProgress, isExporting, run, cancel } = useExportJob();
+
+  const handlePng = useCallback(() => {
+    const target = targetRef.current;
+    if (!target) return;
+    ScreenReader.announce('Exporting PNG', 'polite');
+    run(signal => exportPng(target, {
+      dpi,
+      signal,
+      filename: `${filename}.png`,
+      onProgress: setProgress
+    }));
+  }, [dpi, filename, run, setProgress, targetRef]);
+
+  const handlePdf = useCallback(() => {
+    const target = targetRef.current;
+    if (!target) return;
+    ScreenReader.announce('Exporting PDF', 'polite');
+    run(signal => exportPdf([target, ...collectRegions(target).filter(region => region !== target)], {
+      dpi,
+      signal,
+      profile,
+      persona,
+      filename: `${filename}.pdf`,
+      onProgress: setProgress
+    }));
+  }, [dpi, filename, persona, profile, run, setProgress, targetRef]);
+
+  // Available from the command palette and keyboard while the board is on screen
+  const commands = useMemo<Command[]>(() => [
+    {
+      id: 'export.png',
+      title: 'Export Board as PNG',
+      subtitle: `${dpi} DPI image`,
+      icon: '🖼️',
+      category: 'edit',
+      keybinding: 'e i',
+      when: () => !isExporting && !!targetRef.current,
+      run: handlePng
+    },
+    {
+      id: 'export.pdf',
+      title: 'Export Board as PDF',
+      subtitle: `${dpi} DPI document`,
+      icon: '📤',
+      category: 'edit',
+      keybinding: 'e p',
+      when: () => !isExporting && !!targetRef.current,
+      run: handlePdf
+    },
+    {
+      id: 'export.cancel',
+      title: 'Cancel Export',
+      icon: '✖️',
+      category: 'edit',
+      when: () => isExporting,
+      run: cancel
+    }
+  ], [cancel, dpi, handlePdf, handlePng, isExporting, targetRef]);
+
+  useRegisterCommands(commands);
+
+  return (
+    <div className={`flex flex-col items-center gap-4 ${className}`}>
+      <div className="flex flex-wrap items-center justify-center gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          Resolution
+          <select
+            value={dpi}
+            onChange={(e) => setDpi(Number(e.target.value))}
+            disabled={isExporting}
+            className="bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-brand/50"
+          >
+            {DPI_OPTIONS.map(option => (
+              <option key={option} value={option} className="bg-surface">
+                {option} DPI
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <button
+          onClick={handlePng}
+          disabled={isExporting}
+          className="px-6 py-3 bg-brand hover:bg-brand/80 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors"
+        >
+          Export PNG
+        </button>
+
+        <button
+          onClick={handlePdf}
+          disabled={isExporting}
+          className="px-6 py-3 bg-accent/80 hover:bg-accent/70 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors"
+        >
+          Export PDF
+        </button>
+      </div>
+
+      {/* Progress */}
+      <AnimatePresence>
+        {progress.phase !== 'idle' && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
+            transition={SPRING}
+            className="w-full max-w-md"
+            role="status"
+            aria-live="polite"
+          >
+            <div className="flex items-center justify-between text-sm mb-2">
+              <span className={progress.phase === 'error' ? 'text-danger' : 'text-gray-400'}>
+                {progress.message}
+              </span>
+              {isExporting && (
+                <button
+                  onClick={cancel}
+                  className="text-red-400 hover:text-red-300 font-medium"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+            <div
+              className="h-2 bg-white/10 rounded-full overflow-hidden"
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(progress.progress * 100)}
+            >
+              <motion.div
+                className="h-full bg-gradient-to-r from-brand to-accent"
+                animate={{ width: `${progress.progress * 100}%` }}
+                transition={{ duration: 0.2 }}
+              />
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,344 @@
+"use client";
+
+import { useState, useRef, useCallback, useEffect, ReactNode } from "react";
+import { motion, useMotionValue } from "framer-motion";
+import { SPRING, FadeIn, ScaleIn } from "../motion/Primitives";
+import { BoardExport } from "./BoardExport";
+import {
+  BoardCardId,
+  BoardCardLayout,
+  useStore,
+  usePersona,
+  useProfile,
+  useFolderItems,
+  useFormData,
+  useProject,
+  useBoardLayout,
+  useFolderView
+} from "../../lib/store";
+import { ROOT_FOLDER_ID, childrenOf } from "../../lib/folder-tree";
+import { applyFolderView, viewableItem, viewKey } from "../../lib/folder-view";
+import { EXPORT_REGION_ATTR } from "../../lib/export";
+import {
+  ARIA_LABELS,
+  ScreenReader,
+  handleKeyboardNavigation
+} from "../../lib/a11y";
+
+// Board geometry
+const BOARD_HEIGHT = 560;
+const CARD_WIDTH = 280;
+const NUDGE_STEP = 16;
+
+// Initial arrangement before the user moves anything
+export const DEFAULT_BOARD_LAYOUT: Record<BoardCardId, BoardCardLayout> = {
+  persona: { x: 24, y: 24, z: 1 },
+  profile: { x: 328, y: 24, z: 2 },
+  files: { x: 24, y: 296, z: 3 },
+  project: { x: 328, y: 296, z: 4 }
+};
+
+const CARD_META: Record<BoardCardId, { title: string; icon: string; day: number }> = {
+  persona: { title: 'Persona', icon: '👥', day: 1 },
+  profile: { title: 'Profile', icon: '📝', day: 5 },
+  files: { title: 'Files', icon: '📁', day: 4 },
+  project: { title: 'Project', icon: '🤖', day: 7 }
+};
+
+const BOARD_CARDS = Object.keys(CARD_META) as BoardCardId[];
+
+interface BoardCardProps {
+  id: BoardCardId;
+  layout: BoardCardLayout;
+  boardRef: React.RefObject<HTMLDivElement | null>;
+  onRaise: (id: BoardCardId) => void;
+  onMove: (id: BoardCardId, x: number, y: number) => void;
+  children: ReactNode;
+}
+
+function BoardCard({ id, layout, boardRef, onRaise, onMove, children }: BoardCardProps) {
+  const meta = CARD_META[id];
+  const x = useMotionValue(layout.x);
+  const y = useMotionValue(layout.y);
+  const [isDragging, setIsDragging] = useState(false);
+
+  // Keep motion values in sync with the persisted layout (rehydration, reset)
+  useEffect(() => {
+    x.set(layout.x);
+    y.set(layout.y);
+  }, [layout.x, layout.y, x, y]);
+
+  // Clamp a position so the card never leaves the board
+  const clamp = useCallback((nextX: number, nextY: number) => {
+    const board = boardRef.current;
+    if (!board) return { x: nextX, y: nextY };
+    const maxX = Math.max(0, board.clientWidth - CARD_WIDTH);
+    const maxY = Math.max(0, board.clientHeight - 120);
+    return {
+      x: Math.min(Math.max(0, nextX), maxX),
+      y: Math.min(Math.max(0, nextY), maxY)
+    };
+  }, [boardRef]);
+
+  const handleDragEnd = useCallback(() => {
+    setIsDragging(false);
+    const next = clamp(x.get(), y.get());
+    onMove(id, next.x, next.y);
+  }, [clamp, id, onMove, x, y]);
+
+  // Arrow keys nudge the card for keyboard users
+  const handleKeyDown = useCallback((event: React.KeyboardEvent) => {
+    const nudge = (dx: number, dy: number) => {
+      const step = event.shiftKey ? NUDGE_STEP * 4 : NUDGE_STEP;
+      const next = clamp(x.get() + dx * step, y.get() + dy * step);
+      onRaise(id);
+      onMove(id, next.x, next.y);
+    };
+
+    handleKeyboardNavigation(event, {
+      onArrowUp: () => nudge(0, -1),
+      onArrowDown: () => nudge(0, 1),
+      onArrowLeft: () => nudge(-1, 0),
+      onArrowRight: () => nudge(1, 0)
+    });
+  }, [clamp, id, onMove, onRaise, x, y]);
+
+  return (
+    <motion.div
+      drag
+      dragMomentum={false}
+      dragConstraints={boardRef}
+      dragElastic={0.05}
+      onDragStart={() => {
+        setIsDragging(true);
+        onRaise(id);
+      }}
+      onDragEnd={handleDragEnd}
+      onKeyDown={handleKeyDown}
+      tabIndex={0}
+      role="group"
+      aria-roledescription="draggable card"
+      aria-label={ARIA_LABELS.boardCard(meta.title)}
+      {...{ [EXPORT_REGION_ATTR]: id }}
+      className="absolute top-0 left-0 bg-surface/80 backdrop-blur-sm border border-white/10 rounded-2xl p-5 cursor-grab active:cursor-grabbing select-none focus:outline-none focus:ring-2 focus:ring-brand"
+      style={{ x, y, width: CARD_WIDTH, zIndex: layout.z }}
+      animate={{
+        scale: isDragging ? 1.03 : 1,
+        boxShadow: isDragging
+          ? '0 20px 40px rgba(0,0,0,0.35), 0 0 0 1px rgba(124,58,237,0.4)'
+          : '0 8px 16px rgba(0,0,0,0.15)'
+      }}
+      transition={SPRING}
+    >
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <span className="text-xl" aria-hidden="true">{meta.icon}</span>
+          <h3 className="text-white font-semibold">{meta.title}</h3>
+        </div>
+        <span className="text-xs text-gray-500">Day {meta.day}</span>
+      </div>
+      {children}
+    </motion.div>
+  );
+}
+
+function EmptyHint({ day }: { day: number }) {
+  return (
+    <p className="text-sm text-gray-500">
+      Nothing here yet. Complete <a href={`/day-${day}`} className="text-brand hover:underline">Day {day}</a> to fill this card.
+    </p>
+  );
+}
+
+interface IdentityBoardProps {
+  className?: string;
+}
+
+export function IdentityBoard({ className = "" }: IdentityBoardProps) {
+  const { markDayComplete, setBoardCardLayout, resetBoardLayout } = useStore();
+  const persona = usePersona();
+  const profile = useProfile();
+  const folderItems = useFolderItems();
+  const rootView = useFolderView(viewKey(ROOT_FOLDER_ID));
+  const formData = useFormData();
+  const project = useProject();
+  const boardLayout = useBoardLayout();
+
+  const boardRef = useRef<HTMLDivElement>(null);
+
+  const layoutFor = useCallback(
+    (id: BoardCardId) => boardLayout[id] ?? DEFAULT_BOARD_LAYOUT[id],
+    [boardLayout]
+  );
+
+  // Bring a card above all others
+  const handleRaise = useCallback((id: BoardCardId) => {
+    const topZ = Math.max(...BOARD_CARDS.map(card => layoutFor(card).z));
+    if (layoutFor(id).z === topZ) return;
+    setBoardCardLayout(id, { ...layoutFor(id), z: topZ + 1 });
+  }, [layoutFor, setBoardCardLayout]);
+
+  const handleMove = useCallback((id: BoardCardId, x: number, y: number) => {
+    setBoardCardLayout(id, { ...layoutFor(id), x: Math.round(x), y: Math.round(y) });
+    markDayComplete(8);
+    ScreenReader.announce(`${CARD_META[id].title} card moved`, 'polite');
+  }, [layoutFor, markDayComplete, setBoardCardLayout]);
+
+  const handleReset = useCallback(() => {
+    // The undo toast announces the reset
+    resetBoardLayout();
+  }, [resetBoardLayout]);
+
+  const extraFields = Object.entries(formData).filter(
+    ([key, value]) => value && !['name', 'role', 'website'].includes(key)
+  );
+
+  // The folder's top level in the order the folder shows it, ignoring its filters so the card covers everything
+  const topLevelItems = applyFolderView(
+    childrenOf(folderItems, ROOT_FOLDER_ID).reverse().map(viewableItem),
+    { ...rootView, types: [], query: '' }
+  ).map(({ item }) => item);
+
+  const cardContent: Record<BoardCardId, ReactNode> = {
+    persona: (
+      <div>
+        <p className="text-2xl font-bold text-white capitalize mb-3">{persona.mode}</p>
+        <div className="flex gap-2">
+          {persona.colors.map(color => (
+            <span
+              key={color}
+              className="w-6 h-6 rounded-full border border-white/20"
+              style={{ backgroundColor: color }}
+              aria-hidden="true"
+            />
+          ))}
+        </div>
+      </div>
+    ),
+    profile: profile.name || extraFields.length > 0 ? (
+      <div className="space-y-2">
+        {profile.name && <p className="text-xl font-bold text-white truncate">{profile.name}</p>}
+        {profile.role && <p className="text-sm text-brand">{profile.role}</p>}
+        {extraFields.slice(0, 3).map(([key, value]) => (
+          <p key={key} className="text-xs text-gray-400 truncate">
+            <span className="capitalize text-gray-500">{key}:</span> {value}
+          </p>
+        ))}
+        {profile.links.map(link => (
+          <p key={link} className="text-xs text-accent truncate">{link}</p>
+        ))}
+      </div>
+    ) : <EmptyHint day={CARD_META.profile.day} />,
+    files: topLevelItems.length > 0 ? (
+      <ul className="space-y-2">
+        {topLevelItems.slice(0, 4).map(item => (
+          <li key={item.id} className="flex items-center gap-2 text-sm text-gray-300">
+            <span aria-hidden="true">{item.type === 'img' ? '🖼️' : item.type === 'link' ? '🔗' : item.type === 'folder' ? '📁' : '📄'}</span>
+            <span className="truncate">{item.name}</span>
+          </li>
+        ))}
+        {topLevelItems.length > 4 && (
+          <li className="text-xs text-gray-500">+{topLevelItems.length - 4} more</li>
+        )}
+      </ul>
+    ) : <EmptyHint day={CARD_META.files.day} />,
+    project: project ? (
+      <div>
+        <div className="flex items-center gap-2 mb-2">
+          <span className="text-2xl" aria-hidden="true">{project.thumbnail}</span>
+          <p className="text-white font-semibold leading-tight">{project.title}</p>
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {project.tags.slice(0, 4).map(tag => (
+            <span key={tag} className="bg-white/10 text-gray-300 px-2 py-0.5 rounded-full text-xs">
+              {tag}
+            </span>
+          ))}
+        </div>
+      </div>
+    ) : <EmptyHint day={CARD_META.project.day} />
+  };
+
+  return (
+    <div className={`max-w-4xl mx-auto ${className}`}>
+      <FadeIn className="text-center mb-12">
+        <div className="inline-flex items-center gap-2 bg-brand/10 text-brand px-4 py-2 rounded-full text-sm font-medium mb-6">
+          🪪 Day 8
+        </div>
+        <h1 className="text-4xl font-bold text-white mb-4">
+          Identity Board Synthesis
+        </h1>
+        <p className="text-xl text-gray-400 mb-8 max-w-2xl mx-auto">
+          Everything you created across the week, collected onto one board. Drag the cards
+          to arrange your identity — the layout is saved automatically.
+        </p>
+      </FadeIn>
+
+      {/* Board */}
+      <ScaleIn delay={0.2} className="mb-8">
+        <div
+          ref={boardRef}
+          className="relative bg-white/5 border border-white/10 rounded-3xl overflow-hidden"
+          style={{ height: BOARD_HEIGHT }}
+          role="region"
+          aria-label={ARIA_LABELS.identityBoard}
+        >
+          <div
+            className="absolute inset-0 opacity-10 pointer-events-none"
+            style={{
+              backgroundImage: 'radial-gradient(circle, var(--subtle) 1px, transparent 1px)',
+              backgroundSize: `${NUDGE_STEP}px ${NUDGE_STEP}px`
+            }}
+          />
+          {BOARD_CARDS.map(id => (
+            <BoardCard
+              key={id}
+              id={id}
+              layout={layoutFor(id)}
+              boardRef={boardRef}
+              onRaise={handleRaise}
+              onMove={handleMove}
+            >
+              {cardContent[id]}
+            </BoardCard>
+          ))}
+        </div>
+      </ScaleIn>
+
+      {/* Controls */}
+      <ScaleIn delay={0.3} className="text-center mb-12 space-y-6">
+        <BoardExport targetRef={boardRef} filename="flux-id-identity-board" />
+        <button
+          onClick={handleReset}
+          className="px-6 py-3 bg-surface/20 hover:bg-surface/30 text-white rounded-lg font-medium border border-white/10 transition-colors"
+        >
+          Reset Layout
+        </button>
+      </ScaleIn>
+
+      {/* Instructions */}
+      <ScaleIn delay={0.4} className="text-center">
+        <div className="bg-brand/5 border border-brand/20 rounded-lg p-6">
+          <h3 className="text-lg font-semibold text-white mb-4">Board Controls</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm text-gray-400">
+            <div>
+              • <strong className="text-white">Drag cards</strong> to arrange them on the board
+            </div>
+            <div>
+              • <strong className="text-white">Arrow keys</strong> nudge the focused card (Shift for bigger steps)
+            </div>
+            <div>
+              • <strong className="text-white">Saved layout</strong> - the board looks the same after a reload
+            </div>
+            <div>
+              • <strong className="text-white">Export PNG</strong> - the whole board at the chosen resolution
+            </div>
+            <div>
+              • <strong className="text-white">Export PDF</strong> - a cover page plus the board and each card
+            </div>
+          </div>
+        </div>
+      </ScaleIn>
+    </div>
+  );
+}
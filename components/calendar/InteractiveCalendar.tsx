@@ -9,6 +9,7 @@ import {
   ScreenReader, 
   handleKeyboardNavigation 
 } from "../../lib/a11y";
+import { addDays, addMonths, endOfWeek, nearestEnabledDate, startOfDay, startOfWeek } from "../../lib/date-grid";
 
 // Calendar types
 export type CalendarMode = 'single' | 'range' | 'multiple';
@@ -60,6 +61,9 @@ export function InteractiveCalendar({
   const [hoveredDate, setHoveredDate] = useState<Date | null>(null);
   const [isAnimating, setIsAnimating] = useState(false);
   const [viewMode, setViewMode] = useState<'month' | 'year'>('month');
+  // The grid's one tab stop, moved by the arrow keys; while the grid has focus it also drives the range preview
+  const [focusedDate, setFocusedDate] = useState(() => startOfDay(selectedDate ?? selectedRange.start ?? new Date()));
+  const [isGridFocused, setIsGridFocused] = useState(false);
   
   // Local state for selections
   const [internalSelectedDate, setInternalSelectedDate] = useState<Date | null>(selectedDate);
@@ -68,6 +72,8 @@ export function InteractiveCalendar({
   
   // Refs
   const calendarRef = useRef<HTMLDivElement>(null);
+  // Set by keyboard moves so the newly focused day takes focus, even after the month changes
+  const keyboardNavRef = useRef(false);
   
   // Date utilities
   const formatDate = (date: Date): string => {
@@ -105,16 +111,19 @@ export function InteractiveCalendar({
     return false;
   }, [mode, internalSelectedDate, internalSelectedDates, internalSelectedRange]);
 
+  // The pointer's preview wins; otherwise the keyboard's
+  const previewDate = hoveredDate ?? (isGridFocused ? focusedDate : null);
+
   const isDateInRange = useCallback((date: Date): boolean => {
     if (mode !== 'range') return false;
     const { start, end } = internalSelectedRange;
-    if (start && hoveredDate && !end) {
-      const rangeStart = start < hoveredDate ? start : hoveredDate;
-      const rangeEnd = start < hoveredDate ? hoveredDate : start;
+    if (start && previewDate && !end) {
+      const rangeStart = start < previewDate ? start : previewDate;
+      const rangeEnd = start < previewDate ? previewDate : start;
       return date >= rangeStart && date <= rangeEnd;
     }
     return false;
-  }, [mode, internalSelectedRange, hoveredDate]);
+  }, [mode, internalSelectedRange, previewDate]);
 
   const getDateEvents = useCallback((date: Date): CalendarEvent[] => {
     return events.filter(event => isSameDay(event.date, date));
@@ -147,6 +156,7 @@ export function InteractiveCalendar({
     if (isAnimating) return;
     
     setIsAnimating(true);
+    keyboardNavRef.current = false;
     const newDate = new Date(currentDate);
     newDate.setMonth(newDate.getMonth() + (direction === 'next' ? 1 : -1));
     setCurrentDate(newDate);
@@ -163,6 +173,7 @@ export function InteractiveCalendar({
     if (isAnimating) return;
     
     setIsAnimating(true);
+    keyboardNavRef.current = false;
     const newDate = new Date(currentDate);
     newDate.setFullYear(newDate.getFullYear() + (direction === 'next' ? 1 : -1));
     setCurrentDate(newDate);
@@ -175,6 +186,7 @@ export function InteractiveCalendar({
   // Date selection handlers
   const handleDateClick = useCallback((date: Date) => {
     if (isDateDisabled(date)) return;
+    setFocusedDate(date);
 
     if (mode === 'single') {
       setInternalSelectedDate(date);
@@ -221,14 +233,38 @@ export function InteractiveCalendar({
   }, [mode, isDateDisabled, internalSelectedDate, internalSelectedDates, internalSelectedRange, 
       onDateSelect, onDatesSelect, onRangeSelect, markDayComplete]);
 
-  // Keyboard navigation
+  // Move the tab stop, passing over disabled dates in the direction of travel
+  const moveFocus = useCallback((target: Date, direction: 1 | -1) => {
+    const next = nearestEnabledDate(target, direction, isDateDisabled);
+    if (!next) return;
+    keyboardNavRef.current = true;
+    setFocusedDate(next);
+    if (next.getMonth() !== currentDate.getMonth() || next.getFullYear() !== currentDate.getFullYear()) {
+      setCurrentDate(next);
+    }
+
+    const { start, end } = internalSelectedRange;
+    if (mode === 'range' && start && !end) {
+      const days = Math.round(Math.abs(next.getTime() - start.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+      ScreenReader.announce(`${formatDate(next)}. Range of ${days} ${days === 1 ? 'day' : 'days'}`, 'polite');
+    }
+  }, [isDateDisabled, currentDate, mode, internalSelectedRange]);
+
+  // WAI-ARIA date grid keys: days and weeks with the arrows, months with Page Up/Down (years with Shift)
   const handleKeyDown = useCallback((e: React.KeyboardEvent, date: Date) => {
     handleKeyboardNavigation(e, {
       onEnter: () => handleDateClick(date),
       onSpace: () => handleDateClick(date),
-      preventDefault: ['Enter', 'Space'].includes(e.key)
+      onArrowLeft: () => moveFocus(addDays(date, -1), -1),
+      onArrowRight: () => moveFocus(addDays(date, 1), 1),
+      onArrowUp: () => moveFocus(addDays(date, -7), -1),
+      onArrowDown: () => moveFocus(addDays(date, 7), 1),
+      onHome: () => moveFocus(startOfWeek(date), 1),
+      onEnd: () => moveFocus(endOfWeek(date), -1),
+      onPageUp: () => moveFocus(addMonths(date, e.shiftKey ? -12 : -1), -1),
+      onPageDown: () => moveFocus(addMonths(date, e.shiftKey ? 12 : 1), 1)
     });
-  }, [handleDateClick]);
+  }, [handleDateClick, moveFocus]);
 
   // Reset selections
   const clearSelection = useCallback(() => {
@@ -239,7 +275,11 @@ export function InteractiveCalendar({
   }, []);
 
   const calendarDays = generateCalendarDays();
+  const weeks = Array.from({ length: calendarDays.length / 7 }, (_, week) => calendarDays.slice(week * 7, week * 7 + 7));
   const weekDays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  // The focused date when it is on screen, otherwise the first selectable day of the month
+  const tabStop = calendarDays.find(date => isSameDay(date, focusedDate) && !isDateDisabled(date)) ??
+    calendarDays.find(date => date.getMonth() === currentDate.getMonth() && !isDateDisabled(date));
 
   return (
     <div className={`relative ${className}`}>
@@ -325,10 +365,14 @@ export function InteractiveCalendar({
         ref={calendarRef}
         className="bg-surface/10 rounded-lg border border-white/5 p-4"
         role="grid"
-        aria-label="Calendar"
+        aria-label={currentDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+        onFocus={() => setIsGridFocused(true)}
+        onBlur={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsGridFocused(false);
+        }}
       >
         {/* Week Day Headers */}
-        <div className="grid grid-cols-7 gap-2 mb-4">
+        <div className="grid grid-cols-7 gap-2 mb-4" role="row">
           {weekDays.map(day => (
             <div
               key={day}
@@ -350,31 +394,40 @@ export function InteractiveCalendar({
             transition={{ duration: 0.3, ease: "easeInOut" }}
             className="grid grid-cols-7 gap-2"
           >
-            {calendarDays.map((date, index) => {
-              const isCurrentMonth = date.getMonth() === currentDate.getMonth();
-              const isToday = isSameDay(date, new Date());
-              const isSelected = isDateSelected(date);
-              const isDisabled = isDateDisabled(date);
-              const inRange = isDateInRange(date);
-              const dateEvents = getDateEvents(date);
+            {weeks.map((week, weekIndex) => (
+              // Rows for assistive tech only; the cells still lay out on the parent grid
+              <div key={weekIndex} role="row" className="contents">
+                {week.map(date => {
+                  const isCurrentMonth = date.getMonth() === currentDate.getMonth();
+                  const isToday = isSameDay(date, new Date());
+                  const isSelected = isDateSelected(date);
+                  const isDisabled = isDateDisabled(date);
+                  const inRange = isDateInRange(date);
+                  const dateEvents = getDateEvents(date);
+                  const isTabStop = !!tabStop && isSameDay(date, tabStop);
 
-              return (
-                <CalendarDay
-                  key={`${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`}
-                  date={date}
-                  isCurrentMonth={isCurrentMonth}
-                  isToday={isToday}
-                  isSelected={isSelected}
-                  isDisabled={isDisabled}
-                  inRange={inRange}
-                  events={dateEvents}
-                  onClick={() => handleDateClick(date)}
-                  onMouseEnter={() => setHoveredDate(date)}
-                  onMouseLeave={() => setHoveredDate(null)}
-                  onKeyDown={(e) => handleKeyDown(e, date)}
-                />
-              );
-            })}
+                  return (
+                    <CalendarDay
+                      key={`${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`}
+                      date={date}
+                      isCurrentMonth={isCurrentMonth}
+                      isToday={isToday}
+                      isSelected={isSelected}
+                      isDisabled={isDisabled}
+                      inRange={inRange}
+                      events={dateEvents}
+                      isTabStop={isTabStop}
+                      shouldFocus={isTabStop && keyboardNavRef.current}
+                      onClick={() => handleDateClick(date)}
+                      onFocus={() => setFocusedDate(date)}
+                      onMouseEnter={() => setHoveredDate(date)}
+                      onMouseLeave={() => setHoveredDate(null)}
+                      onKeyDown={(e) => handleKeyDown(e, date)}
+                    />
+                  );
+                })}
+              </div>
+            ))}
           </motion.div>
         </AnimatePresence>
       </div>
@@ -433,7 +486,12 @@ interface CalendarDayProps {
   isDisabled: boolean;
   inRange: boolean;
   events: CalendarEvent[];
+  // Only one day is in the tab order at a time
+  isTabStop: boolean;
+  // Take focus on render, after a keyboard move
+  shouldFocus: boolean;
   onClick: () => void;
+  onFocus: () => void;
   onMouseEnter: () => void;
   onMouseLeave: () => void;
   onKeyDown: (e: React.KeyboardEvent) => void;
@@ -447,16 +505,28 @@ function CalendarDay({
   isDisabled,
   inRange,
   events,
+  isTabStop,
+  shouldFocus,
   onClick,
+  onFocus,
   onMouseEnter,
   onMouseLeave,
   onKeyDown
 }: CalendarDayProps) {
   const dayNumber = date.getDate();
+  const buttonRef = useRef<HTMLButtonElement>(null);
+
+  // Also runs on mount, so a move into another month focuses the day once the new month renders
+  useEffect(() => {
+    if (shouldFocus) buttonRef.current?.focus();
+  }, [shouldFocus]);
   
   return (
     <motion.button
+      ref={buttonRef}
+      tabIndex={isTabStop ? 0 : -1}
       onClick={onClick}
+      onFocus={onFocus}
       onMouseEnter={onMouseEnter}
       onMouseLeave={onMouseLeave}
       onKeyDown={onKeyDown}
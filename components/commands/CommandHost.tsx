@@ -0,0 +1,177 @@
+"use client";
+
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { Command, bindCommandShortcuts } from "../../lib/commands";
+import { regionsOf, shortcutManager } from "../../lib/shortcuts";
+import { useStore } from "../../lib/store";
+import { ScreenReader } from "../../lib/a11y";
+import { CommandPalette } from "./CommandPalette";
+import { ShortcutCheatSheet } from "./ShortcutCheatSheet";
+import { UndoToast } from "./UndoToast";
+import { useRegisterCommands } from "./useCommands";
+
+const DAY_PAGES = [
+  { day: 1, title: 'Avatar Stack' },
+  { day: 2, title: 'OTP Input' },
+  { day: 3, title: 'Liquid Sheet' },
+  { day: 4, title: 'Paper-Stack Folder' },
+  { day: 5, title: 'Chip-to-Form' },
+  { day: 6, title: 'Context Portal' },
+  { day: 7, title: 'Peerlist Autofill' },
+  { day: 8, title: 'Identity Board' }
+];
+
+const NO_REGIONS: string[] = [];
+
+function undo() {
+  const entry = useStore.getState().undo();
+  ScreenReader.announce(entry ? `Undid ${entry.label}` : 'Nothing to undo', 'polite');
+}
+
+function redo() {
+  const entry = useStore.getState().redo();
+  ScreenReader.announce(entry ? `Redid ${entry.label}` : 'Nothing to redo', 'polite');
+}
+
+// Mounted once in the root layout: owns the shortcut listener, app-wide commands, the palette, the cheat sheet and the undo toast
+export function CommandHost() {
+  const router = useRouter();
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  // Focus regions when the cheat sheet opened; null while closed
+  const [cheatSheetRegions, setCheatSheetRegions] = useState<string[] | null>(null);
+  const theme = useStore(state => state.preferences.theme);
+  const shortcutOverrides = useStore(state => state.preferences.shortcuts);
+
+  useEffect(() => shortcutManager.install(), []);
+  useEffect(() => bindCommandShortcuts(), []);
+
+  useEffect(() => {
+    shortcutManager.setOverrides(shortcutOverrides ?? {});
+  }, [shortcutOverrides]);
+
+  // Reflect the theme preference on the document so CSS can follow it
+  useEffect(() => {
+    document.documentElement.dataset.theme = theme;
+  }, [theme]);
+
+  const commands = useMemo<Command[]>(() => [
+    {
+      id: 'palette.open',
+      title: 'Open Command Palette',
+      subtitle: 'Search every command',
+      icon: '⌘',
+      category: 'system',
+      keybinding: 'mod+k',
+      run: () => setIsPaletteOpen(true)
+    },
+    {
+      id: 'help.shortcuts',
+      title: 'Show Keyboard Shortcuts',
+      subtitle: 'Everything you can press here',
+      icon: '⌨️',
+      category: 'system',
+      keybinding: '?',
+      run: () => setCheatSheetRegions(regionsOf(document.activeElement))
+    },
+    {
+      id: 'nav.home',
+      title: 'Go to Home',
+      subtitle: 'All challenges',
+      icon: '🏠',
+      category: 'navigation',
+      keybinding: 'g h',
+      run: () => router.push('/')
+    },
+    {
+      id: 'nav.continue',
+      title: 'Continue Challenge',
+      subtitle: 'First day not yet complete',
+      description: 'Jump to the earliest day you have not finished',
+      icon: '▶️',
+      category: 'navigation',
+      keybinding: 'g d',
+      when: () => useStore.getState().completedDays.length < DAY_PAGES.length,
+      run: () => {
+        const completed = useStore.getState().completedDays;
+        const next = DAY_PAGES.find(({ day }) => !completed.includes(day)) ?? DAY_PAGES[0];
+        router.push(`/day-${next.day}`);
+      }
+    },
+    ...DAY_PAGES.map(({ day, title }): Command => ({
+      id: `nav.day-${day}`,
+      title: `Go to Day ${day}: ${title}`,
+      subtitle: `/day-${day}`,
+      icon: '📅',
+      category: 'navigation',
+      keybinding: `g ${day}`,
+      run: () => router.push(`/day-${day}`)
+    })),
+    {
+      id: 'nav.all',
+      title: 'Go to All Components',
+      subtitle: '/all',
+      icon: '🧩',
+      category: 'navigation',
+      keybinding: 'g a',
+      run: () => router.push('/all')
+    },
+    {
+      id: 'edit.undo',
+      title: 'Undo',
+      subtitle: 'Take back the last folder or board change',
+      icon: '↩️',
+      category: 'edit',
+      keybinding: 'mod+z',
+      yieldToInputs: true,
+      when: () => useStore.getState().past.length > 0,
+      run: undo
+    },
+    {
+      id: 'edit.redo',
+      title: 'Redo',
+      subtitle: 'Apply the last undone change again',
+      icon: '↪️',
+      category: 'edit',
+      keybinding: 'mod+shift+z',
+      yieldToInputs: true,
+      when: () => useStore.getState().future.length > 0,
+      run: redo
+    },
+    {
+      id: 'view.toggle-theme',
+      title: 'Toggle Light/Dark Theme',
+      subtitle: 'Switch appearance',
+      description: 'Toggle between light and dark themes',
+      icon: '🌓',
+      category: 'view',
+      keybinding: 'mod+shift+l',
+      run: () => {
+        const { preferences, setPreferences } = useStore.getState();
+        const next = preferences.theme === 'light' ? 'dark' : 'light';
+        setPreferences({ theme: next });
+        ScreenReader.announce(`${next === 'light' ? 'Light' : 'Dark'} theme`, 'polite');
+      }
+    }
+  ], [router]);
+
+  useRegisterCommands(commands);
+
+  const closePalette = useCallback(() => setIsPaletteOpen(false), []);
+  const closeCheatSheet = useCallback(() => setCheatSheetRegions(null), []);
+
+  return (
+    <>
+      <CommandPalette
+        isOpen={isPaletteOpen}
+        onClose={closePalette}
+      />
+      <ShortcutCheatSheet
+        isOpen={cheatSheetRegions !== null}
+        regions={cheatSheetRegions ?? NO_REGIONS}
+        onClose={closeCheatSheet}
+      />
+      <UndoToast onUndo={undo} />
+    </>
+  );
+}
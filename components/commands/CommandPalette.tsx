@@ -0,0 +1,185 @@
+"use client";
+
+import { useState, useCallback, useEffect, useMemo } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { SmartSearch, SearchResult } from "../search/SmartSearch";
+import { Command, commandRegistry, createCommandProvider } from "../../lib/commands";
+import { Shortcut, formatKeybinding, shortcutManager } from "../../lib/shortcuts";
+import { SearchProvider } from "../../lib/search";
+import { useCommands } from "./useCommands";
+import { useShortcutLayer, useShortcutVersion, useShortcuts } from "./useShortcuts";
+
+// Enabled commands are read at search time, so the list follows scopes and conditions
+const COMMAND_PROVIDERS: SearchProvider[] = [createCommandProvider()];
+
+const QUICK_COMMAND_COUNT = 5;
+
+export const COMMAND_PALETTE_LAYER = 'command-palette';
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+  className?: string;
+}
+
+export function CommandPalette({ isOpen, onClose, className = "" }: CommandPaletteProps) {
+  const commands = useCommands();
+  useShortcutVersion();
+  const [selectedCommand, setSelectedCommand] = useState<Command | null>(null);
+
+  const quickCommands = commands
+    .filter(command => command.id !== 'palette.open' && commandRegistry.isEnabled(command))
+    .slice(0, QUICK_COMMAND_COUNT);
+
+  // Close first so navigation and focus changes land on the page, not the palette
+  const handleCommandClick = useCallback((command: Command) => {
+    setSelectedCommand(command);
+    setTimeout(() => {
+      onClose();
+      commandRegistry.run(command.id);
+    }, 100); // Brief delay for visual feedback
+  }, [onClose]);
+
+  const handleResultClick = useCallback((result: SearchResult) => {
+    const command = commandRegistry.get(result.id);
+    if (command) {
+      handleCommandClick(command);
+    }
+  }, [handleCommandClick]);
+
+  useEffect(() => {
+    if (isOpen) setSelectedCommand(null);
+  }, [isOpen]);
+
+  // The palette is modal: page shortcuts pause and Escape closes it, even from the search field
+  useShortcutLayer(COMMAND_PALETTE_LAYER, isOpen);
+  useShortcuts(useMemo<Shortcut[]>(() => [{
+    id: 'command-palette.close',
+    keys: 'escape',
+    description: 'Close command palette',
+    layer: COMMAND_PALETTE_LAYER,
+    allowInInput: true,
+    handler: onClose
+  }], [onClose]));
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm z-40"
+          />
+
+          {/* Command Palette */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: -20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: -20 }}
+            transition={{ duration: 0.2, ease: "easeOut" }}
+            role="dialog"
+            aria-modal="true"
+            aria-label="Command palette"
+            className={`
+              fixed top-20 left-1/2 transform -translate-x-1/2 z-50 w-full max-w-2xl mx-4
+              ${className}
+            `}
+          >
+            <div className="bg-surface/95 backdrop-blur-xl border border-white/20 rounded-2xl shadow-2xl overflow-hidden">
+              {/* Header */}
+              <div className="p-4 border-b border-white/10">
+                <div className="flex items-center gap-3">
+                  <div className="w-6 h-6 flex items-center justify-center text-brand">
+                    ⌘
+                  </div>
+                  <h2 className="text-lg font-semibold text-white">Command Palette</h2>
+                  <div className="ml-auto text-xs text-gray-500">
+                    Type to search commands
+                  </div>
+                </div>
+              </div>
+
+              {/* Search */}
+              <div className="p-4">
+                <SmartSearch
+                  placeholder="Search commands and actions..."
+                  maxResults={8}
+                  showCategories={false}
+                  showRecentSearches={false}
+                  autoFocus={true}
+                  onResultClick={handleResultClick}
+                  providers={COMMAND_PROVIDERS}
+                />
+              </div>
+
+              {/* Quick Commands */}
+              <div className="p-4 pt-0">
+                <h3 className="text-sm font-medium text-gray-400 mb-3">Quick Commands</h3>
+                <div className="grid grid-cols-1 gap-1">
+                  {quickCommands.map((command, index) => (
+                    <motion.button
+                      key={command.id}
+                      onClick={() => handleCommandClick(command)}
+                      className={`
+                        w-full p-3 rounded-lg text-left transition-all duration-200
+                        hover:bg-white/5 focus:bg-brand/10 focus:outline-none focus:ring-2 focus:ring-brand/50
+                        ${selectedCommand?.id === command.id ? 'bg-brand/10' : ''}
+                      `}
+                      initial={{ opacity: 0, x: -20 }}
+                      animate={{ opacity: 1, x: 0 }}
+                      transition={{ delay: index * 0.05 }}
+                      whileHover={{ x: 4 }}
+                      whileTap={{ scale: 0.98 }}
+                    >
+                      <div className="flex items-center gap-3">
+                        <div className="w-8 h-8 flex items-center justify-center text-lg">
+                          {command.icon}
+                        </div>
+                        <div className="flex-1">
+                          <div className="flex items-center justify-between">
+                            <h4 className="text-white font-medium">{command.title}</h4>
+                            {command.keybinding && (
+                              <kbd className="text-xs text-gray-500 font-mono bg-white/5 px-2 py-1 rounded">
+                                {formatKeybinding(shortcutManager.bindingFor(command.id) ?? command.keybinding)}
+                              </kbd>
+                            )}
+                          </div>
+                          {command.subtitle && (
+                            <p className="text-sm text-gray-400 mt-1">
+                              {command.subtitle}
+                            </p>
+                          )}
+                        </div>
+                        <div className="text-gray-400">
+                          →
+                        </div>
+                      </div>
+                    </motion.button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Footer */}
+              <div className="p-4 bg-white/5 border-t border-white/10">
+                <div className="flex items-center justify-between text-xs text-gray-500">
+                  <div className="flex items-center gap-4">
+                    <span>↑↓ Navigate</span>
+                    <span>↵ Execute</span>
+                    <span>⎋ Close</span>
+                  </div>
+                  <div>
+                    Press <span className="font-mono bg-white/10 px-1 rounded">{formatKeybinding(shortcutManager.bindingFor('palette.open') ?? 'mod+k')}</span> anytime
+                  </div>
+                </div>
+              </div>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
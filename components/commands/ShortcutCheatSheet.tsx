@@ -0,0 +1,247 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { SPRING } from "../motion/Primitives";
+import {
+  CHORD_TIMEOUT_MS,
+  KeyStroke,
+  Shortcut,
+  formatKeybinding,
+  parseKeybinding,
+  serializeKeybinding,
+  shortcutManager,
+  strokeFromEvent
+} from "../../lib/shortcuts";
+import { useStore } from "../../lib/store";
+import { ScreenReader } from "../../lib/a11y";
+import { useShortcutLayer, useShortcutVersion, useShortcuts } from "./useShortcuts";
+
+export const CHEAT_SHEET_LAYER = 'cheat-sheet';
+
+const DEFAULT_GROUP = 'General';
+
+type Recording = {
+  id: string;
+  strokes: KeyStroke[];
+  error: string | null;
+};
+
+interface ShortcutCheatSheetProps {
+  isOpen: boolean;
+  // Focus regions from before the sheet opened
+  regions: string[];
+  onClose: () => void;
+}
+
+// Lists every shortcut active where focus was, with conflicts flagged and inline remapping
+export function ShortcutCheatSheet({ isOpen, regions, onClose }: ShortcutCheatSheetProps) {
+  const version = useShortcutVersion();
+  const setShortcutOverride = useStore(state => state.setShortcutOverride);
+  const [recording, setRecording] = useState<Recording | null>(null);
+
+  useShortcutLayer(CHEAT_SHEET_LAYER, isOpen);
+
+  useShortcuts(useMemo<Shortcut[]>(() => [
+    {
+      id: 'cheat-sheet.close',
+      keys: 'escape',
+      description: 'Close shortcuts',
+      layer: CHEAT_SHEET_LAYER,
+      allowInInput: true,
+      handler: onClose
+    },
+    {
+      id: 'cheat-sheet.toggle',
+      keys: '?',
+      description: 'Close shortcuts',
+      layer: CHEAT_SHEET_LAYER,
+      handler: onClose
+    }
+  ], [onClose]));
+
+  // Grouped active shortcuts plus the ids involved in any conflict; `version` re-renders on changes
+  const { groups, conflicted } = useMemo(() => {
+    // Whatever the sheet covers, so modals closing underneath it are followed
+    const context = { layer: shortcutManager.layerBelow(CHEAT_SHEET_LAYER), regions };
+    const active = shortcutManager.list().filter(shortcut => shortcutManager.isActive(shortcut, context));
+    const grouped = new Map<string, Shortcut[]>();
+    active.forEach(shortcut => {
+      const group = shortcut.group ?? DEFAULT_GROUP;
+      grouped.set(group, [...(grouped.get(group) ?? []), shortcut]);
+    });
+
+    const ids = new Map<string, string[]>();
+    shortcutManager.findConflicts().forEach(conflict => {
+      conflict.ids.forEach(id => ids.set(id, conflict.ids.filter(other => other !== id)));
+    });
+
+    return { groups: Array.from(grouped), conflicted: ids };
+  }, [regions, version]);
+
+  // Record the next keys pressed; Enter or a pause finishes, Escape cancels
+  useEffect(() => {
+    if (!recording) return;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let strokes = recording.strokes;
+
+    const finish = () => {
+      if (strokes.length === 0) return;
+      const keys = serializeKeybinding(strokes);
+      const clashes = shortcutManager.conflictsFor(recording.id, keys);
+      if (clashes.length > 0) {
+        const names = clashes.map(id => shortcutManager.get(id)?.description ?? id).join(', ');
+        strokes = [];
+        setRecording({ id: recording.id, strokes: [], error: `${formatKeybinding(keys)} is used by ${names}` });
+        ScreenReader.announce(`Conflicts with ${names}`, 'assertive');
+        return;
+      }
+
+      const shortcut = shortcutManager.get(recording.id);
+      const isDefault = shortcut && serializeKeybinding(parseKeybinding(shortcut.keys)) === keys;
+      setShortcutOverride(recording.id, isDefault ? null : keys);
+      setRecording(null);
+      ScreenReader.announce(`Shortcut set to ${formatKeybinding(keys)}`, 'polite');
+    };
+
+    // Capture phase keeps the keys away from the shortcut manager while recording
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (['Shift', 'Control', 'Alt', 'Meta'].includes(e.key)) return;
+      e.preventDefault();
+      e.stopPropagation();
+
+      if (e.key === 'Escape') {
+        setRecording(null);
+        return;
+      }
+      if (e.key === 'Enter' && strokes.length > 0) {
+        finish();
+        return;
+      }
+
+      strokes = [...strokes, strokeFromEvent(e)];
+      setRecording({ id: recording.id, strokes, error: null });
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(finish, CHORD_TIMEOUT_MS);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+      if (timer) clearTimeout(timer);
+    };
+    // Only restart when a different shortcut starts recording
+  }, [recording?.id, setShortcutOverride]);
+
+  useEffect(() => {
+    if (!isOpen) setRecording(null);
+  }, [isOpen]);
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[60]"
+          />
+
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            transition={SPRING}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="shortcut-cheat-sheet-title"
+            className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-[70] w-full max-w-2xl px-4"
+          >
+            <div className="bg-surface/95 backdrop-blur-xl border border-white/20 rounded-2xl shadow-2xl overflow-hidden">
+              <div className="flex items-center gap-3 p-4 border-b border-white/10">
+                <h2 id="shortcut-cheat-sheet-title" className="text-lg font-semibold text-white">
+                  Keyboard Shortcuts
+                </h2>
+                <span className="text-xs text-gray-500">Active here • click a key to remap</span>
+                <button
+                  onClick={onClose}
+                  autoFocus
+                  className="ml-auto w-8 h-8 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 focus:outline-none focus:ring-2 focus:ring-brand/50"
+                  aria-label="Close keyboard shortcuts"
+                >
+                  ✕
+                </button>
+              </div>
+
+              <div className="max-h-[60vh] overflow-y-auto p-4 space-y-6">
+                {groups.length === 0 && (
+                  <p className="text-sm text-gray-400 text-center py-6">No shortcuts are active here.</p>
+                )}
+
+                {groups.map(([group, shortcuts]) => (
+                  <section key={group}>
+                    <h3 className="text-xs font-medium uppercase tracking-wider text-gray-500 mb-2">{group}</h3>
+                    <ul className="space-y-1">
+                      {shortcuts.map(shortcut => {
+                        const keys = shortcutManager.bindingFor(shortcut.id) ?? shortcut.keys;
+                        const clashes = conflicted.get(shortcut.id);
+                        const isRecording = recording?.id === shortcut.id;
+
+                        return (
+                          <li key={shortcut.id} className="flex items-center gap-3 px-2 py-1.5 rounded-lg hover:bg-white/5">
+                            <div className="flex-1 min-w-0">
+                              <span className="text-sm text-white">{shortcut.description}</span>
+                              {clashes && (
+                                <span className="block text-xs text-warn">
+                                  Conflicts with {clashes.map(id => shortcutManager.get(id)?.description ?? id).join(', ')}
+                                </span>
+                              )}
+                              {isRecording && recording.error && (
+                                <span className="block text-xs text-danger" role="alert">{recording.error}</span>
+                              )}
+                            </div>
+
+                            {shortcutManager.isRemapped(shortcut.id) && !isRecording && (
+                              <button
+                                onClick={() => setShortcutOverride(shortcut.id, null)}
+                                className="text-xs text-gray-500 hover:text-white"
+                                aria-label={`Reset ${shortcut.description} to ${formatKeybinding(shortcut.keys)}`}
+                              >
+                                Reset
+                              </button>
+                            )}
+
+                            <button
+                              onClick={() => setRecording(isRecording ? null : { id: shortcut.id, strokes: [], error: null })}
+                              className={`
+                                min-w-[4rem] px-2 py-1 rounded font-mono text-xs text-center transition-colors
+                                focus:outline-none focus:ring-2 focus:ring-brand/50
+                                ${isRecording ? 'bg-brand/20 text-brand ring-1 ring-brand' : clashes ? 'bg-warn/10 text-warn' : 'bg-white/10 text-gray-300 hover:bg-white/20'}
+                              `}
+                              aria-label={isRecording ? 'Press the new keys, Enter to save, Escape to cancel' : `Remap ${shortcut.description}, currently ${formatKeybinding(keys)}`}
+                            >
+                              {isRecording
+                                ? recording.strokes.length > 0 ? formatKeybinding(serializeKeybinding(recording.strokes)) : 'Press keys…'
+                                : formatKeybinding(keys)}
+                            </button>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </section>
+                ))}
+              </div>
+
+              <div className="p-4 bg-white/5 border-t border-white/10 text-xs text-gray-500 flex items-center justify-between">
+                <span>Remaps are saved to your preferences</span>
+                <span><span className="font-mono bg-white/10 px-1 rounded">?</span> or <span className="font-mono bg-white/10 px-1 rounded">Esc</span> to close</span>
+              </div>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { SPRING } from "../motion/Primitives";
+import { useStore } from "../../lib/store";
+import { HistoryEntry } from "../../lib/store-history";
+import { formatKeybinding, shortcutManager } from "../../lib/shortcuts";
+import { ScreenReader } from "../../lib/a11y";
+import { useShortcutVersion } from "./useShortcuts";
+
+const TOAST_MS = 6000;
+// Older entries were restored from storage rather than just recorded
+const FRESH_MS = 1000;
+
+// Undo's keys as the user has them mapped
+function undoKeys(): string {
+  return formatKeybinding(shortcutManager.bindingFor('edit.undo') ?? 'mod+z');
+}
+
+interface UndoToastProps {
+  onUndo: () => void;
+}
+
+// Offers a way back right after a destructive change, for as long as it is the latest one
+export function UndoToast({ onUndo }: UndoToastProps) {
+  const [entry, setEntry] = useState<HistoryEntry | null>(null);
+  useShortcutVersion();
+
+  useEffect(() => useStore.subscribe((state, prev) => {
+    const latest = state.past[state.past.length - 1];
+    const isNew = latest && latest !== prev.past[prev.past.length - 1] && !prev.future.includes(latest);
+    if (isNew && latest.destructive && Date.now() - latest.at < FRESH_MS) {
+      setEntry(latest);
+      ScreenReader.announce(`${latest.label}. Press ${undoKeys()} to undo.`, 'polite');
+    } else {
+      // Undone, or something else happened since
+      setEntry(current => (current === latest ? current : null));
+    }
+  }), []);
+
+  useEffect(() => {
+    if (!entry) return;
+    const timer = setTimeout(() => setEntry(null), TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [entry]);
+
+  return (
+    <div className="fixed bottom-6 inset-x-0 z-50 flex justify-center pointer-events-none">
+      <AnimatePresence>
+        {entry && (
+          <motion.div
+            key={entry.at}
+            initial={{ opacity: 0, y: 50, scale: 0.9 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: 50, scale: 0.9 }}
+            transition={SPRING}
+            role="status"
+            className="pointer-events-auto flex items-center gap-3 pl-4 pr-2 py-2 bg-surface/95 backdrop-blur-xl border border-white/20 rounded-xl shadow-2xl"
+          >
+            <span className="text-sm text-white truncate max-w-xs">{entry.label}</span>
+            <button
+              onClick={onUndo}
+              className="px-3 py-1 text-sm font-medium text-brand hover:bg-brand/20 rounded-lg transition-colors"
+            >
+              Undo
+              <kbd className="ml-2 text-xs text-gray-500 font-sans">{undoKeys()}</kbd>
+            </button>
+            <button
+              onClick={() => setEntry(null)}
+              aria-label="Dismiss"
+              className="w-7 h-7 flex items-center justify-center text-gray-500 hover:text-white rounded-lg hover:bg-white/10 transition-colors"
+            >
+              ✕
+            </button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { Command, commandRegistry } from "../../lib/commands";
+
+/** Register commands while the calling component is mounted; memoize the array to avoid churn */
+export function useRegisterCommands(commands: Command[]) {
+  useEffect(() => commandRegistry.register(commands), [commands]);
+}
+
+/** Activate a command scope while mounted (or while `active` is true) */
+export function useCommandScope(scope: string, active = true) {
+  useEffect(() => {
+    if (!active) return;
+    return commandRegistry.activateScope(scope);
+  }, [scope, active]);
+}
+
+/** Registered commands, re-rendering when registrations or scopes change */
+export function useCommands(): Command[] {
+  return useSyncExternalStore(commandRegistry.subscribe, commandRegistry.getSnapshot, commandRegistry.getSnapshot);
+}
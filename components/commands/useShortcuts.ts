@@ -0,0 +1,20 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { Shortcut, shortcutManager } from "../../lib/shortcuts";
+
+/** Register shortcuts while mounted; memoize the array to avoid churn */
+export function useShortcuts(shortcuts: Shortcut[]) {
+  useEffect(() => shortcutManager.register(shortcuts), [shortcuts]);
+}
+
+/** Push a modal layer while `active`, silencing shortcuts underneath */
+export function useShortcutLayer(layer: string, active = true) {
+  useEffect(() => {
+    if (!active) return;
+    return shortcutManager.pushLayer(layer);
+  }, [layer, active]);
+}
+
+/** Re-render whenever shortcuts, layers or remaps change */
+export function useShortcutVersion(): number {
+  return useSyncExternalStore(shortcutManager.subscribe, shortcutManager.getVersion, () => 0);
+}
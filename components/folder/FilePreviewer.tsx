@@ -0,0 +1,405 @@
+"use client";
+
+import { useState, useEffect, useMemo, useRef } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { SPRING } from "../motion/Primitives";
+import { Shortcut } from "../../lib/shortcuts";
+import { formatBytes } from "../../lib/file-validation";
+import { loadFolderBlobs } from "../../lib/folder-blobs";
+import {
+  MAX_TEXT_PREVIEW_BYTES,
+  MAX_TEXT_PREVIEW_LINES,
+  PreviewKind,
+  countPdfPages,
+  previewKindOf
+} from "../../lib/file-preview";
+import { TokenType, highlightLines, languageFor } from "../../lib/syntax-highlight";
+import { ScreenReader } from "../../lib/a11y";
+import { useShortcutLayer, useShortcuts } from "../commands/useShortcuts";
+import { FileItem } from "./InteractiveFolder";
+
+export const FILE_PREVIEWER_LAYER = 'file-previewer';
+
+const MAX_ZOOM = 8;
+
+const TOKEN_CLASSES: Record<TokenType, string> = {
+  comment: 'text-gray-500 italic',
+  string: 'text-ok',
+  number: 'text-warn',
+  keyword: 'text-accent',
+  literal: 'text-warn',
+  tag: 'text-brand',
+  attribute: 'text-sky-300',
+  property: 'text-sky-300',
+  punctuation: 'text-gray-400',
+  plain: 'text-gray-200'
+};
+
+// Tagged with the file it belongs to, so a sheet never shows its neighbour's contents while loading
+type Loaded = { fileId: string } & (
+  | { status: 'loading' }
+  // Samples, and files added before contents were saved
+  | { status: 'missing' }
+  | { status: 'error' }
+  | { status: 'ready'; kind: PreviewKind; url: string; text?: string; truncated?: boolean; pages?: number | null }
+);
+
+// Zoom with the wheel, +/- or a double click; drag to pan once zoomed in
+function ImageView({ url, name }: { url: string; name: string }) {
+  const [view, setView] = useState({ zoom: 1, x: 0, y: 0 });
+  const dragRef = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+
+  const zoomTo = (zoom: number) => {
+    const next = Math.min(MAX_ZOOM, Math.max(1, zoom));
+    // Back at 1x the image is centered again
+    setView(current => next === 1 ? { zoom: 1, x: 0, y: 0 } : { ...current, zoom: next });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    switch (e.key) {
+      case '+':
+      case '=': zoomTo(view.zoom * 1.25); break;
+      case '-': zoomTo(view.zoom / 1.25); break;
+      case '0': zoomTo(1); break;
+      default: return;
+    }
+    e.preventDefault();
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div
+        className={`flex-1 min-h-0 overflow-hidden flex items-center justify-center bg-black/40 touch-none focus:outline-none focus:ring-2 focus:ring-brand ${view.zoom > 1 ? 'cursor-grab active:cursor-grabbing' : 'cursor-zoom-in'}`}
+        tabIndex={0}
+        role="img"
+        aria-label={`${name}, zoom ${Math.round(view.zoom * 100)}%. Plus and minus zoom, 0 resets.`}
+        onKeyDown={handleKeyDown}
+        onWheel={(e) => zoomTo(view.zoom * (e.deltaY < 0 ? 1.1 : 1 / 1.1))}
+        onDoubleClick={() => zoomTo(view.zoom > 1 ? 1 : 2)}
+        onPointerDown={(e) => {
+          if (view.zoom === 1) return;
+          e.currentTarget.setPointerCapture(e.pointerId);
+          dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, x: view.x, y: view.y };
+        }}
+        onPointerMove={(e) => {
+          const drag = dragRef.current;
+          if (!drag) return;
+          setView(current => ({ ...current, x: drag.x + e.clientX - drag.pointerX, y: drag.y + e.clientY - drag.pointerY }));
+        }}
+        onPointerUp={() => { dragRef.current = null; }}
+        onPointerCancel={() => { dragRef.current = null; }}
+      >
+        <img
+          src={url}
+          alt=""
+          draggable={false}
+          className="max-w-full max-h-full object-contain select-none"
+          style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})` }}
+        />
+      </div>
+      <div className="flex items-center justify-center gap-2 p-2 text-xs text-gray-400">
+        <button onClick={() => zoomTo(view.zoom / 1.25)} disabled={view.zoom === 1} className="px-2 py-1 rounded hover:bg-white/10 disabled:opacity-40" aria-label="Zoom out">−</button>
+        <span className="w-12 text-center tabular-nums">{Math.round(view.zoom * 100)}%</span>
+        <button onClick={() => zoomTo(view.zoom * 1.25)} disabled={view.zoom === MAX_ZOOM} className="px-2 py-1 rounded hover:bg-white/10 disabled:opacity-40" aria-label="Zoom in">+</button>
+        <button onClick={() => zoomTo(1)} disabled={view.zoom === 1} className="px-2 py-1 rounded hover:bg-white/10 disabled:opacity-40">Reset</button>
+      </div>
+    </div>
+  );
+}
+
+function TextView({ text, name, truncated }: { text: string; name: string; truncated: boolean }) {
+  const lines = useMemo(() => highlightLines(text, languageFor(name)), [text, name]);
+  const shown = lines.slice(0, MAX_TEXT_PREVIEW_LINES);
+
+  return (
+    <div className="h-full overflow-auto bg-black/40" tabIndex={0} aria-label={`Contents of ${name}`}>
+      <pre className="text-xs leading-5 font-mono p-4">
+        {shown.map((tokens, index) => (
+          <div key={index} className="flex">
+            <span className="select-none text-right text-gray-600 w-10 pr-4 flex-shrink-0" aria-hidden="true">{index + 1}</span>
+            <code className="whitespace-pre">
+              {tokens.map((token, tokenIndex) => (
+                <span key={tokenIndex} className={TOKEN_CLASSES[token.type]}>{token.text}</span>
+              ))}
+            </code>
+          </div>
+        ))}
+      </pre>
+      {(truncated || lines.length > shown.length) && (
+        <p className="px-4 pb-4 text-xs text-gray-500">
+          {lines.length > shown.length
+            ? `Showing the first ${MAX_TEXT_PREVIEW_LINES} lines.`
+            : `Showing the first ${formatBytes(MAX_TEXT_PREVIEW_BYTES)}.`}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// The browser's own PDF viewer, one page at a time
+function PdfView({ url, name, pages }: { url: string; name: string; pages: number | null }) {
+  const [page, setPage] = useState(1);
+  const last = pages ?? Infinity;
+
+  const turn = (step: number) => {
+    const next = Math.min(last, Math.max(1, page + step));
+    if (next === page) return;
+    setPage(next);
+    ScreenReader.announce(`Page ${next}${pages ? ` of ${pages}` : ''}`, 'polite');
+  };
+
+  useShortcuts(useMemo<Shortcut[]>(() => [
+    {
+      id: 'file-previewer.next-page',
+      keys: 'pagedown',
+      description: 'Next PDF page',
+      group: 'Preview',
+      layer: FILE_PREVIEWER_LAYER,
+      handler: () => turn(1)
+    },
+    {
+      id: 'file-previewer.previous-page',
+      keys: 'pageup',
+      description: 'Previous PDF page',
+      group: 'Preview',
+      layer: FILE_PREVIEWER_LAYER,
+      handler: () => turn(-1)
+    }
+  ], [page, last]));
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Keyed so each page loads fresh; viewers ignore hash changes after the first load */}
+      <iframe
+        key={page}
+        src={`${url}#page=${page}&view=FitH`}
+        title={`${name}, page ${page}`}
+        className="flex-1 min-h-0 w-full bg-white"
+      />
+      <div className="flex items-center justify-center gap-2 p-2 text-xs text-gray-400">
+        <button onClick={() => turn(-1)} disabled={page === 1} className="px-2 py-1 rounded hover:bg-white/10 disabled:opacity-40" aria-label="Previous page">‹</button>
+        <span className="tabular-nums">Page {page}{pages ? ` of ${pages}` : ''}</span>
+        <button onClick={() => turn(1)} disabled={page >= last} className="px-2 py-1 rounded hover:bg-white/10 disabled:opacity-40" aria-label="Next page">›</button>
+      </div>
+    </div>
+  );
+}
+
+// What's known without contents: the thumbnail or emoji and the description
+function Placeholder({ file, message }: { file: FileItem; message: string }) {
+  return (
+    <div className="h-full flex flex-col items-center justify-center gap-4 p-8 text-center">
+      <div
+        className="w-32 h-32 rounded-2xl flex items-center justify-center text-6xl overflow-hidden"
+        style={{ backgroundColor: file.color + '20' }}
+      >
+        {file.thumbnail ? <img src={file.thumbnail} alt="" className="w-full h-full object-cover" /> : file.preview}
+      </div>
+      {file.content && <p className="text-gray-300 max-w-md">{file.content}</p>}
+      <p className="text-sm text-gray-500 max-w-md">{message}</p>
+    </div>
+  );
+}
+
+interface FilePreviewerProps {
+  // Files to page through, in folder order
+  files: FileItem[];
+  // The file shown; null while closed
+  fileId: string | null;
+  onNavigate: (fileId: string) => void;
+  onClose: () => void;
+}
+
+// Full preview of a folder file, pulled out of the stack like a sheet of paper
+export function FilePreviewer({ files, fileId, onNavigate, onClose }: FilePreviewerProps) {
+  const index = files.findIndex(file => file.id === fileId);
+  const file = index === -1 ? null : files[index];
+  const isOpen = file !== null;
+  const [loaded, setLoaded] = useState<Loaded | null>(null);
+  // Which way the sheets slide when paging
+  const [direction, setDirection] = useState(0);
+
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+    let url: string | null = null;
+    const fileId = file.id;
+
+    loadFolderBlobs([file.id]).then(async blobs => {
+      const blob = blobs.get(file.id);
+      if (!blob) {
+        if (!cancelled) setLoaded({ fileId, status: 'missing' });
+        return;
+      }
+      const kind = previewKindOf(file.mimeType || blob.type, file.name);
+      const text = kind === 'text' ? await blob.slice(0, MAX_TEXT_PREVIEW_BYTES).text() : undefined;
+      const pages = kind === 'pdf' ? countPdfPages(new Uint8Array(await blob.arrayBuffer())) : undefined;
+      if (cancelled) return;
+      url = URL.createObjectURL(blob);
+      setLoaded({ fileId, status: 'ready', kind, url, text, truncated: blob.size > MAX_TEXT_PREVIEW_BYTES, pages });
+    }).catch(() => {
+      if (!cancelled) setLoaded({ fileId, status: 'error' });
+    });
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [file?.id]);
+
+  useEffect(() => {
+    if (file) ScreenReader.announce(`${file.name}, ${index + 1} of ${files.length}. Left and right arrows page between files.`, 'polite');
+  }, [file?.id]);
+
+  const page = (step: number) => {
+    const next = files[index + step];
+    if (!next) return;
+    setDirection(step);
+    onNavigate(next.id);
+  };
+
+  useShortcutLayer(FILE_PREVIEWER_LAYER, isOpen);
+  useShortcuts(useMemo<Shortcut[]>(() => {
+    // Media controls use the arrow keys to seek
+    const inMedia = (e: KeyboardEvent) => e.target instanceof HTMLMediaElement;
+    return [
+      {
+        id: 'file-previewer.close',
+        keys: 'escape',
+        description: 'Close preview',
+        group: 'Preview',
+        layer: FILE_PREVIEWER_LAYER,
+        allowInInput: true,
+        handler: onClose
+      },
+      {
+        id: 'file-previewer.next',
+        keys: 'arrowright',
+        description: 'Next file',
+        group: 'Preview',
+        layer: FILE_PREVIEWER_LAYER,
+        handler: (e) => {
+          if (inMedia(e)) return false;
+          page(1);
+        }
+      },
+      {
+        id: 'file-previewer.previous',
+        keys: 'arrowleft',
+        description: 'Previous file',
+        group: 'Preview',
+        layer: FILE_PREVIEWER_LAYER,
+        handler: (e) => {
+          if (inMedia(e)) return false;
+          page(-1);
+        }
+      }
+    ];
+  }, [onClose, files, index]));
+
+  const renderBody = (file: FileItem) => {
+    if (!loaded || loaded.fileId !== file.id || loaded.status === 'loading') {
+      return <div className="h-full flex items-center justify-center text-sm text-gray-500">Loading preview…</div>;
+    }
+    if (loaded.status === 'missing') {
+      return <Placeholder file={file} message="No saved contents to preview. Drop the real file into the folder to see it here." />;
+    }
+    if (loaded.status === 'error') {
+      return <Placeholder file={file} message="This file's contents couldn't be read." />;
+    }
+    switch (loaded.kind) {
+      case 'image': return <ImageView url={loaded.url} name={file.name} />;
+      case 'text': return <TextView text={loaded.text ?? ''} name={file.name} truncated={!!loaded.truncated} />;
+      case 'pdf': return <PdfView url={loaded.url} name={file.name} pages={loaded.pages ?? null} />;
+      case 'audio':
+        return (
+          <div className="h-full flex flex-col items-center justify-center gap-6 p-8">
+            <div className="text-7xl" aria-hidden="true">{file.preview}</div>
+            <audio src={loaded.url} controls className="w-full max-w-md" />
+          </div>
+        );
+      case 'video':
+        return <video src={loaded.url} controls className="w-full h-full bg-black object-contain" />;
+      default:
+        return <Placeholder file={file} message={`No preview for ${file.mimeType || 'this type of file'}.`} />;
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {file && (
+        <>
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[60]"
+          />
+
+          {/* Rises out of the folder the way the peek view lifts its sheets */}
+          <motion.div
+            initial={{ opacity: 0, y: 120, rotate: -3, scale: 0.9 }}
+            animate={{ opacity: 1, y: 0, rotate: 0, scale: 1 }}
+            exit={{ opacity: 0, y: 120, rotate: 3, scale: 0.9 }}
+            transition={SPRING}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="file-previewer-title"
+            className="fixed inset-x-4 top-[8vh] bottom-[8vh] mx-auto max-w-3xl z-[70]"
+          >
+            <div className="h-full flex flex-col bg-surface/95 backdrop-blur-xl border border-white/20 rounded-2xl shadow-2xl overflow-hidden">
+              <div className="p-4 border-b border-white/10 flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <h2 id="file-previewer-title" className="text-lg font-semibold text-white truncate">{file.name}</h2>
+                  <p className="text-xs text-gray-500 truncate">
+                    {formatBytes(file.size)}{file.mimeType && ` • ${file.mimeType}`}{file.dateAdded && ` • ${file.dateAdded}`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => page(-1)}
+                  disabled={index === 0}
+                  className="px-2 py-1 text-gray-400 hover:text-white rounded-lg hover:bg-white/10 disabled:opacity-40"
+                  aria-label="Previous file"
+                >
+                  ←
+                </button>
+                <span className="text-xs text-gray-400 tabular-nums">{index + 1} / {files.length}</span>
+                <button
+                  onClick={() => page(1)}
+                  disabled={index === files.length - 1}
+                  className="px-2 py-1 text-gray-400 hover:text-white rounded-lg hover:bg-white/10 disabled:opacity-40"
+                  aria-label="Next file"
+                >
+                  →
+                </button>
+                <button
+                  onClick={onClose}
+                  className="px-2 py-1 text-gray-400 hover:text-white rounded-lg hover:bg-white/10"
+                  aria-label="Close preview"
+                >
+                  ✕
+                </button>
+              </div>
+
+              <div className="flex-1 min-h-0 relative overflow-hidden">
+                <AnimatePresence initial={false}>
+                  <motion.div
+                    key={file.id}
+                    initial={{ x: direction * 60, opacity: 0, rotate: direction * 1.5 }}
+                    animate={{ x: 0, opacity: 1, rotate: 0 }}
+                    exit={{ x: direction * -60, opacity: 0, rotate: direction * -1.5 }}
+                    transition={SPRING}
+                    className="absolute inset-0"
+                  >
+                    {renderBody(file)}
+                  </motion.div>
+                </AnimatePresence>
+              </div>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
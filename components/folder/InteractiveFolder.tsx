@@ -1,25 +1,64 @@
 "use client";
 
-import { useState, useRef, useCallback, useEffect } from "react";
+import { useState, useRef, useCallback, useEffect, useMemo } from "react";
 import { motion, AnimatePresence, useMotionValue, useTransform, useDragControls } from "framer-motion";
 import { SPRING, DURATIONS, FadeIn, ScaleIn } from "../motion/Primitives";
-import { useStore } from "../../lib/store";
+import { FolderFileType, FolderItem, useFolderItems, useFolderView, useStore } from "../../lib/store";
+import { Shortcut } from "../../lib/shortcuts";
+import { FileCategory, UploadPolicy, fileExtension, formatBytes } from "../../lib/file-validation";
+import { PreparedFile, prepareFile } from "../../lib/upload-pipeline";
+import { ROOT_FOLDER_ID, canMoveTo, childrenOf, folderStats, isFolder, pathTo, subtreeIds } from "../../lib/folder-tree";
+import {
+  EMPTY_SELECTION,
+  Selection,
+  moveFocus,
+  pruneSelection,
+  selectAll,
+  selectHits,
+  selectOnly,
+  selectRange,
+  toggleSelected
+} from "../../lib/selection";
+import { loadFolderBlobs, pruneFolderBlobs, saveFolderBlob } from "../../lib/folder-blobs";
+import { idsInHistory } from "../../lib/store-history";
+import {
+  DATE_BUCKET_LABELS,
+  DEFAULT_FOLDER_VIEW,
+  DateBucket,
+  FolderGroupBy,
+  FolderSortKey,
+  FolderView,
+  applyFolderView,
+  groupFolderItems,
+  isFiltered,
+  viewKey
+} from "../../lib/folder-view";
+import { createZip } from "../../lib/zip";
+import { downloadBlob } from "../../lib/export";
 import { 
   ARIA_LABELS, 
   ScreenReader, 
   handleKeyboardNavigation 
 } from "../../lib/a11y";
+import { useShortcuts } from "../commands/useShortcuts";
+import { MoveToDialog } from "./MoveToDialog";
+import { FilePreviewer } from "./FilePreviewer";
 
 // File types and data
 export interface FileItem {
   id: string;
   name: string;
-  type: 'image' | 'document' | 'video' | 'audio' | 'code';
-  size: string;
-  preview: string; // emoji or thumbnail
+  type: FolderFileType;
+  size: number; // bytes
+  mimeType: string;
+  preview: string; // emoji
+  thumbnail?: string; // data URL, for images
   content?: string;
   dateAdded: string;
   color: string;
+  parentId?: string | null;
+  itemCount?: number; // folders: files inside, at any depth
+  tags?: string[];
 }
 
 const FILE_TYPES = {
@@ -27,15 +66,29 @@ const FILE_TYPES = {
   document: { icon: '📄', color: '#3B82F6', label: 'Document' },
   video: { icon: '🎬', color: '#EF4444', label: 'Video' },
   audio: { icon: '🎵', color: '#8B5CF6', label: 'Audio' },
-  code: { icon: '💻', color: '#F59E0B', label: 'Code' }
+  code: { icon: '💻', color: '#F59E0B', label: 'Code' },
+  folder: { icon: '📁', color: '#EAB308', label: 'Folder' }
 } as const;
 
+const SAMPLE_FOLDER: FileItem = {
+  id: 'references',
+  name: 'References',
+  type: 'folder',
+  size: 0,
+  mimeType: '',
+  preview: FILE_TYPES.folder.icon,
+  content: 'Guidelines and material to keep at hand',
+  dateAdded: '2024-08-10',
+  color: FILE_TYPES.folder.color
+};
+
 const SAMPLE_FILES: FileItem[] = [
   {
     id: 'design-mockup',
     name: 'Design Mockup.fig',
     type: 'image',
-    size: '2.4 MB',
+    size: 2_516_582,
+    mimeType: 'application/x-figma',
     preview: '🎨',
     content: 'User interface mockups for the new dashboard design',
     dateAdded: '2024-08-15',
@@ -45,7 +98,8 @@ const SAMPLE_FILES: FileItem[] = [
     id: 'project-brief',
     name: 'Project Brief.pdf',
     type: 'document',
-    size: '856 KB',
+    size: 876_544,
+    mimeType: 'application/pdf',
     preview: '📋',
     content: 'Comprehensive project requirements and specifications',
     dateAdded: '2024-08-14',
@@ -55,7 +109,8 @@ const SAMPLE_FILES: FileItem[] = [
     id: 'demo-video',
     name: 'Demo Video.mp4',
     type: 'video',
-    size: '12.3 MB',
+    size: 12_897_485,
+    mimeType: 'video/mp4',
     preview: '📹',
     content: 'Product demonstration and feature walkthrough',
     dateAdded: '2024-08-13',
@@ -65,7 +120,8 @@ const SAMPLE_FILES: FileItem[] = [
     id: 'brand-guidelines',
     name: 'Brand Guidelines.pdf',
     type: 'document',
-    size: '1.2 MB',
+    size: 1_258_291,
+    mimeType: 'application/pdf',
     preview: '🎯',
     content: 'Brand identity guidelines and usage instructions',
     dateAdded: '2024-08-12',
@@ -75,7 +131,8 @@ const SAMPLE_FILES: FileItem[] = [
     id: 'source-code',
     name: 'Source Code.zip',
     type: 'code',
-    size: '5.7 MB',
+    size: 5_976_883,
+    mimeType: 'application/zip',
     preview: '⚡',
     content: 'Complete source code for the application',
     dateAdded: '2024-08-11',
@@ -83,21 +140,172 @@ const SAMPLE_FILES: FileItem[] = [
   }
 ];
 
+const SORT_OPTIONS: { value: FolderSortKey; label: string }[] = [
+  { value: 'name', label: 'Name' },
+  { value: 'size', label: 'Size' },
+  { value: 'date', label: 'Date added' },
+  { value: 'type', label: 'Type' }
+];
+
+const GROUP_OPTIONS: { value: FolderGroupBy; label: string }[] = [
+  { value: 'none', label: 'No grouping' },
+  { value: 'type', label: 'Type' },
+  { value: 'date', label: 'Date added' }
+];
+
+// Data type that marks a drag as a move inside the folder rather than a file drop
+const MOVE_DRAG_TYPE = 'application/x-flux-folder-item';
+
+// Dropped files are checked like uploads: by content, within size limits
+const FOLDER_POLICY: UploadPolicy = {
+  maxFileSize: 50 * 1024 * 1024,
+  maxTotalSize: 250 * 1024 * 1024
+};
+
+const CODE_EXTENSIONS = ['.js', '.jsx', '.ts', '.tsx', '.json', '.css', '.html', '.xml', '.yml', '.yaml'];
+
+function folderFileType(category: FileCategory, name: string): FolderFileType {
+  if (CODE_EXTENSIONS.includes(fileExtension(name))) return 'code';
+  switch (category) {
+    case 'image':
+    case 'design': return 'image';
+    case 'video': return 'video';
+    case 'audio': return 'audio';
+    // Archives here are mostly source bundles
+    case 'archive': return 'code';
+    default: return 'document';
+  }
+}
+
+function fromPreparedFile(prepared: PreparedFile): FileItem {
+  const type = folderFileType(prepared.type, prepared.file.name);
+  return {
+    id: `file-${crypto.randomUUID()}`,
+    name: prepared.file.name,
+    type,
+    size: prepared.file.size,
+    mimeType: prepared.mimeType,
+    preview: FILE_TYPES[type].icon,
+    thumbnail: prepared.preview,
+    dateAdded: new Date().toISOString().split('T')[0],
+    color: FILE_TYPES[type].color
+  };
+}
+
+// Map a folder file onto the persisted store shape
+function toFolderItem(file: FileItem): FolderItem {
+  return {
+    id: file.id,
+    name: file.name,
+    type: file.type === 'folder' ? 'folder' : file.type === 'image' ? 'img' : 'doc',
+    parentId: file.parentId ?? ROOT_FOLDER_ID,
+    fileType: file.type,
+    size: file.size,
+    mimeType: file.mimeType,
+    thumbnail: file.thumbnail,
+    icon: file.preview,
+    description: file.content,
+    addedAt: file.dateAdded,
+    tags: file.tags
+  };
+}
+
+// And back; items saved before files carried details fall back to their coarse type
+function toFileItem(item: FolderItem): FileItem {
+  const type = item.fileType ?? (isFolder(item) ? 'folder' : item.type === 'img' ? 'image' : 'document');
+  return {
+    id: item.id,
+    name: item.name,
+    type,
+    size: item.size ?? 0,
+    mimeType: item.mimeType ?? '',
+    preview: item.icon ?? FILE_TYPES[type].icon,
+    thumbnail: item.thumbnail,
+    content: item.description,
+    dateAdded: item.addedAt ?? '',
+    color: FILE_TYPES[type].color,
+    parentId: item.parentId ?? ROOT_FOLDER_ID,
+    tags: item.tags
+  };
+}
+
+// Image thumbnail when there is one, the file's emoji otherwise
+function FileThumb({ file, className }: { file: FileItem; className: string }) {
+  return (
+    <div
+      className={`rounded-lg flex items-center justify-center flex-shrink-0 overflow-hidden ${className}`}
+      style={{ backgroundColor: file.color + '20' }}
+    >
+      {file.thumbnail ? (
+        <img src={file.thumbnail} alt="" className="w-full h-full object-cover" />
+      ) : (
+        file.preview
+      )}
+    </div>
+  );
+}
+
+// Small folder for sub-folder rows; its papers rise when the row is hovered or selected
+function MiniFolder({ count, raised }: { count: number; raised: boolean }) {
+  return (
+    <div className="relative w-8 h-8 flex-shrink-0" aria-hidden="true">
+      <div className="absolute top-0.5 left-0.5 w-3 h-1.5 bg-yellow-300 rounded-t-sm" />
+      {Array.from({ length: Math.min(count, 2) }, (_, index) => (
+        <div
+          key={index}
+          className={`absolute left-1.5 right-1.5 h-5 bg-white border border-gray-200 rounded-sm transition-transform duration-200 ${raised ? '-translate-y-1' : 'group-hover:-translate-y-1'}`}
+          style={{ top: 4 + index * 2, transitionDelay: `${index * 40}ms` }}
+        />
+      ))}
+      <div className="absolute inset-x-0 bottom-0 h-6 bg-gradient-to-br from-yellow-200 to-yellow-300 border border-yellow-400 rounded" />
+    </div>
+  );
+}
+
 interface PaperStackFolderProps {
   files: FileItem[];
-  onFileAdd: (file: FileItem) => void;
-  onFileRemove: (fileId: string) => void;
-  onFileSelect: (file: FileItem | null) => void;
-  selectedFile: FileItem | null;
+  onFilesDrop: (files: File[]) => void;
+  onRemove: (ids: string[]) => void;
+  selection: Selection;
+  onSelectionChange: (selection: Selection) => void;
+  folderName: string;
+  // Play the peek animation as soon as it mounts, e.g. after opening a sub-folder
+  openOnMount?: boolean;
+  onFolderOpen: (folderId: string) => void;
+  // Absent at the top level
+  onGoUp?: () => void;
+  onMoveRequest: (ids: string[]) => void;
+  onPreview: (fileId: string) => void;
+  // Items being dragged for a move; empty otherwise
+  draggingIds: string[];
+  onItemsDrag: (ids: string[]) => void;
+  onItemsMove: (ids: string[], folderId: string) => void;
+  canMoveInto: (ids: string[], folderId: string) => boolean;
+  // Shown above the first item of each group, keyed by that item's id
+  groupHeadings?: Map<string, string>;
+  // Some items are hidden by the view's filters
+  isFiltered?: boolean;
   className?: string;
 }
 
 function PaperStackFolder({
   files,
-  onFileAdd,
-  onFileRemove,
-  onFileSelect,
-  selectedFile,
+  onFilesDrop,
+  onRemove,
+  selection,
+  onSelectionChange,
+  folderName,
+  openOnMount = false,
+  onFolderOpen,
+  onGoUp,
+  onMoveRequest,
+  onPreview,
+  draggingIds,
+  onItemsDrag,
+  onItemsMove,
+  canMoveInto,
+  groupHeadings,
+  isFiltered = false,
   className = ""
 }: PaperStackFolderProps) {
   // Component state
@@ -105,9 +313,17 @@ function PaperStackFolder({
   const [isPeeking, setIsPeeking] = useState(false);
   const [isDragOver, setIsDragOver] = useState(false);
   const [isClosing, setIsClosing] = useState(false);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  // Lasso rectangle relative to the peek panel, while dragging one
+  const [lassoRect, setLassoRect] = useState<{ left: number; top: number; width: number; height: number } | null>(null);
   
   // Refs
   const folderRef = useRef<HTMLDivElement>(null);
+  const peekRef = useRef<HTMLDivElement>(null);
+  const rowRefs = useRef(new Map<string, HTMLDivElement>());
+  const lassoRef = useRef<{ x: number; y: number; base: Selection; active: boolean } | null>(null);
+  // The click that ends a lasso must not close the folder
+  const lassoEndedRef = useRef(false);
   const dragControls = useDragControls();
   
   // Motion values for folder interactions
@@ -122,6 +338,8 @@ function PaperStackFolder({
   
   // Folder states
   const folderState = files.length === 0 ? 'empty' : isPeeking ? 'previewing' : 'full';
+  const order = useMemo(() => files.map(file => file.id), [files]);
+  const selectedFiles = files.filter(file => selection.ids.includes(file.id));
   
   // Breathing animation for folder flap
   useEffect(() => {
@@ -157,9 +375,22 @@ function PaperStackFolder({
     
     ScreenReader.announce('Folder closed', 'polite');
   }, [peekProgress, stackHeight]);
+
+  // Opening a sub-folder remounts the stack, so each one peeks open on its own
+  useEffect(() => {
+    if (!openOnMount) return;
+    folderRef.current?.focus({ preventScroll: true });
+    const timeout = setTimeout(() => {
+      setIsPeeking(true);
+      peekProgress.set(1);
+    }, DURATIONS.slow * 1000);
+    return () => clearTimeout(timeout);
+  }, []);
   
   // Drag and drop handlers
+  // Moves between folders are handled by the rows and breadcrumbs, not as file drops
   const handleDragOver = useCallback((e: React.DragEvent) => {
+    if (e.dataTransfer.types.includes(MOVE_DRAG_TYPE)) return;
     e.preventDefault();
     setIsDragOver(true);
   }, []);
@@ -170,49 +401,236 @@ function PaperStackFolder({
   }, []);
   
   const handleDrop = useCallback((e: React.DragEvent) => {
+    if (e.dataTransfer.types.includes(MOVE_DRAG_TYPE)) return;
     e.preventDefault();
     setIsDragOver(false);
     
-    // Mock file creation from drop
-    const mockFile: FileItem = {
-      id: `file-${Date.now()}`,
-      name: 'Dropped File.pdf',
-      type: 'document',
-      size: Math.floor(Math.random() * 5000) + 'KB',
-      preview: '📄',
-      content: 'This is a mock file added via drag and drop',
-      dateAdded: new Date().toISOString().split('T')[0],
-      color: FILE_TYPES.document.color
-    };
-    
-    onFileAdd(mockFile);
-    ScreenReader.announce(`Added ${mockFile.name} to folder`, 'polite');
-  }, [onFileAdd]);
+    const dropped = Array.from(e.dataTransfer.files);
+    if (dropped.length > 0) {
+      onFilesDrop(dropped);
+    }
+  }, [onFilesDrop]);
   
-  // File selection handler
-  const handleFileClick = useCallback((file: FileItem) => {
-    onFileSelect(selectedFile?.id === file.id ? null : file);
-  }, [selectedFile, onFileSelect]);
+  const announceSelection = useCallback((next: Selection) => {
+    const focused = files.find(file => file.id === next.focusId);
+    const count = `${next.ids.length} selected`;
+    ScreenReader.announce(focused ? `${focused.name}, ${formatBytes(focused.size)}, ${next.ids.includes(focused.id) ? 'selected' : 'not selected'}. ${count}` : count, 'polite');
+  }, [files]);
+
+  // Shift adds a range, Ctrl/⌘ toggles; a plain click opens folders and selects files
+  const handleFileClick = useCallback((file: FileItem, e: React.MouseEvent) => {
+    // The second click of a double click belongs to the preview
+    if (e.detail > 1) return;
+    const additive = e.ctrlKey || e.metaKey;
+    let next: Selection;
+    if (e.shiftKey) next = selectRange(selection, order, file.id, additive);
+    else if (additive) next = toggleSelected(selection, order, file.id);
+    else if (file.type === 'folder') {
+      onFolderOpen(file.id);
+      return;
+    } else next = selection.ids.length === 1 && selection.ids[0] === file.id ? EMPTY_SELECTION : selectOnly(file.id);
+    onSelectionChange(next);
+    announceSelection(next);
+  }, [selection, order, onSelectionChange, onFolderOpen, announceSelection]);
   
-  // Keyboard navigation
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (isPeeking) {
-        if (e.key === 'Escape') {
-          handlePeekEnd();
+  // Step the cursor through the open folder
+  const stepFocus = useCallback((step: number, mode: 'select' | 'extend' | 'focus') => {
+    if (files.length === 0) return;
+    const next = moveFocus(selection, order, step, mode);
+    onSelectionChange(next);
+    announceSelection(next);
+  }, [files, selection, order, onSelectionChange, announceSelection]);
+
+  // Lasso: drag on empty space in the peek panel; Ctrl/⌘ adds to the selection
+  const handleLassoStart = useCallback((e: React.PointerEvent) => {
+    if (e.button !== 0 || (e.target as Element).closest('[data-file-id]')) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lassoRef.current = { x: e.clientX, y: e.clientY, base: e.ctrlKey || e.metaKey ? selection : EMPTY_SELECTION, active: false };
+  }, [selection]);
+
+  const handleLassoMove = useCallback((e: React.PointerEvent) => {
+    const lasso = lassoRef.current;
+    const panel = peekRef.current?.getBoundingClientRect();
+    if (!lasso || !panel) return;
+    // A few pixels of slack so clicks stay clicks
+    if (!lasso.active && Math.hypot(e.clientX - lasso.x, e.clientY - lasso.y) < 4) return;
+    lasso.active = true;
+    const left = Math.min(lasso.x, e.clientX);
+    const right = Math.max(lasso.x, e.clientX);
+    const top = Math.min(lasso.y, e.clientY);
+    const bottom = Math.max(lasso.y, e.clientY);
+    const hits = order.filter(id => {
+      const row = rowRefs.current.get(id)?.getBoundingClientRect();
+      return !!row && row.left < right && row.right > left && row.top < bottom && row.bottom > top;
+    });
+    onSelectionChange(selectHits(lasso.base, order, hits));
+    setLassoRect({ left: left - panel.left, top: top - panel.top, width: right - left, height: bottom - top });
+  }, [order, onSelectionChange]);
+
+  const handleLassoEnd = useCallback(() => {
+    const lasso = lassoRef.current;
+    lassoRef.current = null;
+    setLassoRect(null);
+    if (lasso?.active) {
+      lassoEndedRef.current = true;
+      announceSelection(selection);
+    }
+  }, [selection, announceSelection]);
+
+  // Keyboard navigation; every shortcut needs focus inside the folder or its open stack
+  useShortcuts(useMemo<Shortcut[]>(() => {
+    const onFolder = (e: KeyboardEvent) => e.target === folderRef.current;
+    return [
+      {
+        id: 'folder.close',
+        keys: 'escape',
+        description: 'Close folder',
+        group: 'Folder',
+        region: 'folder',
+        when: () => isPeeking,
+        // The first Escape drops the selection, the next one closes the folder
+        handler: () => {
+          if (selection.ids.length > 0) {
+            onSelectionChange(EMPTY_SELECTION);
+            ScreenReader.announce('Selection cleared', 'polite');
+          } else handlePeekEnd();
+        }
+      },
+      {
+        id: 'folder.toggle',
+        keys: 'enter',
+        description: 'Open or close folder; opens the folder or preview at the cursor',
+        group: 'Folder',
+        region: 'folder',
+        // Enter on a file's own button should still press that button
+        handler: (e) => {
+          if (!onFolder(e)) return false;
+          const focused = files.find(file => file.id === selection.focusId);
+          if (isPeeking && focused?.type === 'folder') onFolderOpen(focused.id);
+          else if (isPeeking && focused) onPreview(focused.id);
+          else if (isPeeking) handlePeekEnd();
+          else handlePeekStart();
+        }
+      },
+      {
+        id: 'folder.next',
+        keys: 'arrowdown',
+        description: 'Select next file',
+        group: 'Folder',
+        region: 'folder',
+        when: () => isPeeking,
+        handler: () => stepFocus(1, 'select')
+      },
+      {
+        id: 'folder.previous',
+        keys: 'arrowup',
+        description: 'Select previous file',
+        group: 'Folder',
+        region: 'folder',
+        when: () => isPeeking,
+        handler: () => stepFocus(-1, 'select')
+      },
+      {
+        id: 'folder.extend-next',
+        keys: 'shift+arrowdown',
+        description: 'Extend selection down',
+        group: 'Folder',
+        region: 'folder',
+        when: () => isPeeking,
+        handler: () => stepFocus(1, 'extend')
+      },
+      {
+        id: 'folder.extend-previous',
+        keys: 'shift+arrowup',
+        description: 'Extend selection up',
+        group: 'Folder',
+        region: 'folder',
+        when: () => isPeeking,
+        handler: () => stepFocus(-1, 'extend')
+      },
+      {
+        id: 'folder.focus-next',
+        keys: 'mod+arrowdown',
+        description: 'Move cursor down without selecting',
+        group: 'Folder',
+        region: 'folder',
+        when: () => isPeeking,
+        handler: () => stepFocus(1, 'focus')
+      },
+      {
+        id: 'folder.focus-previous',
+        keys: 'mod+arrowup',
+        description: 'Move cursor up without selecting',
+        group: 'Folder',
+        region: 'folder',
+        when: () => isPeeking,
+        handler: () => stepFocus(-1, 'focus')
+      },
+      {
+        id: 'folder.toggle-selected',
+        keys: 'space',
+        description: 'Select or deselect the item at the cursor',
+        group: 'Folder',
+        region: 'folder',
+        when: () => isPeeking && files.length > 0,
+        handler: (e) => {
+          if (!onFolder(e)) return false;
+          const next = toggleSelected(selection, order, selection.focusId ?? order[0]);
+          onSelectionChange(next);
+          announceSelection(next);
+        }
+      },
+      {
+        id: 'folder.select-all',
+        keys: 'mod+a',
+        description: 'Select everything in the folder',
+        group: 'Folder',
+        region: 'folder',
+        when: () => isPeeking && files.length > 0,
+        handler: () => {
+          onSelectionChange(selectAll(order));
+          ScreenReader.announce(`All ${order.length} items selected`, 'polite');
         }
+      },
+      {
+        id: 'folder.remove',
+        keys: 'delete',
+        description: 'Remove selected items',
+        group: 'Folder',
+        region: 'folder',
+        when: () => isPeeking && selection.ids.length > 0,
+        handler: () => onRemove(selection.ids)
+      },
+      {
+        id: 'folder.move',
+        keys: 'm',
+        description: 'Move selected items to another folder',
+        group: 'Folder',
+        region: 'folder',
+        when: () => isPeeking && selection.ids.length > 0,
+        handler: () => onMoveRequest(selection.ids)
+      },
+      {
+        id: 'folder.up',
+        keys: 'backspace',
+        description: 'Go to the parent folder',
+        group: 'Folder',
+        region: 'folder',
+        when: () => !!onGoUp,
+        handler: () => onGoUp?.()
       }
-    };
-    
-    document.addEventListener('keydown', handleKeyDown);
-    return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [isPeeking, handlePeekEnd]);
+    ];
+  }, [isPeeking, handlePeekEnd, handlePeekStart, stepFocus, files, order, selection, onSelectionChange, announceSelection, onRemove, onFolderOpen, onMoveRequest, onPreview, onGoUp]));
 
   return (
     <div className={`relative ${className}`}>
       {/* Folder Container */}
       <motion.div
         ref={folderRef}
+        tabIndex={0}
+        data-shortcut-region="folder"
+        aria-label={`${folderName} folder with ${files.length} ${files.length === 1 ? 'item' : 'items'}`}
+        aria-expanded={isPeeking}
         className="relative w-80 mx-auto cursor-pointer select-none"
         onMouseEnter={() => setIsHovered(true)}
         onMouseLeave={() => setIsHovered(false)}
@@ -276,9 +694,9 @@ function PaperStackFolder({
                 >
                   📁
                 </motion.div>
-                <p className="text-sm font-medium">Empty Folder</p>
+                <p className="text-sm font-medium">{isFiltered ? 'No Matches' : 'Empty Folder'}</p>
                 <p className="text-xs mt-1 text-center px-4">
-                  {isDragOver ? 'Drop files here' : 'Drag files here or click to browse'}
+                  {isDragOver ? 'Drop files here' : isFiltered ? 'Clear the filters to see everything' : 'Drag files here or click to browse'}
                 </p>
               </motion.div>
             )}
@@ -307,21 +725,23 @@ function PaperStackFolder({
                     />
                   ))}
                   
-                  {/* Top file preview */}
-                  <motion.div className="relative bg-white border-2 border-gray-300 rounded p-4 shadow-md h-32">
+                  {/* Top file preview; a new top sheet slides into place when the order changes */}
+                  <motion.div
+                    key={files[0].id}
+                    initial={{ y: -12, rotateZ: -2, opacity: 0.6 }}
+                    animate={{ y: 0, rotateZ: 0, opacity: 1 }}
+                    transition={SPRING}
+                    className="relative bg-white border-2 border-gray-300 rounded p-4 shadow-md h-32"
+                  >
                     <div className="flex items-start gap-3">
-                      <div 
-                        className="w-12 h-12 rounded-lg flex items-center justify-center text-2xl flex-shrink-0 shadow-sm"
-                        style={{ backgroundColor: files[0]?.color + '20' }}
-                      >
-                        {files[0]?.preview}
-                      </div>
+                      <FileThumb file={files[0]} className="w-12 h-12 text-2xl shadow-sm" />
                       <div className="flex-1 min-w-0">
                         <h4 className="font-medium text-gray-900 truncate">
                           {files[0]?.name}
                         </h4>
                         <p className="text-sm text-gray-500 mt-1">
-                          {files[0]?.size} • {FILE_TYPES[files[0]?.type as keyof typeof FILE_TYPES]?.label}
+                          {formatBytes(files[0].size)} • {FILE_TYPES[files[0].type]?.label}
+                          {files[0].type === 'folder' && ` • ${files[0].itemCount ?? 0} files`}
                         </p>
                         <p className="text-xs text-gray-400 mt-2 line-clamp-2">
                           {files[0]?.content}
@@ -342,57 +762,152 @@ function PaperStackFolder({
             {/* File Stack - Peeking View */}
             {folderState === 'previewing' && isPeeking && (
               <motion.div
+                ref={peekRef}
                 initial={{ opacity: 0 }}
                 animate={{ opacity: 1 }}
                 exit={{ opacity: 0 }}
                 className="absolute inset-0 bg-gradient-to-br from-gray-50 to-gray-100 p-2 overflow-hidden"
+                onPointerDown={handleLassoStart}
+                onPointerMove={handleLassoMove}
+                onPointerUp={handleLassoEnd}
+                onPointerCancel={handleLassoEnd}
+                onClick={(e) => {
+                  if (!lassoEndedRef.current) return;
+                  lassoEndedRef.current = false;
+                  e.stopPropagation();
+                }}
               >
-                <div className="h-full overflow-y-auto space-y-2">
-                  {files.map((file, index) => (
-                    <motion.div
-                      key={file.id}
-                      initial={{ y: 20, opacity: 0 }}
-                      animate={{ y: 0, opacity: 1 }}
-                      transition={{ delay: index * 0.05 }}
-                      className={`
-                        bg-white border rounded-lg p-3 cursor-pointer transition-all hover:shadow-md
-                        ${selectedFile?.id === file.id ? 'ring-2 ring-brand border-brand' : 'border-gray-200'}
-                      `}
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleFileClick(file);
-                      }}
-                      whileHover={{ scale: 1.02 }}
-                      whileTap={{ scale: 0.98 }}
-                    >
-                      <div className="flex items-center gap-2">
-                        <div 
-                          className="w-8 h-8 rounded flex items-center justify-center text-sm flex-shrink-0"
-                          style={{ backgroundColor: file.color + '20' }}
-                        >
-                          {file.preview}
-                        </div>
-                        <div className="flex-1 min-w-0">
-                          <h5 className="font-medium text-gray-900 text-sm truncate">
-                            {file.name}
-                          </h5>
-                          <p className="text-xs text-gray-500">
-                            {file.size}
-                          </p>
-                        </div>
-                        <button
+                <div className="h-full overflow-y-auto space-y-2 px-1 py-1">
+                  {/* Rows glide to their new places when the view re-orders them */}
+                  <AnimatePresence>
+                    {files.flatMap((file, index) => {
+                      const isSubfolder = file.type === 'folder';
+                      const isSelected = selection.ids.includes(file.id);
+                      const canDrop = isSubfolder && draggingIds.length > 0 && canMoveInto(draggingIds, file.id);
+                      const heading = groupHeadings?.get(file.id);
+                      return [
+                        heading && (
+                          <motion.h6
+                            key={`heading-${heading}`}
+                            layout="position"
+                            initial={{ opacity: 0 }}
+                            animate={{ opacity: 1 }}
+                            exit={{ opacity: 0 }}
+                            transition={SPRING}
+                            className="pt-1 px-1 text-[11px] font-semibold uppercase tracking-wide text-gray-400"
+                          >
+                            {heading}
+                          </motion.h6>
+                        ),
+                        <motion.div
+                          key={file.id}
+                          layout="position"
+                          ref={(node) => {
+                            if (node) rowRefs.current.set(file.id, node);
+                            else rowRefs.current.delete(file.id);
+                          }}
+                          data-file-id={file.id}
+                          initial={{ y: 20, opacity: 0 }}
+                          animate={{ y: 0, opacity: draggingIds.includes(file.id) ? 0.5 : 1 }}
+                          exit={{ opacity: 0, scale: 0.95 }}
+                          transition={{ delay: index * 0.05, layout: SPRING }}
                           onClick={(e) => {
                             e.stopPropagation();
-                            onFileRemove(file.id);
+                            handleFileClick(file, e);
+                          }}
+                          onDoubleClick={(e) => {
+                            e.stopPropagation();
+                            if (!isSubfolder) onPreview(file.id);
+                          }}
+                          onDragOver={(e) => {
+                            if (!canDrop) return;
+                            e.preventDefault();
+                            e.stopPropagation();
+                            e.dataTransfer.dropEffect = 'move';
+                            setDropTargetId(file.id);
+                          }}
+                          onDragLeave={() => setDropTargetId(current => current === file.id ? null : current)}
+                          onDrop={(e) => {
+                            if (!canDrop) return;
+                            e.preventDefault();
+                            e.stopPropagation();
+                            setDropTargetId(null);
+                            onItemsMove(draggingIds, file.id);
                           }}
-                          className="text-gray-400 hover:text-red-500 text-xs"
                         >
-                          ✕
-                        </button>
-                      </div>
-                    </motion.div>
-                  ))}
+                          {/* Selected sheets lift together, on one spring and without the entry stagger */}
+                          <motion.div
+                            animate={{
+                              y: isSelected ? -3 : 0,
+                              scale: isSelected ? 1.02 : 1,
+                              boxShadow: isSelected ? '0 10px 20px rgba(0,0,0,0.15)' : '0 1px 2px rgba(0,0,0,0.05)'
+                            }}
+                            transition={SPRING}
+                            whileHover={{ scale: isSelected ? 1.03 : 1.02 }}
+                            whileTap={{ scale: 0.98 }}
+                            className={`
+                              group bg-white border rounded-lg p-3 cursor-pointer transition-colors
+                              ${isSelected ? 'ring-2 ring-brand border-brand' : 'border-gray-200'}
+                              ${selection.focusId === file.id && !isSelected ? 'ring-1 ring-brand/40' : ''}
+                              ${dropTargetId === file.id ? 'ring-2 ring-accent bg-accent/10' : ''}
+                            `}
+                          >
+                            {/* Plain element: the native drag here is a move, not framer's pan gesture */}
+                            <div
+                              className="flex items-center gap-2"
+                              draggable
+                              onDragStart={(e) => {
+                                e.stopPropagation();
+                                // Dragging a selected item takes the whole selection along
+                                const ids = isSelected ? selection.ids : [file.id];
+                                e.dataTransfer.setData(MOVE_DRAG_TYPE, ids.join(','));
+                                e.dataTransfer.effectAllowed = 'move';
+                                onItemsDrag(ids);
+                              }}
+                              onDragEnd={() => {
+                                setDropTargetId(null);
+                                onItemsDrag([]);
+                              }}
+                            >
+                              {isSubfolder ? (
+                                <MiniFolder count={file.itemCount ?? 0} raised={isSelected || dropTargetId === file.id} />
+                              ) : (
+                                <FileThumb file={file} className="w-8 h-8 text-sm" />
+                              )}
+                              <div className="flex-1 min-w-0">
+                                <h5 className="font-medium text-gray-900 text-sm truncate">
+                                  {file.name}
+                                </h5>
+                                <p className="text-xs text-gray-500 truncate">
+                                  {isSubfolder && `${file.itemCount ?? 0} ${file.itemCount === 1 ? 'file' : 'files'} • `}
+                                  {formatBytes(file.size)}
+                                  {file.tags?.map(tag => ` • #${tag}`)}
+                                </p>
+                              </div>
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  onRemove([file.id]);
+                                }}
+                                className="text-gray-400 hover:text-red-500 text-xs"
+                                aria-label={`Remove ${file.name}`}
+                              >
+                                ✕
+                              </button>
+                            </div>
+                          </motion.div>
+                        </motion.div>
+                      ];
+                    })}
+                  </AnimatePresence>
                 </div>
+
+                {lassoRect && (
+                  <div
+                    className="absolute border border-brand bg-brand/10 rounded-sm pointer-events-none"
+                    style={lassoRect}
+                  />
+                )}
               </motion.div>
             )}
             
@@ -421,6 +936,38 @@ function PaperStackFolder({
           </div>
         </motion.div>
         
+        {/* Selected sheets lift out of the closed stack together */}
+        <AnimatePresence>
+          {!isPeeking && selectedFiles.length > 0 && (
+            <motion.div
+              key="lifted"
+              initial={{ y: 40, opacity: 0 }}
+              animate={{ y: -64, opacity: 1 }}
+              exit={{ y: 40, opacity: 0 }}
+              transition={SPRING}
+              className="absolute inset-x-12 top-0 h-16 pointer-events-none"
+              style={{ zIndex: 20 }}
+              aria-hidden="true"
+            >
+              {selectedFiles.slice(0, 3).reverse().map((file, index, sheets) => (
+                <div
+                  key={file.id}
+                  className="absolute inset-0 bg-white border border-gray-300 rounded shadow-lg p-2 flex items-center gap-2"
+                  style={{ transform: `translate(${(sheets.length - 1 - index) * 4}px, ${(sheets.length - 1 - index) * -4}px) rotate(${(sheets.length - 1 - index) * 2}deg)` }}
+                >
+                  <FileThumb file={file} className="w-8 h-8 text-sm" />
+                  <span className="text-sm font-medium text-gray-900 truncate">{file.name}</span>
+                </div>
+              ))}
+              {selectedFiles.length > 1 && (
+                <div className="absolute -top-2 -right-2 bg-brand text-white text-xs font-medium rounded-full px-2 py-0.5 shadow">
+                  {selectedFiles.length}
+                </div>
+              )}
+            </motion.div>
+          )}
+        </AnimatePresence>
+
         {/* Interaction Hints */}
         <motion.div
           initial={{ opacity: 0 }}
@@ -442,50 +989,253 @@ interface InteractiveFolderProps {
 }
 
 export function InteractiveFolder({ className = "" }: InteractiveFolderProps) {
-  const { markDayComplete, preferences } = useStore();
+  const { markDayComplete, preferences, addFolderItem, removeFolderItems, moveFolderItems, tagFolderItems, untagFolderItems, setFolderView } = useStore();
+  const folderItems = useFolderItems();
   
-  // Component state
-  const [files, setFiles] = useState<FileItem[]>(SAMPLE_FILES.slice(0, 3));
-  const [selectedFile, setSelectedFile] = useState<FileItem | null>(null);
-  const [folderCount, setFolderCount] = useState(1);
+  // Component state; the tree lives in the store so it persists
+  const [currentFolderId, setCurrentFolderId] = useState<string | null>(ROOT_FOLDER_ID);
+  const [openOnMount, setOpenOnMount] = useState(false);
+  const [selection, setSelection] = useState<Selection>(EMPTY_SELECTION);
+  const [moveIds, setMoveIds] = useState<string[]>([]);
+  const [draggingIds, setDraggingIds] = useState<string[]>([]);
+  const [tagDraft, setTagDraft] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const [dropCrumbId, setDropCrumbId] = useState<string | null | undefined>(undefined);
+  const [checkingCount, setCheckingCount] = useState(0);
+  // Dropped files that broke a rule, with one message per rule
+  const [rejected, setRejected] = useState<{ name: string; messages: string[] }[]>([]);
+
+  // Contents of the open folder: sub-folders first, then files newest first
+  const files = useMemo(() => {
+    const children = childrenOf(folderItems, currentFolderId).map(toFileItem).reverse();
+    const folders = children.filter(file => file.type === 'folder').map(folder => {
+      const stats = folderStats(folderItems, folder.id);
+      return { ...folder, size: stats.bytes, itemCount: stats.files };
+    });
+    return [...folders, ...children.filter(file => file.type !== 'folder')];
+  }, [folderItems, currentFolderId]);
+  // What the stack shows: the open folder's saved sort, filters and grouping applied
+  const view = useFolderView(viewKey(currentFolderId));
+  const groups = useMemo(
+    () => groupFolderItems(applyFolderView(files, view), view.groupBy),
+    [files, view]
+  );
+  const visibleFiles = useMemo(() => groups.flatMap(group => group.items), [groups]);
+  const groupHeadings = useMemo(() => view.groupBy === 'none' ? undefined : new Map(groups.map(group => [
+    group.items[0].id,
+    view.groupBy === 'type' ? FILE_TYPES[group.key as FolderFileType].label : DATE_BUCKET_LABELS[group.key as DateBucket]
+  ])), [groups, view.groupBy]);
+  const path = useMemo(() => pathTo(folderItems, currentFolderId), [folderItems, currentFolderId]);
+  const currentFolderName = path[path.length - 1]?.name ?? 'All Files';
+  const moving = folderItems.filter(item => moveIds.includes(item.id));
+  const selectedFiles = visibleFiles.filter(file => selection.ids.includes(file.id));
+  const selectedFile = selectedFiles.length === 1 ? selectedFiles[0] : null;
+  const previewFiles = useMemo(() => visibleFiles.filter(file => file.type !== 'folder'), [visibleFiles]);
+  // Tags carried by any selected item, for removing them in bulk
+  const selectionTags = [...new Set(selectedFiles.flatMap(file => file.tags ?? []))];
+
+  // Moves, deletes and filters take items out of view; stop tracking them
+  useEffect(() => {
+    setSelection(current => pruneSelection(current, visibleFiles.map(file => file.id)));
+  }, [visibleFiles]);
+
+  // A first visit starts with a few sample files and a sub-folder, set directly so there is nothing to undo.
+  // Folders that already have items from before the flag existed are left as they are
+  useEffect(() => {
+    const { folderItems: items, folderSeeded, past, future } = useStore.getState();
+    if (!folderSeeded) {
+      const references = SAMPLE_FILES
+        .filter(file => file.id === 'brand-guidelines')
+        .map(file => ({ ...file, parentId: SAMPLE_FOLDER.id }));
+      useStore.setState({
+        folderItems: items.length === 0
+          ? [SAMPLE_FOLDER, ...references, ...SAMPLE_FILES.slice(0, 3).reverse()].map(toFolderItem)
+          : items,
+        folderSeeded: true
+      });
+    }
+    // Contents of items removed in earlier visits, unless undo could still bring them back
+    const keep = idsInHistory([...past, ...future], 'folderItems');
+    items.forEach(item => keep.add(item.id));
+    pruneFolderBlobs(keep).catch(() => {});
+  }, []);
+
+  // Fall back to the top level if the open folder disappears from the store
+  useEffect(() => {
+    if (currentFolderId && !folderItems.some(item => item.id === currentFolderId)) {
+      setCurrentFolderId(ROOT_FOLDER_ID);
+    }
+  }, [folderItems, currentFolderId]);
+
+  const navigateTo = useCallback((folderId: string | null) => {
+    setCurrentFolderId(folderId);
+    setOpenOnMount(true);
+    setSelection(EMPTY_SELECTION);
+    const folder = folderId ? useStore.getState().folderItems.find(item => item.id === folderId) : undefined;
+    ScreenReader.announce(`Opened ${folder?.name ?? 'All Files'}`, 'polite');
+  }, []);
+
+  const goUp = useCallback(() => {
+    navigateTo(path.length > 1 ? path[path.length - 2].id : ROOT_FOLDER_ID);
+  }, [path, navigateTo]);
+
+  // View changes are saved for the open folder only
+  const updateView = useCallback((changes: Partial<FolderView>) => {
+    setFolderView(viewKey(currentFolderId), changes);
+  }, [currentFolderId, setFolderView]);
+
+  const toggleTypeFilter = useCallback((type: FolderFileType) => {
+    updateView({ types: view.types.includes(type) ? view.types.filter(other => other !== type) : [...view.types, type] });
+  }, [view, updateView]);
 
   // Handle file operations
-  const handleFileAdd = useCallback((file: FileItem) => {
-    setFiles(prev => [file, ...prev]);
+  const handleFileAdd = useCallback((file: FileItem, parentId: string | null) => {
+    addFolderItem(toFolderItem({ ...file, parentId }));
     markDayComplete(4);
     ScreenReader.announce(`Added ${file.name} to folder`, 'polite');
-  }, [markDayComplete]);
+  }, [addFolderItem, markDayComplete]);
+
+  // Dropped files go through the same checks and previews as uploads
+  const handleFilesDrop = useCallback(async (dropped: File[]) => {
+    // Files land in the folder they were dropped on, even if the user navigates meanwhile
+    const parentId = currentFolderId;
+    setCheckingCount(count => count + dropped.length);
+    ScreenReader.announce(`Checking ${dropped.length} ${dropped.length === 1 ? 'file' : 'files'}`, 'polite');
+
+    let usedBytes = useStore.getState().folderItems.reduce((sum, item) => sum + (item.size ?? 0), 0);
+    const failures: { name: string; messages: string[] }[] = [];
 
-  const handleFileRemove = useCallback((fileId: string) => {
-    setFiles(prev => prev.filter(f => f.id !== fileId));
-    if (selectedFile?.id === fileId) {
-      setSelectedFile(null);
+    for (const file of dropped) {
+      const prepared = await prepareFile(file, { policy: FOLDER_POLICY, usedBytes });
+      setCheckingCount(count => count - 1);
+      if (!prepared) continue;
+      if (prepared.violations.length > 0) {
+        failures.push({ name: file.name, messages: prepared.violations.map(v => v.message) });
+        continue;
+      }
+      usedBytes += prepared.file.size;
+      const added = fromPreparedFile(prepared);
+      // Without storage (quota, private mode) the file is listed but can't be downloaded
+      saveFolderBlob(added.id, prepared.file).catch(() => {});
+      handleFileAdd(added, parentId);
     }
-    ScreenReader.announce('File removed from folder', 'polite');
-  }, [selectedFile]);
 
-  const handleFileSelect = useCallback((file: FileItem | null) => {
-    setSelectedFile(file);
-    if (file) {
-      ScreenReader.announce(`Selected ${file.name}`, 'polite');
+    setRejected(failures);
+    if (failures.length > 0) {
+      ScreenReader.announce(`${failures.length} ${failures.length === 1 ? 'file was' : 'files were'} not added`, 'assertive');
     }
+  }, [handleFileAdd, currentFolderId]);
+
+  const itemsLabel = (ids: string[]) => {
+    const item = ids.length === 1 ? useStore.getState().folderItems.find(other => other.id === ids[0]) : undefined;
+    return item ? item.name : `${ids.length} items`;
+  };
+
+  const handleRemove = useCallback((ids: string[]) => {
+    // The undo toast announces the removal
+    if (ids.length > 0) removeFolderItems(ids);
+  }, [removeFolderItems]);
+
+  const handleItemsMove = useCallback((ids: string[], parentId: string | null) => {
+    const items = useStore.getState().folderItems;
+    const movable = ids.filter(id => canMoveTo(items, id, parentId));
+    // The dragged rows unmount with the move, so their dragend may never fire
+    setDraggingIds([]);
+    setMoveIds([]);
+    if (movable.length === 0) return;
+    moveFolderItems(movable, parentId);
+    const target = items.find(other => other.id === parentId);
+    ScreenReader.announce(`Moved ${itemsLabel(movable)} to ${target?.name ?? 'All Files'}`, 'polite');
+  }, [moveFolderItems]);
+
+  const canMoveInto = useCallback((ids: string[], folderId: string | null) => (
+    ids.every(id => canMoveTo(folderItems, id, folderId))
+  ), [folderItems]);
+
+  const closeMoveDialog = useCallback(() => setMoveIds([]), []);
+
+  // Paging in the previewer moves the selection along, so closing it leaves the cursor there
+  const openPreview = useCallback((fileId: string) => {
+    setPreviewId(fileId);
+    setSelection(selectOnly(fileId));
   }, []);
+  const closePreview = useCallback(() => setPreviewId(null), []);
+
+  const applyTag = useCallback((tag: string) => {
+    const clean = tag.trim().replace(/^#/, '').toLowerCase();
+    if (!clean || selection.ids.length === 0) return;
+    tagFolderItems(selection.ids, clean);
+    setTagDraft(null);
+    ScreenReader.announce(`Tagged ${itemsLabel(selection.ids)} with ${clean}`, 'polite');
+  }, [selection, tagFolderItems]);
+
+  // Selected files, and everything inside selected folders, with their paths below the open folder
+  const downloadSelection = useCallback(async () => {
+    const items = useStore.getState().folderItems;
+    const depth = path.length;
+    const wanted = items.filter(item => !isFolder(item) && selection.ids.some(id => subtreeIds(items, id).has(item.id)));
+    const blobs = await loadFolderBlobs(wanted.map(item => item.id));
+    // Each entry keeps its item, since files without saved contents drop out of the list
+    const saved = wanted.filter(item => blobs.has(item.id)).map(item => ({
+      item,
+      entry: {
+        path: [...pathTo(items, item.parentId ?? null).slice(depth).map(folder => folder.name), item.name].join('/'),
+        data: blobs.get(item.id)!,
+        modified: item.addedAt ? new Date(item.addedAt) : undefined
+      }
+    }));
+    const entries = saved.map(({ entry }) => entry);
+    const skipped = wanted.length - entries.length;
+
+    if (entries.length === 0) {
+      setNotice(wanted.length === 0 ? 'Nothing to download: the selection has no files.' : 'Nothing to download: these files have no saved contents (samples, or added before downloads were supported).');
+    } else {
+      // A lone file downloads as itself; anything more as one archive
+      if (entries.length === 1 && selection.ids.length === 1) downloadBlob(saved[0].entry.data, saved[0].item.name);
+      else downloadBlob(await createZip(entries), `${currentFolderName}.zip`);
+      setNotice(skipped > 0 ? `${skipped} ${skipped === 1 ? 'file has' : 'files have'} no saved contents and ${skipped === 1 ? 'was' : 'were'} left out.` : null);
+    }
+    ScreenReader.announce(entries.length > 0 ? `Downloading ${entries.length} ${entries.length === 1 ? 'file' : 'files'}` : 'Nothing to download', 'polite');
+  }, [path, selection, currentFolderName]);
+
+  // New folders are numbered past the names already taken next to them
+  const createFolder = useCallback(() => {
+    const taken = new Set(files.filter(file => file.type === 'folder').map(file => file.name));
+    let count = 1;
+    while (taken.has(count === 1 ? 'New Folder' : `New Folder ${count}`)) count++;
+    const name = count === 1 ? 'New Folder' : `New Folder ${count}`;
+    addFolderItem(toFolderItem({
+      ...SAMPLE_FOLDER,
+      id: `folder-${crypto.randomUUID()}`,
+      name,
+      content: undefined,
+      dateAdded: new Date().toISOString().split('T')[0],
+      parentId: currentFolderId
+    }));
+    ScreenReader.announce(`Created ${name} in ${currentFolderName}`, 'polite');
+  }, [files, currentFolderId, currentFolderName, addFolderItem]);
 
   // Add more sample files
+  const availableSamples = SAMPLE_FILES.filter(f => !folderItems.some(existing => existing.id === f.id));
   const addSampleFile = useCallback(() => {
-    const availableFiles = SAMPLE_FILES.filter(f => !files.some(existing => existing.id === f.id));
-    if (availableFiles.length > 0) {
-      const randomFile = availableFiles[Math.floor(Math.random() * availableFiles.length)];
-      handleFileAdd(randomFile);
+    if (availableSamples.length > 0) {
+      const randomFile = availableSamples[Math.floor(Math.random() * availableSamples.length)];
+      handleFileAdd(randomFile, currentFolderId);
     }
-  }, [files, handleFileAdd]);
+  }, [availableSamples, handleFileAdd, currentFolderId]);
 
-  // Clear all files
+  // Clear what the open folder shows, sub-folders included; items hidden by the filters stay
   const clearFolder = useCallback(() => {
-    setFiles([]);
-    setSelectedFile(null);
-    ScreenReader.announce('Folder cleared', 'polite');
-  }, []);
+    removeFolderItems(visibleFiles.map(file => file.id));
+    const count = visibleFiles.length;
+    ScreenReader.announce(`Removed ${count} ${count === 1 ? 'item' : 'items'} from ${currentFolderName}`, 'polite');
+  }, [visibleFiles, currentFolderName, removeFolderItems]);
+
+  const currentStats = currentFolderId
+    ? folderStats(folderItems, currentFolderId)
+    : folderItems.filter(item => !isFolder(item)).reduce((stats, item) => ({ files: stats.files + 1, bytes: stats.bytes + (item.size ?? 0) }), { files: 0, bytes: 0 });
+  const breadcrumbs = [{ id: ROOT_FOLDER_ID as string | null, name: 'All Files' }, ...path.map(folder => ({ id: folder.id as string | null, name: folder.name }))];
 
   return (
     <div className={`max-w-4xl mx-auto ${className}`}>
@@ -502,17 +1252,303 @@ export function InteractiveFolder({ className = "" }: InteractiveFolderProps) {
         </p>
       </FadeIn>
 
-      {/* Main Folder Demo */}
+      {/* Breadcrumbs; also drop targets for moving items up the tree */}
+      <nav aria-label="Breadcrumb" className="mb-8 flex justify-center">
+        <ol className="flex flex-wrap items-center gap-1 text-sm">
+          {breadcrumbs.map((crumb, index) => {
+            const isCurrent = index === breadcrumbs.length - 1;
+            const canDrop = draggingIds.length > 0 && canMoveInto(draggingIds, crumb.id);
+            return (
+              <li key={crumb.id ?? 'root'} className="flex items-center gap-1">
+                {index > 0 && <span className="text-gray-600" aria-hidden="true">/</span>}
+                <button
+                  onClick={() => !isCurrent && navigateTo(crumb.id)}
+                  aria-current={isCurrent ? 'page' : undefined}
+                  onDragOver={(e) => {
+                    if (!canDrop) return;
+                    e.preventDefault();
+                    e.dataTransfer.dropEffect = 'move';
+                    setDropCrumbId(crumb.id);
+                  }}
+                  onDragLeave={() => setDropCrumbId(undefined)}
+                  onDrop={(e) => {
+                    if (!canDrop) return;
+                    e.preventDefault();
+                    setDropCrumbId(undefined);
+                    handleItemsMove(draggingIds, crumb.id);
+                  }}
+                  className={`
+                    px-2 py-1 rounded-md transition-colors
+                    ${isCurrent ? 'text-white font-medium cursor-default' : 'text-gray-400 hover:text-white hover:bg-white/10'}
+                    ${dropCrumbId === crumb.id ? 'ring-2 ring-accent bg-accent/10' : ''}
+                  `}
+                >
+                  {index === 0 && <span aria-hidden="true">🗂️ </span>}
+                  {crumb.name}
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      </nav>
+
+      {/* View Options */}
+      <div role="toolbar" aria-label="View options" className="mb-8 flex flex-col items-center gap-3">
+        <div className="flex flex-wrap items-center justify-center gap-3">
+          <input
+            type="search"
+            value={view.query}
+            onChange={(e) => updateView({ query: e.target.value })}
+            placeholder="Filter by name or tag"
+            aria-label={`Filter ${currentFolderName}`}
+            className="w-56 px-3 py-2 bg-white/5 border border-white/20 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-brand/50"
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            Sort
+            <select
+              value={view.sort}
+              onChange={(e) => updateView({ sort: e.target.value as FolderSortKey })}
+              className="bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-brand/50"
+            >
+              {SORT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value} className="bg-surface">
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={() => updateView({ descending: !view.descending })}
+            aria-label={view.descending ? 'Descending; switch to ascending' : 'Ascending; switch to descending'}
+            className="w-9 h-9 flex items-center justify-center bg-white/5 hover:bg-white/10 border border-white/20 rounded-lg text-white transition-colors"
+          >
+            {view.descending ? '↓' : '↑'}
+          </button>
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            Group
+            <select
+              value={view.groupBy}
+              onChange={(e) => updateView({ groupBy: e.target.value as FolderGroupBy })}
+              className="bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-brand/50"
+            >
+              {GROUP_OPTIONS.map(option => (
+                <option key={option.value} value={option.value} className="bg-surface">
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          {(Object.keys(FILE_TYPES) as FolderFileType[]).map(type => {
+            const isActive = view.types.includes(type);
+            return (
+              <button
+                key={type}
+                onClick={() => toggleTypeFilter(type)}
+                aria-pressed={isActive}
+                className={`
+                  px-3 py-1 rounded-full text-xs font-medium border transition-colors
+                  ${isActive ? 'text-white border-transparent' : 'text-gray-400 border-white/10 hover:text-white hover:bg-white/10'}
+                `}
+                style={isActive ? { backgroundColor: FILE_TYPES[type].color + '40', borderColor: FILE_TYPES[type].color } : undefined}
+              >
+                <span aria-hidden="true">{FILE_TYPES[type].icon}</span> {FILE_TYPES[type].label}
+              </button>
+            );
+          })}
+          {isFiltered(view) && (
+            <button
+              onClick={() => updateView({ types: DEFAULT_FOLDER_VIEW.types, query: DEFAULT_FOLDER_VIEW.query })}
+              className="px-2 py-1 text-xs text-gray-400 hover:text-white"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+
+        <p className="text-xs text-gray-500" aria-live="polite">
+          {isFiltered(view) && `${visibleFiles.length} of ${files.length} ${files.length === 1 ? 'item' : 'items'} shown`}
+        </p>
+      </div>
+
+      {/* Main Folder Demo; keyed so every sub-folder gets its own peek animation */}
       <div className="mb-12">
         <PaperStackFolder
-          files={files}
-          onFileAdd={handleFileAdd}
-          onFileRemove={handleFileRemove}
-          onFileSelect={handleFileSelect}
-          selectedFile={selectedFile}
+          key={currentFolderId ?? 'root'}
+          files={visibleFiles}
+          onFilesDrop={handleFilesDrop}
+          onRemove={handleRemove}
+          selection={selection}
+          onSelectionChange={setSelection}
+          folderName={currentFolderName}
+          openOnMount={openOnMount}
+          onFolderOpen={navigateTo}
+          onGoUp={currentFolderId ? goUp : undefined}
+          onMoveRequest={setMoveIds}
+          onPreview={openPreview}
+          draggingIds={draggingIds}
+          onItemsDrag={setDraggingIds}
+          onItemsMove={handleItemsMove}
+          canMoveInto={canMoveInto}
+          groupHeadings={groupHeadings}
+          isFiltered={isFiltered(view)}
         />
       </div>
 
+      <FilePreviewer
+        files={previewFiles}
+        fileId={previewId}
+        onNavigate={openPreview}
+        onClose={closePreview}
+      />
+
+      <MoveToDialog
+        moving={moving}
+        items={folderItems}
+        onMove={(parentId) => handleItemsMove(moveIds, parentId)}
+        onClose={closeMoveDialog}
+      />
+
+      {/* Drop Status */}
+      <div className="mb-12 -mt-4 max-w-md mx-auto" aria-live="polite">
+        {notice && (
+          <div className="flex items-center justify-between gap-2 bg-white/5 border border-white/10 rounded-lg p-3 mb-2 text-sm text-gray-300">
+            <p>{notice}</p>
+            <button
+              onClick={() => setNotice(null)}
+              className="text-gray-400 hover:text-white text-xs"
+              aria-label="Dismiss"
+            >
+              ✕
+            </button>
+          </div>
+        )}
+        {checkingCount > 0 && (
+          <p className="text-sm text-gray-400 text-center">
+            Checking {checkingCount} {checkingCount === 1 ? 'file' : 'files'}…
+          </p>
+        )}
+        {rejected.length > 0 && (
+          <div className="bg-danger/10 border border-danger/30 rounded-lg p-4 text-sm">
+            <div className="flex items-center justify-between mb-2">
+              <p className="font-medium text-danger">Not added</p>
+              <button
+                onClick={() => setRejected([])}
+                className="text-gray-400 hover:text-white text-xs"
+                aria-label="Dismiss"
+              >
+                ✕
+              </button>
+            </div>
+            <ul className="space-y-2">
+              {rejected.map(({ name, messages }, index) => (
+                <li key={`${name}-${index}`}>
+                  <p className="text-white truncate">{name}</p>
+                  <ul className="text-xs text-danger">
+                    {messages.map(message => <li key={message}>{message}</li>)}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      {/* Bulk Actions */}
+      <AnimatePresence>
+        {selection.ids.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            transition={SPRING}
+            role="toolbar"
+            aria-label="Selection actions"
+            className="mb-8 bg-surface/10 rounded-2xl border border-white/10 p-4"
+          >
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm font-medium text-white mr-2">
+                {selection.ids.length} selected
+              </span>
+              <button
+                onClick={() => setMoveIds(selection.ids)}
+                className="px-3 py-1.5 text-sm bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors"
+              >
+                Move to…
+              </button>
+              <button
+                onClick={downloadSelection}
+                className="px-3 py-1.5 text-sm bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors"
+              >
+                Download
+              </button>
+              <button
+                onClick={() => setTagDraft(tagDraft === null ? '' : null)}
+                aria-expanded={tagDraft !== null}
+                className="px-3 py-1.5 text-sm bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors"
+              >
+                Tag
+              </button>
+              <button
+                onClick={() => handleRemove(selection.ids)}
+                className="px-3 py-1.5 text-sm bg-danger/20 hover:bg-danger/30 text-danger rounded-lg transition-colors"
+              >
+                Delete
+              </button>
+              <button
+                onClick={() => setSelection(EMPTY_SELECTION)}
+                className="ml-auto text-gray-400 hover:text-white text-xs"
+                aria-label="Clear selection"
+              >
+                ✕
+              </button>
+            </div>
+
+            {tagDraft !== null && (
+              <form
+                className="flex flex-wrap items-center gap-2 mt-3"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  applyTag(tagDraft);
+                }}
+              >
+                <input
+                  value={tagDraft}
+                  onChange={(e) => setTagDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Escape') setTagDraft(null);
+                  }}
+                  placeholder="Add a tag"
+                  aria-label="Tag for the selected items"
+                  autoFocus
+                  className="flex-1 min-w-0 px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-brand"
+                />
+                <button
+                  type="submit"
+                  disabled={!tagDraft.trim()}
+                  className="px-3 py-1.5 text-sm bg-brand hover:bg-brand/80 disabled:opacity-50 text-white rounded-lg transition-colors"
+                >
+                  Add
+                </button>
+                {selectionTags.map(tag => (
+                  <button
+                    key={tag}
+                    type="button"
+                    onClick={() => untagFolderItems(selection.ids, tag)}
+                    className="px-2 py-0.5 bg-accent/10 hover:bg-accent/20 text-accent rounded-full text-xs"
+                    aria-label={`Remove tag ${tag} from the selected items`}
+                  >
+                    #{tag} ✕
+                  </button>
+                ))}
+              </form>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Selected File Details */}
       <AnimatePresence>
         {selectedFile && (
@@ -524,26 +1560,42 @@ export function InteractiveFolder({ className = "" }: InteractiveFolderProps) {
               </h3>
               
               <div className="bg-white/5 rounded-lg p-4 flex items-start gap-4">
-                <div 
-                  className="w-16 h-16 rounded-xl flex items-center justify-center text-3xl flex-shrink-0 shadow-sm"
-                  style={{ backgroundColor: selectedFile.color + '20' }}
-                >
-                  {selectedFile.preview}
-                </div>
+                <FileThumb file={selectedFile} className="w-16 h-16 text-3xl shadow-sm" />
                 <div className="flex-1">
                   <h4 className="text-xl font-bold text-white mb-2">
                     {selectedFile.name}
                   </h4>
                   <div className="flex items-center gap-4 text-sm text-gray-400 mb-4">
-                    <span>{selectedFile.size}</span>
+                    <span>{formatBytes(selectedFile.size)}</span>
                     <span>•</span>
                     <span>{FILE_TYPES[selectedFile.type]?.label}</span>
+                    {selectedFile.mimeType && (
+                      <>
+                        <span>•</span>
+                        <span className="font-mono text-xs">{selectedFile.mimeType}</span>
+                      </>
+                    )}
                     <span>•</span>
                     <span>{selectedFile.dateAdded}</span>
                   </div>
                   <p className="text-gray-300">
                     {selectedFile.content}
                   </p>
+                  {selectedFile.type !== 'folder' && (
+                    <button
+                      onClick={() => openPreview(selectedFile.id)}
+                      className="mt-4 px-3 py-1.5 text-sm bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors"
+                    >
+                      Open Preview
+                    </button>
+                  )}
+                  {selectedFile.tags && selectedFile.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mt-4">
+                      {selectedFile.tags.map(tag => (
+                        <span key={tag} className="px-2 py-0.5 bg-accent/10 text-accent rounded-full text-xs">#{tag}</span>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -556,22 +1608,29 @@ export function InteractiveFolder({ className = "" }: InteractiveFolderProps) {
         <div className="flex flex-wrap items-center justify-center gap-4">
           <button
             onClick={addSampleFile}
-            disabled={files.length >= SAMPLE_FILES.length}
+            disabled={availableSamples.length === 0}
             className="px-6 py-3 bg-brand hover:bg-brand/80 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors"
           >
             Add Sample File
           </button>
           
+          <button
+            onClick={createFolder}
+            className="px-6 py-3 bg-surface/20 hover:bg-surface/30 text-white rounded-lg font-medium border border-white/10 transition-colors"
+          >
+            New Folder
+          </button>
+          
           <button
             onClick={clearFolder}
-            disabled={files.length === 0}
+            disabled={visibleFiles.length === 0}
             className="px-6 py-3 bg-surface/20 hover:bg-surface/30 disabled:bg-gray-800 disabled:cursor-not-allowed text-white rounded-lg font-medium border border-white/10 transition-colors"
           >
-            Clear Folder
+            {isFiltered(view) ? `Clear ${visibleFiles.length} Shown` : 'Clear Folder'}
           </button>
           
           <div className="px-4 py-2 bg-white/5 rounded-lg text-sm text-gray-400">
-            {files.length} / {SAMPLE_FILES.length} files
+            {currentStats.files} {currentStats.files === 1 ? 'file' : 'files'} • {formatBytes(currentStats.bytes)}
           </div>
         </div>
       </ScaleIn>
@@ -593,13 +1652,13 @@ export function InteractiveFolder({ className = "" }: InteractiveFolderProps) {
           </div>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm text-gray-400 mt-2">
             <div>
-              • <strong className="text-white">Drag & Drop</strong> - Drop files to add them
+              • <strong className="text-white">Drag & Drop</strong> - Drop real files; they are checked and previewed
             </div>
             <div>
               • <strong className="text-white">Smart States</strong> - Empty, previewing, and full modes
             </div>
             <div>
-              • <strong className="text-white">File Management</strong> - Add, remove, and select files
+              • <strong className="text-white">Nested Folders</strong> - Breadcrumbs, drag items between folders or press M to move
             </div>
           </div>
         </div>
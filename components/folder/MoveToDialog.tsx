@@ -0,0 +1,164 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { SPRING } from "../motion/Primitives";
+import { FolderItem } from "../../lib/store";
+import { Shortcut } from "../../lib/shortcuts";
+import { ROOT_FOLDER_ID, canMoveTo, flattenFolders } from "../../lib/folder-tree";
+import { ScreenReader } from "../../lib/a11y";
+import { useShortcutLayer, useShortcuts } from "../commands/useShortcuts";
+
+export const MOVE_TO_LAYER = 'move-to';
+
+interface MoveToDialogProps {
+  // What to move, all from the same folder; empty while closed
+  moving: FolderItem[];
+  items: FolderItem[];
+  onMove: (parentId: string | null) => void;
+  onClose: () => void;
+}
+
+// Keyboard alternative to dragging: pick a destination folder from the whole tree
+export function MoveToDialog({ moving, items, onMove, onClose }: MoveToDialogProps) {
+  const isOpen = moving.length > 0;
+  const label = moving.length === 1 ? moving[0].name : `${moving.length} items`;
+
+  // The top level first, then every folder in tree order
+  const destinations = useMemo(() => [
+    { id: ROOT_FOLDER_ID, name: 'All Files', depth: 0 },
+    ...flattenFolders(items).map(({ folder, depth }) => ({ id: folder.id as string | null, name: folder.name, depth: depth + 1 }))
+  ], [items]);
+  const isAllowed = (id: string | null) => isOpen && moving.every(item => canMoveTo(items, item.id, id));
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  // Start on the first place everything can go
+  useEffect(() => {
+    if (!isOpen) return;
+    setActiveIndex(Math.max(0, destinations.findIndex(destination => isAllowed(destination.id))));
+    ScreenReader.announce(`Move ${label}. Choose a folder with the arrow keys, Enter to move.`, 'polite');
+  }, [isOpen]);
+
+  useShortcutLayer(MOVE_TO_LAYER, isOpen);
+  useShortcuts(useMemo<Shortcut[]>(() => [{
+    id: 'move-to.close',
+    keys: 'escape',
+    description: 'Cancel move',
+    layer: MOVE_TO_LAYER,
+    allowInInput: true,
+    handler: onClose
+  }], [onClose]));
+
+  // Step to the next allowed destination, skipping the ones the item can't go to
+  const step = (from: number, direction: number) => {
+    for (let i = 1; i <= destinations.length; i++) {
+      const index = (from + direction * i + destinations.length) % destinations.length;
+      if (isAllowed(destinations[index].id)) {
+        setActiveIndex(index);
+        return;
+      }
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    switch (e.key) {
+      case 'ArrowDown': step(activeIndex, 1); break;
+      case 'ArrowUp': step(activeIndex, -1); break;
+      case 'Home': step(-1, 1); break;
+      case 'End': step(destinations.length, -1); break;
+      case 'Enter': {
+        const destination = destinations[activeIndex];
+        if (destination && isAllowed(destination.id)) onMove(destination.id);
+        break;
+      }
+      default: return;
+    }
+    e.preventDefault();
+  };
+
+  const hasTarget = destinations.some(destination => isAllowed(destination.id));
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[60]"
+          />
+
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            transition={SPRING}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="move-to-title"
+            className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-[70] w-full max-w-sm px-4"
+          >
+            <div className="bg-surface/95 backdrop-blur-xl border border-white/20 rounded-2xl shadow-2xl overflow-hidden">
+              <div className="p-4 border-b border-white/10">
+                <h2 id="move-to-title" className="text-lg font-semibold text-white">Move to…</h2>
+                <p className="text-xs text-gray-500 truncate">{label}</p>
+              </div>
+
+              <ul
+                role="listbox"
+                aria-label="Destination folder"
+                aria-activedescendant={hasTarget ? `move-to-${activeIndex}` : undefined}
+                tabIndex={0}
+                autoFocus
+                onKeyDown={handleKeyDown}
+                className="max-h-72 overflow-y-auto p-2 focus:outline-none"
+              >
+                {destinations.map((destination, index) => {
+                  const allowed = isAllowed(destination.id);
+                  return (
+                    <li
+                      key={destination.id ?? 'root'}
+                      id={`move-to-${index}`}
+                      role="option"
+                      aria-selected={index === activeIndex}
+                      aria-disabled={!allowed}
+                      onClick={() => allowed && onMove(destination.id)}
+                      onMouseEnter={() => allowed && setActiveIndex(index)}
+                      className={`
+                        flex items-center gap-2 px-3 py-2 rounded-lg text-sm
+                        ${!allowed ? 'text-gray-600 cursor-not-allowed' : 'text-gray-300 cursor-pointer'}
+                        ${index === activeIndex && allowed ? 'bg-brand/20 text-white' : ''}
+                      `}
+                      style={{ paddingLeft: 12 + destination.depth * 16 }}
+                    >
+                      <span aria-hidden="true">{destination.id === ROOT_FOLDER_ID ? '🗂️' : '📁'}</span>
+                      <span className="truncate">{destination.name}</span>
+                    </li>
+                  );
+                })}
+              </ul>
+
+              <div className="p-4 bg-white/5 border-t border-white/10 flex justify-end gap-2">
+                <button
+                  onClick={onClose}
+                  className="px-3 py-2 text-sm text-gray-400 hover:text-white rounded-lg hover:bg-white/10 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => onMove(destinations[activeIndex].id)}
+                  disabled={!isAllowed(destinations[activeIndex]?.id ?? null)}
+                  className="px-3 py-2 text-sm bg-brand text-white rounded-lg hover:bg-brand/80 transition-colors disabled:opacity-50"
+                >
+                  Move here
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
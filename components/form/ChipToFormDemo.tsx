@@ -128,7 +128,7 @@ interface ChipToFormDemoProps {
 }
 
 export function ChipToFormDemo({ className = "" }: ChipToFormDemoProps) {
-  const { preferences } = useStore();
+  const { preferences, setFormData: saveFormData, setProfile } = useStore();
   
   // Demo state
   const [formData, setFormData] = useState<Record<string, string>>({});
@@ -141,7 +141,8 @@ export function ChipToFormDemo({ className = "" }: ChipToFormDemoProps) {
       ...prev,
       [fieldId]: value
     }));
-  }, []);
+    saveFormData({ [fieldId]: value });
+  }, [saveFormData]);
 
   // Handle form completion
   const handleFormComplete = useCallback((data: Record<string, string>) => {
@@ -149,13 +150,19 @@ export function ChipToFormDemo({ className = "" }: ChipToFormDemoProps) {
     setIsFormComplete(true);
     setShowSuccessMessage(true);
     
-    console.log('Form completed with data:', data);
+    // Persist for the Day 8 identity board
+    saveFormData(data);
+    setProfile({
+      name: data.name ?? '',
+      role: data.role ?? '',
+      links: data.website ? [data.website] : []
+    });
     
     // Hide success message after 5 seconds
     setTimeout(() => {
       setShowSuccessMessage(false);
     }, 5000);
-  }, []);
+  }, [saveFormData, setProfile]);
 
   // Reset form
   const handleReset = useCallback(() => {
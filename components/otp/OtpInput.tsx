@@ -1,236 +1,79 @@
 "use client";
 
-import { useState, useRef, useCallback, useEffect, forwardRef } from "react";
+import { Fragment, useCallback } from "react";
 import { motion, useSpring } from "framer-motion";
-import { SPRING, DURATIONS, FadeIn } from "../motion/Primitives";
+import { SPRING } from "../motion/Primitives";
 import { useStore } from "../../lib/store";
-import { 
-  ARIA_LABELS, 
-  ScreenReader, 
-  handleKeyboardNavigation 
-} from "../../lib/a11y";
+import {
+  OtpCellInputProps,
+  OtpState,
+  UseOtpOptions,
+  formatCountdown,
+  useOtp
+} from "./useOtp";
 
-// OTP State types
-export type OtpState = 'default' | 'active' | 'correct' | 'incorrect' | 'loading';
-export type OtpCell = {
-  value: string;
-  state: OtpState;
-};
+export {
+  DEFAULT_RESEND_COOLDOWN,
+  charsetPattern,
+  formatCountdown,
+  groupBoundaries,
+  lockoutDurationMs,
+  normalizeCase,
+  parseOtpText,
+  resendCooldownMs,
+  useOtp
+} from "./useOtp";
+export type {
+  OtpCaseMode,
+  OtpCell,
+  OtpCharset,
+  OtpState,
+  ResendCooldown,
+  UseOtpOptions
+} from "./useOtp";
 
-interface OtpInputProps {
-  length?: number;
-  onComplete?: (code: string) => void;
-  onValidate?: (code: string) => Promise<boolean>;
+interface OtpInputProps extends UseOtpOptions {
   placeholder?: string;
-  autoFocus?: boolean;
-  disabled?: boolean;
   className?: string;
 }
 
 export function OtpInput({
-  length = 6,
-  onComplete,
-  onValidate,
   placeholder = "•",
-  autoFocus = true,
-  disabled = false,
-  className = ""
+  className = "",
+  onComplete,
+  ...options
 }: OtpInputProps) {
-  const { markDayComplete, preferences } = useStore();
-  
-  // OTP state management
-  const [cells, setCells] = useState<OtpCell[]>(
-    Array(length).fill(null).map(() => ({ value: '', state: 'default' as OtpState }))
-  );
-  const [currentIndex, setCurrentIndex] = useState(0);
-  const [isComplete, setIsComplete] = useState(false);
-  const [isMasked, setIsMasked] = useState(true);
-  const [isValidating, setIsValidating] = useState(false);
-  const [validationResult, setValidationResult] = useState<boolean | null>(null);
-  
-  // Refs for input management
-  const inputRefs = useRef<(HTMLInputElement | null)[]>([]);
-  const containerRef = useRef<HTMLDivElement>(null);
-
-  // Get current code value
-  const getCurrentCode = useCallback(() => {
-    return cells.map(cell => cell.value).join('');
-  }, [cells]);
-
-  // Update cell value and state
-  const updateCell = useCallback((index: number, value: string, state: OtpState = 'default') => {
-    setCells(prev => prev.map((cell, i) => 
-      i === index ? { ...cell, value: value.slice(-1), state } : cell
-    ));
-  }, []);
-
-  // Set all cells state
-  const setAllCellsState = useCallback((state: OtpState) => {
-    setCells(prev => prev.map(cell => ({ ...cell, state })));
-  }, []);
+  const { markDayComplete } = useStore();
+  const { length = 6, separator = '-', expiresAt, onResend } = options;
 
-  // Auto-advance to next input
-  const focusNext = useCallback((currentIdx: number) => {
-    if (currentIdx < length - 1) {
-      const nextIdx = currentIdx + 1;
-      setCurrentIndex(nextIdx);
-      inputRefs.current[nextIdx]?.focus();
-    }
-  }, [length]);
-
-  // Move to previous input
-  const focusPrevious = useCallback((currentIdx: number) => {
-    if (currentIdx > 0) {
-      const prevIdx = currentIdx - 1;
-      setCurrentIndex(prevIdx);
-      inputRefs.current[prevIdx]?.focus();
-    }
-  }, []);
-
-  // Handle paste functionality
-  const handlePaste = useCallback((e: React.ClipboardEvent, startIndex: number) => {
-    e.preventDefault();
-    const pastedText = e.clipboardData.getData('text').replace(/\D/g, '').slice(0, length);
-    
-    if (pastedText.length === 0) return;
-
-    // Clear all cells first
-    setCells(prev => prev.map(() => ({ value: '', state: 'default' })));
-    
-    // Fill cells with pasted digits
-    const newCells = Array(length).fill(null).map((_, index) => ({
-      value: pastedText[index] || '',
-      state: 'active' as OtpState
-    }));
-    
-    setCells(newCells);
-    
-    // Focus last filled cell or next empty cell
-    const lastFilledIndex = Math.min(pastedText.length - 1, length - 1);
-    const focusIndex = pastedText.length >= length ? length - 1 : pastedText.length;
-    setCurrentIndex(focusIndex);
-    inputRefs.current[focusIndex]?.focus();
-    
-    // Announce paste action
-    ScreenReader.announce(`${pastedText.length} digits pasted`, 'polite');
-    
-    // Check if complete after paste
-    if (pastedText.length === length) {
-      handleComplete(pastedText);
-    }
-  }, [length]);
+  // The headless hook stays store-agnostic; progress is recorded here
+  const handleComplete = useCallback((code: string) => {
+    markDayComplete(2);
+    onComplete?.(code);
+  }, [markDayComplete, onComplete]);
 
-  // Handle completion and validation
-  const handleComplete = useCallback(async (code: string) => {
-    if (code.length !== length) return;
-    
-    setIsComplete(true);
-    setIsValidating(true);
-    setAllCellsState('loading');
-    
-    try {
-      if (onValidate) {
-        const isValid = await onValidate(code);
-        setValidationResult(isValid);
-        setAllCellsState(isValid ? 'correct' : 'incorrect');
-        
-        ScreenReader.announce(
-          isValid ? 'Code verified successfully' : 'Invalid code entered',
-          'assertive'
-        );
-        
-        if (isValid) {
-          markDayComplete(2);
-          onComplete?.(code);
-        }
-      } else {
-        setValidationResult(true);
-        setAllCellsState('correct');
-        ScreenReader.announce('Code entered successfully', 'polite');
-        markDayComplete(2);
-        onComplete?.(code);
-      }
-    } catch (error) {
-      setValidationResult(false);
-      setAllCellsState('incorrect');
-      ScreenReader.announce('Error validating code', 'assertive');
-    } finally {
-      setIsValidating(false);
-    }
-  }, [length, onValidate, onComplete, markDayComplete]);
-
-  // Handle input change
-  const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>, index: number) => {
-    const value = e.target.value.replace(/\D/g, ''); // Only digits
-    
-    if (value.length === 0) {
-      // Clear current cell
-      updateCell(index, '', 'default');
-      return;
-    }
-
-    // Update current cell
-    updateCell(index, value, 'active');
-    
-    // Auto-advance if digit entered
-    if (value.length === 1 && index < length - 1) {
-      focusNext(index);
-    }
-
-    // Check completion
-    const newCode = cells.map((cell, i) => 
-      i === index ? value.slice(-1) : cell.value
-    ).join('');
-    
-    if (newCode.length === length) {
-      setTimeout(() => handleComplete(newCode), 100);
-    }
-  }, [cells, length, updateCell, focusNext, handleComplete]);
-
-  // Handle key events
-  const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLInputElement>, index: number) => {
-    handleKeyboardNavigation(e, {
-      onArrowLeft: () => focusPrevious(index),
-      onArrowRight: () => focusNext(index),
-      onHome: () => {
-        setCurrentIndex(0);
-        inputRefs.current[0]?.focus();
-      },
-      onEnd: () => {
-        const lastIndex = length - 1;
-        setCurrentIndex(lastIndex);
-        inputRefs.current[lastIndex]?.focus();
-      },
-      preventDefault: false
-    });
-
-    // Handle backspace
-    if (e.key === 'Backspace' && cells[index].value === '') {
-      focusPrevious(index);
-    }
-    
-    // Handle delete
-    if (e.key === 'Delete') {
-      updateCell(index, '', 'default');
-    }
-  }, [cells, length, focusNext, focusPrevious, updateCell]);
-
-  // Clear all inputs
-  const handleClear = useCallback(() => {
-    setCells(Array(length).fill(null).map(() => ({ value: '', state: 'default' })));
-    setCurrentIndex(0);
-    setIsComplete(false);
-    setValidationResult(null);
-    inputRefs.current[0]?.focus();
-    ScreenReader.announce('All fields cleared', 'polite');
-  }, [length]);
-
-  // Auto-focus first input on mount
-  useEffect(() => {
-    if (autoFocus && inputRefs.current[0]) {
-      inputRefs.current[0].focus();
-    }
-  }, [autoFocus]);
+  const {
+    cells,
+    currentIndex,
+    boundaries,
+    unitLabel,
+    isMasked,
+    toggleMask,
+    isValidating,
+    validationResult,
+    isDisabled: isInputDisabled,
+    now,
+    isExpired,
+    isLocked,
+    lockedUntil,
+    resendRemaining,
+    isResending,
+    canResend,
+    clear,
+    resend,
+    getCellProps,
+    getAutofillProps
+  } = useOtp({ ...options, onComplete: handleComplete });
 
   return (
     <div className={`relative ${className}`}>
@@ -241,7 +84,7 @@ export function OtpInput({
             Enter Verification Code
           </h3>
           <p className="text-sm text-gray-400">
-            {isValidating ? 'Validating...' : 'Enter the 6-digit code sent to your device'}
+            {isValidating ? 'Validating...' : `Enter the ${length}-${unitLabel} code sent to your device`}
           </p>
         </div>
         
@@ -249,7 +92,7 @@ export function OtpInput({
         <div className="flex items-center gap-3">
           {/* Mask/Unmask toggle */}
           <button
-            onClick={() => setIsMasked(!isMasked)}
+            onClick={toggleMask}
             className="flex items-center gap-2 px-3 py-2 text-sm text-gray-400 hover:text-white transition-colors rounded-lg hover:bg-surface/50"
             aria-label={isMasked ? 'Show digits' : 'Hide digits'}
           >
@@ -261,8 +104,8 @@ export function OtpInput({
           
           {/* Clear button */}
           <button
-            onClick={handleClear}
-            disabled={disabled || isValidating}
+            onClick={clear}
+            disabled={isInputDisabled}
             className="px-3 py-2 text-sm text-gray-400 hover:text-white transition-colors rounded-lg hover:bg-surface/50 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             Clear
@@ -272,28 +115,30 @@ export function OtpInput({
 
       {/* OTP Input Fields */}
       <div 
-        ref={containerRef}
-        className="flex items-center justify-center gap-3 mb-6"
+        className="relative flex items-center justify-center gap-3 mb-6"
         role="group"
         aria-label="One-time password input"
       >
+        {/* Autofill target for one-time codes; sits behind the cells and spreads into them */}
+        <input
+          {...getAutofillProps()}
+          className="absolute inset-0 -z-10 w-full h-full opacity-0"
+        />
         {cells.map((cell, index) => (
-          <OtpCell
-            key={index}
-            ref={(el) => {inputRefs.current[index] = el}}
-            value={cell.value}
-            state={cell.state}
-            index={index}
-            total={length}
-            isActive={currentIndex === index}
-            isMasked={isMasked && cell.value !== ''}
-            placeholder={placeholder}
-            disabled={disabled || isValidating}
-            onChange={(e) => handleInputChange(e, index)}
-            onKeyDown={(e) => handleKeyDown(e, index)}
-            onFocus={() => setCurrentIndex(index)}
-            onPaste={(e) => handlePaste(e, index)}
-          />
+          <Fragment key={index}>
+            {boundaries.has(index) && (
+              <span className="text-2xl text-gray-500 select-none" aria-hidden="true">
+                {separator}
+              </span>
+            )}
+            <OtpCell
+              inputProps={getCellProps(index)}
+              value={cell.value}
+              state={cell.state}
+              isActive={currentIndex === index}
+              placeholder={placeholder}
+            />
+          </Fragment>
         ))}
       </div>
 
@@ -337,10 +182,47 @@ export function OtpInput({
         )}
       </div>
 
+      {/* Lifecycle: lockout, expiry countdown and resend */}
+      {now !== null && (expiresAt !== undefined || onResend || isLocked) && (
+        <div className="mt-4 flex flex-col items-center gap-3 text-sm" aria-live="off">
+          {isLocked && lockedUntil !== null && (
+            <motion.p
+              initial={{ opacity: 0, y: 6 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="px-3 py-2 rounded-lg bg-danger/10 text-danger"
+            >
+              Too many failed attempts. Try again in {formatCountdown(lockedUntil - now)}
+            </motion.p>
+          )}
+
+          {expiresAt !== undefined && !isLocked && (
+            <p className={isExpired ? 'text-warn' : 'text-gray-400'}>
+              {isExpired
+                ? 'This code has expired.'
+                : <>Code expires in <span className="font-mono text-white">{formatCountdown(expiresAt - now)}</span></>}
+            </p>
+          )}
+
+          {onResend && (
+            <button
+              onClick={resend}
+              disabled={!canResend}
+              className="px-4 py-2 text-gray-400 hover:text-white transition-colors rounded-lg hover:bg-surface/50 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+            >
+              {isResending
+                ? 'Sending...'
+                : resendRemaining > 0
+                  ? `Resend code in ${formatCountdown(resendRemaining)}`
+                  : 'Resend code'}
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Instructions */}
       <div className="mt-6 text-center">
         <p className="text-xs text-gray-500 leading-relaxed max-w-md mx-auto">
-          Paste a 6-digit code, use arrow keys to navigate, or type digits to auto-advance
+          Paste a {length}-{unitLabel} code, use arrow keys to navigate, or type {unitLabel}s to auto-advance
         </p>
       </div>
     </div>
@@ -349,34 +231,21 @@ export function OtpInput({
 
 // Individual OTP Cell Component
 interface OtpCellProps {
+  // Input wiring from useOtp's getCellProps
+  inputProps: OtpCellInputProps;
   value: string;
   state: OtpState;
-  index: number;
-  total: number;
   isActive: boolean;
-  isMasked: boolean;
   placeholder: string;
-  disabled: boolean;
-  onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
-  onKeyDown: (e: React.KeyboardEvent<HTMLInputElement>) => void;
-  onFocus: () => void;
-  onPaste: (e: React.ClipboardEvent<HTMLInputElement>) => void;
 }
 
-const OtpCell = forwardRef<HTMLInputElement, OtpCellProps>(function OtpCell({
+function OtpCell({
+  inputProps,
   value,
   state,
-  index,
-  total,
   isActive,
-  isMasked,
-  placeholder,
-  disabled,
-  onChange,
-  onKeyDown,
-  onFocus,
-  onPaste
-}, ref) {
+  placeholder
+}: OtpCellProps) {
   // Spring animations for smooth state transitions
   const scale = useSpring(
     state === 'loading' ? 0.95 : isActive ? 1.05 : state === 'correct' ? 1.02 : 1,
@@ -422,7 +291,6 @@ const OtpCell = forwardRef<HTMLInputElement, OtpCellProps>(function OtpCell({
   };
 
   const stateStyles = getStateStyles(state);
-  const ariaLabel = `Digit ${index + 1} of ${total}${value ? `: ${value}` : ', empty'}`;
 
   return (
     <motion.div
@@ -430,18 +298,8 @@ const OtpCell = forwardRef<HTMLInputElement, OtpCellProps>(function OtpCell({
       className="relative"
     >
       <motion.input
-        ref={ref}
-        type="text"
-        inputMode="numeric"
-        maxLength={1}
-        value={isMasked ? (value ? '•' : '') : value}
-        onChange={onChange}
-        onKeyDown={onKeyDown}
-        onFocus={onFocus}
-        onPaste={onPaste}
-        disabled={disabled}
+        {...inputProps}
         placeholder={!value ? placeholder : ''}
-        aria-label={ariaLabel}
         className={`
           w-14 h-14 text-xl font-mono text-center text-white
           rounded-lg border-2 transition-all duration-200
@@ -467,4 +325,4 @@ const OtpCell = forwardRef<HTMLInputElement, OtpCellProps>(function OtpCell({
       )}
     </motion.div>
   );
-});
\ No newline at end of file
+}
@@ -0,0 +1,607 @@
+import { useState, useRef, useCallback, useEffect } from "react";
+import { ScreenReader, handleKeyboardNavigation } from "../../lib/a11y";
+
+// OTP State types
+export type OtpState = 'default' | 'active' | 'correct' | 'incorrect' | 'loading';
+export type OtpCell = {
+  value: string;
+  state: OtpState;
+};
+
+// Accepted characters: a preset or a regex that matches one allowed character
+export type OtpCharset = 'numeric' | 'alphanumeric' | 'hex' | RegExp;
+export type OtpCaseMode = 'upper' | 'lower' | 'preserve';
+
+const CHARSET_PATTERNS = {
+  numeric: /^[0-9]$/,
+  alphanumeric: /^[a-z0-9]$/i,
+  hex: /^[0-9a-f]$/i
+} as const;
+
+// Characters treated as visual separators when pasted at a group boundary
+const SEPARATOR_CHARS = ['-', '–', '_', '.', '/'];
+
+export function charsetPattern(charset: OtpCharset): RegExp {
+  return charset instanceof RegExp ? charset : CHARSET_PATTERNS[charset];
+}
+
+export function normalizeCase(char: string, caseMode: OtpCaseMode): string {
+  if (caseMode === 'upper') return char.toUpperCase();
+  if (caseMode === 'lower') return char.toLowerCase();
+  return char;
+}
+
+// Indices (in code characters) after which a separator is shown, e.g. [3, 3] -> {3}
+export function groupBoundaries(groups: number[] | undefined, length: number): Set<number> {
+  const boundaries = new Set<number>();
+  if (!groups) return boundaries;
+  let position = 0;
+  for (const size of groups.slice(0, -1)) {
+    position += size;
+    if (position < length) boundaries.add(position);
+  }
+  return boundaries;
+}
+
+/**
+ * Extract code characters from free text (typed or pasted).
+ * Whitespace is always dropped; separators are dropped at group boundaries,
+ * and anywhere else only when the charset does not allow them.
+ */
+export function parseOtpText(
+  text: string,
+  {
+    charset = 'numeric',
+    caseMode = 'upper',
+    separator = '-',
+    groups,
+    length
+  }: {
+    charset?: OtpCharset;
+    caseMode?: OtpCaseMode;
+    separator?: string;
+    groups?: number[];
+    length: number;
+  }
+): string {
+  const pattern = charsetPattern(charset);
+  const boundaries = groupBoundaries(groups, length);
+  const separators = new Set([separator, ...SEPARATOR_CHARS]);
+  let code = '';
+
+  for (const raw of text) {
+    if (code.length >= length) break;
+    if (/\s/.test(raw)) continue;
+    if (separators.has(raw) && (boundaries.has(code.length) || !pattern.test(raw))) continue;
+
+    const char = normalizeCase(raw, caseMode);
+    if (pattern.test(char)) code += char;
+  }
+
+  return code;
+}
+
+// Resend cooldown grows by `factor` after every resend, up to `maxMs`
+export type ResendCooldown = {
+  baseMs: number;
+  factor?: number;
+  maxMs?: number;
+};
+
+export const DEFAULT_RESEND_COOLDOWN: ResendCooldown = {
+  baseMs: 30_000,
+  factor: 2,
+  maxMs: 5 * 60_000
+};
+
+export function resendCooldownMs(policy: ResendCooldown, resendCount: number): number {
+  const { baseMs, factor = 2, maxMs = Infinity } = policy;
+  return Math.min(baseMs * factor ** resendCount, maxMs);
+}
+
+// Lockout doubles with every lockout in the same session
+export function lockoutDurationMs(baseMs: number, lockoutCount: number): number {
+  return baseMs * 2 ** lockoutCount;
+}
+
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+// WebOTP credential; not yet part of the DOM typings
+type OtpCredential = Credential & { code: string };
+
+export interface UseOtpOptions {
+  length?: number;
+  charset?: OtpCharset;
+  caseMode?: OtpCaseMode;
+  // Visual grouping, e.g. [3, 3] or [4, 4]
+  groups?: number[];
+  separator?: string;
+  onComplete?: (code: string) => void;
+  onValidate?: (code: string) => Promise<boolean>;
+  autoFocus?: boolean;
+  disabled?: boolean;
+  // Lifecycle - timestamps are epoch ms so the host can mirror the server
+  expiresAt?: number;
+  onExpire?: () => void;
+  onResend?: () => void | Promise<void>;
+  resendCooldown?: ResendCooldown;
+  // Overrides the computed cooldown, e.g. from a Retry-After header
+  resendAvailableAt?: number;
+  maxAttempts?: number;
+  lockoutMs?: number;
+  // Overrides the computed lockout, e.g. when the server locks the session
+  lockedUntil?: number;
+  onAttemptFailed?: (failedAttempts: number) => void;
+  onLockout?: (lockedUntil: number, lockoutCount: number) => void;
+  // Listen for SMS codes through the WebOTP API where available
+  webOtp?: boolean;
+}
+
+// Props for one visible cell, spread onto an <input>
+export type OtpCellInputProps = {
+  ref: (el: HTMLInputElement | null) => void;
+  type: 'text';
+  value: string;
+  inputMode: 'numeric' | 'text';
+  autoCapitalize: 'characters' | 'off';
+  autoCorrect: 'off';
+  autoComplete: 'off';
+  spellCheck: false;
+  maxLength: 1;
+  disabled: boolean;
+  'aria-label': string;
+  onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onKeyDown: (e: React.KeyboardEvent<HTMLInputElement>) => void;
+  onFocus: () => void;
+  onPaste: (e: React.ClipboardEvent<HTMLInputElement>) => void;
+};
+
+// Props for the hidden autocomplete="one-time-code" input that receives browser autofill
+export type OtpAutofillInputProps = {
+  type: 'text';
+  autoComplete: 'one-time-code';
+  inputMode: 'numeric' | 'text';
+  tabIndex: -1;
+  disabled: boolean;
+  'aria-label': string;
+  onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+};
+
+/**
+ * Headless OTP state: cells, focus, masking, validation and the resend/expiry/lockout lifecycle.
+ * Render any skin with the returned prop getters; `OtpInput` is the reference skin.
+ */
+export function useOtp({
+  length = 6,
+  charset = 'numeric',
+  caseMode = 'upper',
+  groups,
+  separator = '-',
+  onComplete,
+  onValidate,
+  autoFocus = true,
+  disabled = false,
+  expiresAt,
+  onExpire,
+  onResend,
+  resendCooldown = DEFAULT_RESEND_COOLDOWN,
+  resendAvailableAt,
+  maxAttempts,
+  lockoutMs = 30_000,
+  lockedUntil,
+  onAttemptFailed,
+  onLockout,
+  webOtp = true
+}: UseOtpOptions = {}) {
+  // OTP state management
+  const [cells, setCells] = useState<OtpCell[]>(
+    Array(length).fill(null).map(() => ({ value: '', state: 'default' as OtpState }))
+  );
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [isComplete, setIsComplete] = useState(false);
+  const [isMasked, setIsMasked] = useState(true);
+  const [isValidating, setIsValidating] = useState(false);
+  const [validationResult, setValidationResult] = useState<boolean | null>(null);
+  
+  // Lifecycle state - `now` stays null until mount so server and client render alike
+  const [now, setNow] = useState<number | null>(null);
+  const [resendCount, setResendCount] = useState(0);
+  const [isResending, setIsResending] = useState(false);
+  const [internalResendAt, setInternalResendAt] = useState<number | null>(null);
+  const [failedAttempts, setFailedAttempts] = useState(0);
+  const [lockoutCount, setLockoutCount] = useState(0);
+  const [internalLockedUntil, setInternalLockedUntil] = useState<number | null>(null);
+  
+  const resendAt = resendAvailableAt ?? internalResendAt;
+  const lockUntil = lockedUntil ?? internalLockedUntil;
+  const isLocked = now !== null && lockUntil !== null && now < lockUntil;
+  const isExpired = now !== null && expiresAt !== undefined && now >= expiresAt;
+  const resendRemaining = now !== null && resendAt !== null ? Math.max(0, resendAt - now) : 0;
+  const isInputDisabled = disabled || isValidating || isLocked || isExpired;
+  
+  // Refs for input management
+  const inputRefs = useRef<(HTMLInputElement | null)[]>([]);
+
+  // Charset helpers
+  const isNumeric = charset === 'numeric';
+  const unitLabel = isNumeric ? 'digit' : 'character';
+  const boundaries = groupBoundaries(groups, length);
+  const parseText = useCallback(
+    (text: string) => parseOtpText(text, { charset, caseMode, separator, groups, length }),
+    [charset, caseMode, separator, groups, length]
+  );
+
+  // Get current code value
+  const getCurrentCode = useCallback(() => {
+    return cells.map(cell => cell.value).join('');
+  }, [cells]);
+
+  // Update cell value and state
+  const updateCell = useCallback((index: number, value: string, state: OtpState = 'default') => {
+    setCells(prev => prev.map((cell, i) => 
+      i === index ? { ...cell, value: value.slice(-1), state } : cell
+    ));
+  }, []);
+
+  // Set all cells state
+  const setAllCellsState = useCallback((state: OtpState) => {
+    setCells(prev => prev.map(cell => ({ ...cell, state })));
+  }, []);
+
+  // Auto-advance to next input
+  const focusNext = useCallback((currentIdx: number) => {
+    if (currentIdx < length - 1) {
+      const nextIdx = currentIdx + 1;
+      setCurrentIndex(nextIdx);
+      inputRefs.current[nextIdx]?.focus();
+    }
+  }, [length]);
+
+  // Move to previous input
+  const focusPrevious = useCallback((currentIdx: number) => {
+    if (currentIdx > 0) {
+      const prevIdx = currentIdx - 1;
+      setCurrentIndex(prevIdx);
+      inputRefs.current[prevIdx]?.focus();
+    }
+  }, []);
+
+  // Count a failed validation and lock the input once the limit is reached
+  const registerFailedAttempt = useCallback(() => {
+    const nextFailed = failedAttempts + 1;
+    onAttemptFailed?.(nextFailed);
+
+    if (maxAttempts === undefined || nextFailed < maxAttempts) {
+      setFailedAttempts(nextFailed);
+      if (maxAttempts !== undefined) {
+        const remaining = maxAttempts - nextFailed;
+        ScreenReader.announce(`${remaining} attempt${remaining === 1 ? '' : 's'} remaining`, 'polite');
+      }
+      return;
+    }
+
+    const until = Date.now() + lockoutDurationMs(lockoutMs, lockoutCount);
+    setFailedAttempts(0);
+    setLockoutCount(count => count + 1);
+    setInternalLockedUntil(until);
+    onLockout?.(until, lockoutCount + 1);
+  }, [failedAttempts, maxAttempts, lockoutMs, lockoutCount, onAttemptFailed, onLockout]);
+
+  // Handle completion and validation
+  const handleComplete = useCallback(async (code: string) => {
+    if (code.length !== length) return;
+    
+    setIsComplete(true);
+    setIsValidating(true);
+    setAllCellsState('loading');
+    
+    try {
+      if (onValidate) {
+        const isValid = await onValidate(code);
+        setValidationResult(isValid);
+        setAllCellsState(isValid ? 'correct' : 'incorrect');
+        
+        ScreenReader.announce(
+          isValid ? 'Code verified successfully' : 'Invalid code entered',
+          'assertive'
+        );
+        
+        if (isValid) {
+          setFailedAttempts(0);
+          onComplete?.(code);
+        } else {
+          registerFailedAttempt();
+        }
+      } else {
+        setValidationResult(true);
+        setAllCellsState('correct');
+        ScreenReader.announce('Code entered successfully', 'polite');
+        onComplete?.(code);
+      }
+    } catch (error) {
+      setValidationResult(false);
+      setAllCellsState('incorrect');
+      ScreenReader.announce('Error validating code', 'assertive');
+    } finally {
+      setIsValidating(false);
+    }
+  }, [length, onValidate, onComplete, registerFailedAttempt]);
+
+  // Spread a whole code across the cells - shared by paste, WebOTP and autofill
+  const fillCode = useCallback((code: string, announcement: string) => {
+    if (code.length === 0 || isInputDisabled) return;
+
+    setCells(Array(length).fill(null).map((_, index) => ({
+      value: code[index] || '',
+      state: 'active' as OtpState
+    })));
+    
+    // Focus last filled cell or next empty cell
+    const focusIndex = code.length >= length ? length - 1 : code.length;
+    setCurrentIndex(focusIndex);
+    inputRefs.current[focusIndex]?.focus();
+    
+    ScreenReader.announce(announcement, 'polite');
+    
+    // Check if complete after fill
+    if (code.length === length) {
+      handleComplete(code);
+    }
+  }, [length, isInputDisabled, handleComplete]);
+
+  // Handle paste functionality
+  const handlePaste = useCallback((e: React.ClipboardEvent) => {
+    e.preventDefault();
+    const pastedText = parseText(e.clipboardData.getData('text'));
+    fillCode(pastedText, `${pastedText.length} ${unitLabel}s pasted`);
+  }, [parseText, fillCode, unitLabel]);
+
+  // Browser autofill (autocomplete="one-time-code") lands in the hidden input
+  const handleAutofill = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const code = parseText(e.target.value);
+    e.target.value = '';
+    fillCode(code, 'Code filled automatically');
+  }, [parseText, fillCode]);
+
+  // WebOTP: read the code from an incoming SMS where the browser supports it.
+  // Both callbacks change identity with every render that passes new `groups`,
+  // so they are read through refs rather than restarting the request
+  const fillCodeRef = useRef(fillCode);
+  fillCodeRef.current = fillCode;
+  const parseTextRef = useRef(parseText);
+  parseTextRef.current = parseText;
+  useEffect(() => {
+    if (!webOtp || typeof window === 'undefined' || !('OTPCredential' in window)) return;
+
+    const controller = new AbortController();
+    const request = { otp: { transport: ['sms'] }, signal: controller.signal } as CredentialRequestOptions;
+    navigator.credentials.get(request)
+      .then((credential) => {
+        const code = (credential as OtpCredential | null)?.code;
+        if (code) fillCodeRef.current(parseTextRef.current(code), 'Code received from SMS');
+      })
+      .catch(() => {
+        // Aborted, dismissed or unsupported transport - manual entry still works
+      });
+
+    return () => controller.abort();
+  }, [webOtp]);
+
+  // Handle input change
+  const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>, index: number) => {
+    const value = parseText(e.target.value);
+    
+    if (value.length === 0) {
+      // Clear current cell
+      updateCell(index, '', 'default');
+      return;
+    }
+
+    // Update current cell
+    updateCell(index, value, 'active');
+    
+    // Auto-advance if digit entered
+    if (value.length === 1 && index < length - 1) {
+      focusNext(index);
+    }
+
+    // Check completion
+    const newCode = cells.map((cell, i) => 
+      i === index ? value.slice(-1) : cell.value
+    ).join('');
+    
+    if (newCode.length === length) {
+      setTimeout(() => handleComplete(newCode), 100);
+    }
+  }, [cells, length, parseText, updateCell, focusNext, handleComplete]);
+
+  // Handle key events
+  const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLInputElement>, index: number) => {
+    handleKeyboardNavigation(e, {
+      onArrowLeft: () => focusPrevious(index),
+      onArrowRight: () => focusNext(index),
+      onHome: () => {
+        setCurrentIndex(0);
+        inputRefs.current[0]?.focus();
+      },
+      onEnd: () => {
+        const lastIndex = length - 1;
+        setCurrentIndex(lastIndex);
+        inputRefs.current[lastIndex]?.focus();
+      },
+      preventDefault: false
+    });
+
+    // Handle backspace
+    if (e.key === 'Backspace' && cells[index].value === '') {
+      focusPrevious(index);
+    }
+    
+    // Handle delete
+    if (e.key === 'Delete') {
+      updateCell(index, '', 'default');
+    }
+  }, [cells, length, focusNext, focusPrevious, updateCell]);
+
+  // Clear all inputs
+  const handleClear = useCallback(() => {
+    setCells(Array(length).fill(null).map(() => ({ value: '', state: 'default' })));
+    setCurrentIndex(0);
+    setIsComplete(false);
+    setValidationResult(null);
+    inputRefs.current[0]?.focus();
+    ScreenReader.announce('All fields cleared', 'polite');
+  }, [length]);
+
+  // Request a new code and start the next, longer cooldown
+  const handleResend = useCallback(async () => {
+    if (!onResend || resendRemaining > 0 || isResending || isLocked) return;
+
+    setIsResending(true);
+    try {
+      await onResend();
+      setInternalResendAt(Date.now() + resendCooldownMs(resendCooldown, resendCount + 1));
+      setResendCount(count => count + 1);
+      setCells(Array(length).fill(null).map(() => ({ value: '', state: 'default' })));
+      setCurrentIndex(0);
+      setIsComplete(false);
+      setValidationResult(null);
+      ScreenReader.announce('A new code has been sent', 'polite');
+      inputRefs.current[0]?.focus();
+    } catch (error) {
+      ScreenReader.announce('Could not send a new code', 'assertive');
+    } finally {
+      setIsResending(false);
+    }
+  }, [onResend, resendRemaining, isResending, isLocked, resendCooldown, resendCount, length]);
+
+  // Start the clock and the first cooldown (the initial code was just sent)
+  useEffect(() => {
+    const mountedAt = Date.now();
+    setNow(mountedAt);
+    if (onResend) {
+      setInternalResendAt(mountedAt + resendCooldownMs(resendCooldown, 0));
+    }
+  }, []);
+
+  // Tick once per second while any deadline is pending
+  const nextDeadline = [expiresAt, resendAt, lockUntil].some(
+    deadline => deadline != null && now !== null && deadline > now
+  );
+  useEffect(() => {
+    if (!nextDeadline) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [nextDeadline]);
+
+  // Announce lifecycle transitions
+  const previousLifecycle = useRef({ isExpired, isLocked, canResend: resendRemaining === 0 });
+  useEffect(() => {
+    const previous = previousLifecycle.current;
+    const canResend = resendRemaining === 0;
+
+    if (isExpired && !previous.isExpired) {
+      ScreenReader.announce('Your code has expired. Request a new one.', 'assertive');
+      onExpire?.();
+    }
+    if (isLocked && !previous.isLocked && lockUntil !== null && now !== null) {
+      ScreenReader.announce(
+        `Too many failed attempts. Try again in ${formatCountdown(lockUntil - now)}`,
+        'assertive'
+      );
+    }
+    if (!isLocked && previous.isLocked) {
+      // A host that disables the input after a lockout wants a new code first
+      if (!disabled) ScreenReader.announce('You can enter a code again', 'polite');
+      setCells(Array(length).fill(null).map(() => ({ value: '', state: 'default' })));
+      setValidationResult(null);
+    }
+    if (onResend && canResend && !previous.canResend) {
+      ScreenReader.announce('You can now request a new code', 'polite');
+    }
+
+    previousLifecycle.current = { isExpired, isLocked, canResend };
+  }, [isExpired, isLocked, resendRemaining, lockUntil, now, length, disabled, onExpire, onResend]);
+
+  // Auto-focus first input on mount
+  useEffect(() => {
+    if (autoFocus && inputRefs.current[0]) {
+      inputRefs.current[0].focus();
+    }
+  }, [autoFocus]);
+
+
+  // Prop getters for custom skins
+  const getCellProps = useCallback((index: number): OtpCellInputProps => {
+    const value = cells[index]?.value ?? '';
+    const label = `${unitLabel[0].toUpperCase()}${unitLabel.slice(1)}`;
+    return {
+      ref: (el) => { inputRefs.current[index] = el; },
+      type: 'text',
+      value: isMasked && value ? '•' : value,
+      inputMode: isNumeric ? 'numeric' : 'text',
+      autoCapitalize: caseMode === 'upper' ? 'characters' : 'off',
+      autoCorrect: 'off',
+      autoComplete: 'off',
+      spellCheck: false,
+      maxLength: 1,
+      disabled: isInputDisabled,
+      'aria-label': `${label} ${index + 1} of ${length}${value ? `: ${value}` : ', empty'}`,
+      onChange: (e) => handleInputChange(e, index),
+      onKeyDown: (e) => handleKeyDown(e, index),
+      onFocus: () => setCurrentIndex(index),
+      onPaste: handlePaste
+    };
+  }, [cells, unitLabel, isMasked, isNumeric, caseMode, isInputDisabled, length, handleInputChange, handleKeyDown, handlePaste]);
+
+  // Hidden autocomplete="one-time-code" target; it stays focusable so autofill can reach it
+  const getAutofillProps = useCallback((): OtpAutofillInputProps => ({
+    type: 'text',
+    autoComplete: 'one-time-code',
+    inputMode: isNumeric ? 'numeric' : 'text',
+    tabIndex: -1,
+    disabled: isInputDisabled,
+    'aria-label': 'One-time code autofill',
+    onChange: handleAutofill
+  }), [isNumeric, isInputDisabled, handleAutofill]);
+
+  return {
+    // Cell state
+    cells,
+    code: getCurrentCode(),
+    currentIndex,
+    boundaries,
+    unitLabel,
+    isNumeric,
+    isMasked,
+    setMasked: setIsMasked,
+    toggleMask: () => setIsMasked(masked => !masked),
+    // Validation
+    isComplete,
+    isValidating,
+    validationResult,
+    isDisabled: isInputDisabled,
+    // Lifecycle
+    now,
+    isExpired,
+    isLocked,
+    lockedUntil: lockUntil,
+    resendRemaining,
+    isResending,
+    canResend: !!onResend && resendRemaining === 0 && !isResending && !isLocked,
+    // Actions and handlers
+    fillCode,
+    clear: handleClear,
+    resend: handleResend,
+    handlePaste,
+    handleKeyDown,
+    handleInputChange,
+    getCellProps,
+    getAutofillProps
+  };
+}
@@ -1,14 +1,16 @@
 "use client";
 
-import { useState, useRef, useCallback, useEffect } from "react";
+import { useState, useRef, useCallback, useEffect, useMemo } from "react";
 import { motion, AnimatePresence, useMotionValue, useTransform } from "framer-motion";
 import { SPRING, DURATIONS, FadeIn, ScaleIn } from "../motion/Primitives";
 import { useStore } from "../../lib/store";
+import { Shortcut } from "../../lib/shortcuts";
 import { 
   ARIA_LABELS, 
   ScreenReader, 
   handleKeyboardNavigation 
 } from "../../lib/a11y";
+import { useShortcutLayer, useShortcuts } from "../commands/useShortcuts";
 
 // Portal context types
 export type PortalContext = 
@@ -346,17 +348,17 @@ function WarpOverlay({ isOpen, originButton, context, onClose, className = "" }:
     }
   }, [isOpen, rippleScale, rippleOpacity]);
 
-  // Handle escape key
-  useEffect(() => {
-    const handleEscape = (e: KeyboardEvent) => {
-      if (e.key === 'Escape' && isOpen) {
-        onClose();
-      }
-    };
-
-    document.addEventListener('keydown', handleEscape);
-    return () => document.removeEventListener('keydown', handleEscape);
-  }, [isOpen, onClose]);
+  // Modal while open: page shortcuts pause and Escape closes it
+  useShortcutLayer('warp-overlay', isOpen);
+  useShortcuts(useMemo<Shortcut[]>(() => [{
+    id: 'warp-overlay.close',
+    keys: 'escape',
+    description: 'Close portal',
+    group: 'Context portal',
+    layer: 'warp-overlay',
+    allowInInput: true,
+    handler: onClose
+  }], [onClose]));
 
   if (!context || !originButton) return null;
 
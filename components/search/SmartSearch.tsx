@@ -3,31 +3,36 @@
 import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { SPRING, DURATIONS, FadeIn, ScaleIn } from "../motion/Primitives";
-import { useStore } from "../../lib/store";
+import {
+  DEFAULT_RECENT_SEARCH_LIMIT,
+  RECENT_SEARCH_TTL_MS,
+  SavedSearch,
+  useStore
+} from "../../lib/store";
 import { 
   ARIA_LABELS, 
   ScreenReader, 
   handleKeyboardNavigation 
 } from "../../lib/a11y";
-
-// Search result types
-export type SearchResultType = 'person' | 'project' | 'document' | 'message' | 'file' | 'action';
-
-export interface SearchResult {
-  id: string;
-  type: SearchResultType;
-  title: string;
-  description?: string;
-  subtitle?: string;
-  category?: string;
-  tags?: string[];
-  lastModified?: Date;
-  url?: string;
-  icon?: string;
-  avatar?: string;
-  score?: number;
-  highlighted?: string[];
-}
+import {
+  SearchAbortedError,
+  SearchProvider,
+  SearchResponse,
+  SearchResult,
+  createRemoteProvider,
+  searchProviders
+} from "../../lib/search";
+import { boostRecent, resultKey, splitByRanges } from "../../lib/search-rank";
+import {
+  QueryCompletion,
+  QueryToken,
+  completeSearchQuery,
+  describeToken,
+  isValidToken,
+  parseSearchQuery
+} from "../../lib/search-query";
+
+export type { SearchResult, SearchResultType } from "../../lib/search";
 
 export interface SearchCategory {
   id: string;
@@ -42,96 +47,23 @@ interface SmartSearchProps {
   maxResults?: number;
   showCategories?: boolean;
   showRecentSearches?: boolean;
+  // How many recent searches to keep, and how long before they are forgotten
+  recentSearchLimit?: number;
+  recentSearchTtlMs?: number;
   autoFocus?: boolean;
   onResultClick?: (result: SearchResult) => void;
   onSearchChange?: (query: string) => void;
+  // Data sources to query; defaults to the /api/search route
+  providers?: SearchProvider[];
   className?: string;
 }
 
-// Sample search data
-const SAMPLE_RESULTS: SearchResult[] = [
-  {
-    id: '1',
-    type: 'person',
-    title: 'Sarah Johnson',
-    subtitle: 'Senior Product Designer',
-    description: 'Working on design system and user research',
-    avatar: '👩‍💼',
-    tags: ['design', 'ui/ux', 'figma'],
-    score: 0.95
-  },
-  {
-    id: '2',
-    type: 'project',
-    title: 'FLUX Design System',
-    subtitle: 'Active Project',
-    description: 'Comprehensive design system for all products',
-    icon: '🎨',
-    tags: ['design-system', 'components', 'tokens'],
-    score: 0.92
-  },
-  {
-    id: '3',
-    type: 'document',
-    title: 'Q4 Product Roadmap',
-    subtitle: 'Last updated 2 days ago',
-    description: 'Strategic planning document for upcoming features',
-    icon: '📋',
-    tags: ['planning', 'strategy', 'roadmap'],
-    lastModified: new Date('2025-08-29'),
-    score: 0.88
-  },
-  {
-    id: '4',
-    type: 'message',
-    title: 'Team standup notes',
-    subtitle: 'From #dev-team channel',
-    description: 'Daily standup recap and action items',
-    icon: '💬',
-    tags: ['meeting', 'standup', 'notes'],
-    score: 0.85
-  },
-  {
-    id: '5',
-    type: 'file',
-    title: 'user-research-findings.pdf',
-    subtitle: '2.3 MB • PDF Document',
-    description: 'Latest user research insights and recommendations',
-    icon: '📄',
-    tags: ['research', 'users', 'insights'],
-    score: 0.82
-  },
-  {
-    id: '6',
-    type: 'action',
-    title: 'Create new project',
-    subtitle: 'Quick action',
-    description: 'Start a new project with templates',
-    icon: '➕',
-    tags: ['create', 'project', 'template'],
-    score: 0.80
-  },
-  {
-    id: '7',
-    type: 'person',
-    title: 'Alex Chen',
-    subtitle: 'Frontend Developer',
-    description: 'React specialist and component library maintainer',
-    avatar: '👨‍💻',
-    tags: ['frontend', 'react', 'javascript'],
-    score: 0.78
-  },
-  {
-    id: '8',
-    type: 'document',
-    title: 'API Documentation',
-    subtitle: 'Technical Reference',
-    description: 'Complete API reference for developers',
-    icon: '📖',
-    tags: ['api', 'documentation', 'reference'],
-    score: 0.75
-  }
-];
+type SearchStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+const DEFAULT_PROVIDERS: SearchProvider[] = [createRemoteProvider()];
+
+// Fetch enough to fill every category tab, then slice per tab
+const SEARCH_FETCH_LIMIT = 50;
 
 const SEARCH_CATEGORIES: SearchCategory[] = [
   { id: 'all', name: 'All Results', icon: '🔍', color: '#7C3AED', count: 0 },
@@ -148,83 +80,140 @@ export function SmartSearch({
   maxResults = 8,
   showCategories = true,
   showRecentSearches = true,
+  recentSearchLimit = DEFAULT_RECENT_SEARCH_LIMIT,
+  recentSearchTtlMs = RECENT_SEARCH_TTL_MS,
   autoFocus = false,
   onResultClick,
   onSearchChange,
+  providers = DEFAULT_PROVIDERS,
   className = ""
 }: SmartSearchProps) {
-  const { markDayComplete, preferences } = useStore();
+  const {
+    markDayComplete,
+    preferences,
+    recentSelections,
+    recordSelection,
+    recentSearches,
+    savedSearches,
+    addRecentSearch,
+    pruneRecentSearches,
+    saveSearch
+  } = useStore();
   
   // Search state
   const [query, setQuery] = useState("");
   const [isOpen, setIsOpen] = useState(false);
   const [selectedIndex, setSelectedIndex] = useState(-1);
   const [selectedCategory, setSelectedCategory] = useState('all');
-  const [recentSearches, setRecentSearches] = useState<string[]>([
-    "design system", "user research", "API docs"
-  ]);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [status, setStatus] = useState<SearchStatus>('idle');
+  const [failedSources, setFailedSources] = useState<string[]>([]);
+  const [facets, setFacets] = useState<SearchResponse['facets']>({});
+  const [cursor, setCursor] = useState(0);
   
   // Refs
   const searchInputRef = useRef<HTMLInputElement>(null);
   const resultsRef = useRef<HTMLDivElement>(null);
   const searchTimeout = useRef<NodeJS.Timeout | null>(null);
+  const searchController = useRef<AbortController | null>(null);
 
-  // Filter and search results
+  // Filter fetched results by category, lifting recent picks
   const filteredResults = useMemo(() => {
     if (!query.trim()) return [];
 
-    let results = SAMPLE_RESULTS.filter(result => {
-      const searchText = `${result.title} ${result.description} ${result.subtitle} ${result.tags?.join(' ')}`.toLowerCase();
-      const queryLower = query.toLowerCase();
-      
-      // Simple fuzzy matching
-      const words = queryLower.split(' ').filter(w => w.length > 0);
-      return words.every(word => searchText.includes(word));
-    });
-
-    // Filter by category
-    if (selectedCategory !== 'all') {
-      results = results.filter(result => result.type === selectedCategory);
-    }
-
-    // Sort by relevance score
-    results.sort((a, b) => (b.score || 0) - (a.score || 0));
-
-    // Highlight matching text
-    results = results.map(result => ({
-      ...result,
-      highlighted: highlightText(result.title, query)
-    }));
+    return boostRecent(results, recentSelections)
+      .filter(result => selectedCategory === 'all' || result.type === selectedCategory)
+      .slice(0, maxResults)
+      .map(result => ({
+        ...result,
+        highlighted: splitByRanges(result.title, result.matches?.title)
+      }));
+  }, [results, recentSelections, query, selectedCategory, maxResults]);
 
-    return results.slice(0, maxResults);
-  }, [query, selectedCategory, maxResults]);
-
-  // Update category counts
+  // Facet counts for the current query, before the result limit
   const categoriesWithCounts = useMemo(() => {
-    const counts = SAMPLE_RESULTS.reduce((acc, result) => {
-      acc[result.type] = (acc[result.type] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
+    const total = Object.values(facets).reduce((sum, count) => sum + (count || 0), 0);
 
     return SEARCH_CATEGORIES.map(category => ({
       ...category,
-      count: category.id === 'all' ? SAMPLE_RESULTS.length : counts[category.id] || 0
+      count: category.id === 'all' ? total : facets[category.id as keyof typeof facets] || 0
     }));
-  }, []);
+  }, [facets]);
 
-  // Highlight matching text
-  const highlightText = (text: string, searchQuery: string): string[] => {
-    if (!searchQuery.trim()) return [text];
-    
-    const regex = new RegExp(`(${searchQuery.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi');
-    return text.split(regex);
-  };
+  // Structured parts of the query, shown as chips
+  const queryChips = useMemo(
+    () => parseSearchQuery(query).tokens.filter(token => token.kind !== 'term' || token.negated),
+    [query]
+  );
+
+  // Filter key and value suggestions for the word under the cursor
+  const completions = useMemo(() => {
+    const tags = results.flatMap(result => result.tags ?? []);
+    return completeSearchQuery(query, cursor, { tags });
+  }, [query, cursor, results]);
+  // Tab takes a suggestion only while one is on screen and no result is highlighted;
+  // otherwise it moves focus as usual
+  const canAcceptCompletion = isOpen && completions.length > 0 && selectedIndex < 0;
+
+  // Recent searches still inside the privacy window
+  const visibleRecentSearches = useMemo(() => {
+    const cutoff = Date.now() - recentSearchTtlMs;
+    return recentSearches.filter(recent => recent.searchedAt >= cutoff);
+  }, [recentSearches, recentSearchTtlMs]);
+
+  const hasEmptyState = showRecentSearches && (visibleRecentSearches.length > 0 || savedSearches.length > 0);
+
+  // Query every provider, dropping any request still in flight
+  const runSearch = useCallback(async (value: string) => {
+    searchController.current?.abort();
+    if (!value.trim()) {
+      setResults([]);
+      setFacets({});
+      setFailedSources([]);
+      setStatus('idle');
+      return;
+    }
+
+    const controller = new AbortController();
+    searchController.current = controller;
+    setStatus('loading');
+
+    try {
+      const response = await searchProviders(
+        providers,
+        { text: value, limit: SEARCH_FETCH_LIMIT },
+        controller.signal
+      );
+      setResults(response.results);
+      setFacets(response.facets);
+      setFailedSources(response.failed);
+
+      if (response.results.length === 0 && response.failed.length > 0) {
+        setStatus('error');
+        ScreenReader.announce('Search is unavailable right now', 'assertive');
+      } else {
+        setStatus('ready');
+        ScreenReader.announce(`Found ${response.results.length} results for "${value}"`, 'polite');
+      }
+    } catch (error) {
+      if (error instanceof SearchAbortedError || controller.signal.aborted) return;
+      setResults([]);
+      setFacets({});
+      setStatus('error');
+      ScreenReader.announce('Search is unavailable right now', 'assertive');
+    } finally {
+      if (searchController.current === controller) {
+        searchController.current = null;
+      }
+    }
+  }, [providers]);
 
   // Handle search input
   const handleSearchChange = useCallback((value: string) => {
     setQuery(value);
     setSelectedIndex(-1);
-    setIsOpen(value.length > 0);
+    setIsOpen(value.length > 0 || hasEmptyState);
+    setStatus(value.trim() ? 'loading' : 'idle');
     
     // Debounced search
     if (searchTimeout.current) {
@@ -233,38 +222,65 @@ export function SmartSearch({
     
     searchTimeout.current = setTimeout(() => {
       onSearchChange?.(value);
-      if (value.length > 0) {
-        ScreenReader.announce(`Found ${filteredResults.length} results for "${value}"`, 'polite');
-      }
+      runSearch(value);
     }, 300);
-  }, [onSearchChange, filteredResults.length]);
+  }, [onSearchChange, runSearch, hasEmptyState]);
 
   // Handle result selection
   const handleResultClick = useCallback((result: SearchResult) => {
     setQuery('');
     setIsOpen(false);
     
-    // Add to recent searches
-    setRecentSearches(prev => {
-      const newRecent = [query, ...prev.filter(s => s !== query)].slice(0, 3);
-      return newRecent;
-    });
+    addRecentSearch(query, recentSearchLimit);
     
+    recordSelection(resultKey(result));
     onResultClick?.(result);
     
     ScreenReader.announce(`Selected ${result.title}`, 'polite');
     
     // Mark day complete on interaction
     markDayComplete(6);
-  }, [query, onResultClick, markDayComplete]);
+  }, [query, onResultClick, addRecentSearch, recentSearchLimit, recordSelection, markDayComplete]);
 
-  // Handle recent search click
+  // Handle recent or saved search click
   const handleRecentSearch = useCallback((searchTerm: string) => {
     setQuery(searchTerm);
     handleSearchChange(searchTerm);
+    setCursor(searchTerm.length);
     searchInputRef.current?.focus();
   }, [handleSearchChange]);
 
+  const handleSaveSearch = useCallback(() => {
+    if (savedSearches.some(saved => saved.query === query.trim())) {
+      ScreenReader.announce('This search is already saved', 'polite');
+      return;
+    }
+    saveSearch(query);
+    ScreenReader.announce(`Saved search "${query.trim()}"`, 'polite');
+  }, [query, savedSearches, saveSearch]);
+
+  // Replace part of the query and put the caret after the new text
+  const replaceQueryRange = useCallback((start: number, end: number, insert: string) => {
+    const value = `${query.slice(0, start)}${insert}${query.slice(end)}`.replace(/\s{2,}/g, ' ');
+    const caret = Math.min(value.length, start + insert.length);
+    handleSearchChange(value.trimStart());
+    setCursor(caret);
+    requestAnimationFrame(() => {
+      searchInputRef.current?.focus();
+      searchInputRef.current?.setSelectionRange(caret, caret);
+    });
+  }, [query, handleSearchChange]);
+
+  const handleCompletion = useCallback((completion: QueryCompletion) => {
+    replaceQueryRange(completion.start, completion.end, completion.insert);
+    ScreenReader.announce(`Added ${completion.label}`, 'polite');
+  }, [replaceQueryRange]);
+
+  const handleRemoveChip = useCallback((token: QueryToken) => {
+    replaceQueryRange(token.start, token.end, '');
+    ScreenReader.announce(`Removed filter ${describeToken(token)}`, 'polite');
+  }, [replaceQueryRange]);
+
   // Keyboard navigation
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
     if (!isOpen) return;
@@ -296,12 +312,23 @@ export function SmartSearch({
         break;
         
       case 'Tab':
+        // Accept the first filter suggestion
+        if (!e.shiftKey && canAcceptCompletion) {
+          e.preventDefault();
+          handleCompletion(completions[0]);
+          break;
+        }
         if (e.shiftKey && selectedIndex <= 0) {
           setIsOpen(false);
         }
         break;
     }
-  }, [isOpen, selectedIndex, filteredResults, handleResultClick]);
+  }, [isOpen, selectedIndex, filteredResults, completions, canAcceptCompletion, handleResultClick, handleCompletion]);
+
+  // Forget recent searches past their expiry
+  useEffect(() => {
+    pruneRecentSearches(recentSearchTtlMs);
+  }, [pruneRecentSearches, recentSearchTtlMs]);
 
   // Auto focus
   useEffect(() => {
@@ -323,12 +350,13 @@ export function SmartSearch({
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  // Cleanup timeout
+  // Cleanup timeout and any pending request
   useEffect(() => {
     return () => {
       if (searchTimeout.current) {
         clearTimeout(searchTimeout.current);
       }
+      searchController.current?.abort();
     };
   }, []);
 
@@ -354,8 +382,12 @@ export function SmartSearch({
             ref={searchInputRef}
             type="text"
             value={query}
-            onChange={(e) => handleSearchChange(e.target.value)}
-            onFocus={() => query.length > 0 && setIsOpen(true)}
+            onChange={(e) => {
+              handleSearchChange(e.target.value);
+              setCursor(e.target.selectionStart ?? e.target.value.length);
+            }}
+            onSelect={(e) => setCursor(e.currentTarget.selectionStart ?? 0)}
+            onFocus={() => (query.length > 0 || hasEmptyState) && setIsOpen(true)}
             onKeyDown={handleKeyDown}
             placeholder={placeholder}
             className={`
@@ -369,8 +401,20 @@ export function SmartSearch({
             aria-expanded={isOpen}
             aria-haspopup="listbox"
             aria-autocomplete="list"
+            aria-busy={status === 'loading'}
           />
 
+          {/* Loading indicator */}
+          {status === 'loading' && (
+            <div className="absolute inset-y-0 right-10 flex items-center pointer-events-none">
+              <motion.div
+                animate={{ rotate: 360 }}
+                transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
+                className="w-4 h-4 border-2 border-brand border-t-transparent rounded-full"
+              />
+            </div>
+          )}
+
           {/* Clear button */}
           <AnimatePresence>
             {query && (
@@ -379,8 +423,12 @@ export function SmartSearch({
                 animate={{ opacity: 1, scale: 1 }}
                 exit={{ opacity: 0, scale: 0.8 }}
                 onClick={() => {
+                  if (searchTimeout.current) {
+                    clearTimeout(searchTimeout.current);
+                  }
                   setQuery('');
                   setIsOpen(false);
+                  runSearch('');
                   searchInputRef.current?.focus();
                 }}
                 className="absolute inset-y-0 right-0 pr-4 flex items-center text-gray-400 hover:text-white transition-colors"
@@ -402,8 +450,70 @@ export function SmartSearch({
               transition={{ duration: 0.2, ease: "easeOut" }}
               className="absolute z-50 w-full bg-surface border border-white/20 border-t-0 rounded-b-xl shadow-2xl max-h-96 overflow-hidden"
             >
+              {/* Query chips and filter suggestions */}
+              {(queryChips.length > 0 || completions.length > 0) && (
+                <div className="p-4 border-b border-white/10 space-y-3">
+                  {queryChips.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-2" aria-label="Active filters">
+                      {queryChips.map((token) => {
+                        const valid = isValidToken(token);
+                        return (
+                          <motion.span
+                            key={`${token.start}-${token.end}`}
+                            initial={{ opacity: 0, scale: 0.8 }}
+                            animate={{ opacity: 1, scale: 1 }}
+                            transition={SPRING}
+                            className={`
+                              inline-flex items-center gap-1 pl-2 pr-1 py-1 rounded-md text-xs font-mono
+                              ${!valid
+                                ? 'bg-warn/10 text-warn border border-warn/30'
+                                : token.negated
+                                  ? 'bg-danger/10 text-danger border border-danger/30'
+                                  : 'bg-brand/15 text-brand border border-brand/30'
+                              }
+                            `}
+                            title={valid ? undefined : 'Not understood - this filter is ignored'}
+                          >
+                            {describeToken(token)}
+                            <button
+                              onClick={() => handleRemoveChip(token)}
+                              className="px-1 rounded hover:bg-white/10"
+                              aria-label={`Remove ${describeToken(token)}`}
+                            >
+                              ✕
+                            </button>
+                          </motion.span>
+                        );
+                      })}
+                    </div>
+                  )}
+
+                  {completions.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-2" role="listbox" aria-label="Filter suggestions">
+                      {completions.map((completion, index) => (
+                        <button
+                          key={completion.label}
+                          role="option"
+                          aria-selected={index === 0}
+                          onClick={() => handleCompletion(completion)}
+                          className={`
+                            flex items-center gap-2 px-2 py-1 rounded-md text-xs transition-colors
+                            ${index === 0 ? 'bg-white/10 text-white' : 'text-gray-400 hover:text-white hover:bg-white/5'}
+                          `}
+                        >
+                          <span className="font-mono">{completion.label}</span>
+                          {completion.description && (
+                            <span className="text-gray-500">{completion.description}</span>
+                          )}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Categories */}
-              {showCategories && (
+              {showCategories && query.trim() && (
                 <div className="p-4 border-b border-white/10">
                   <div className="flex items-center gap-2 overflow-x-auto scrollbar-hide">
                     {categoriesWithCounts.map((category) => (
@@ -523,6 +633,24 @@ export function SmartSearch({
                       </motion.div>
                     ))}
                   </div>
+                ) : status === 'loading' ? (
+                  <div className="p-8 text-center text-gray-400" role="status">
+                    Searching...
+                  </div>
+                ) : status === 'error' ? (
+                  <div className="p-8 text-center text-gray-400" role="alert">
+                    <div className="text-4xl mb-4">⚠️</div>
+                    <h3 className="text-lg font-medium text-white mb-2">Search is unavailable</h3>
+                    <p className="text-sm mb-4">
+                      We couldn&apos;t reach the search service. Check your connection and try again.
+                    </p>
+                    <button
+                      onClick={() => runSearch(query)}
+                      className="px-4 py-2 text-sm bg-brand/20 text-brand rounded-lg hover:bg-brand/30 transition-colors"
+                    >
+                      Retry
+                    </button>
+                  </div>
                 ) : query.length > 0 ? (
                   <div className="p-8 text-center text-gray-400">
                     <div className="text-4xl mb-4">🔍</div>
@@ -532,34 +660,36 @@ export function SmartSearch({
                     </p>
                   </div>
                 ) : (
-                  /* Recent Searches */
-                  showRecentSearches && recentSearches.length > 0 && (
-                    <div className="p-4">
-                      <h3 className="text-sm font-medium text-gray-400 mb-3">Recent Searches</h3>
-                      <div className="space-y-1">
-                        {recentSearches.map((search, index) => (
-                          <motion.button
-                            key={index}
-                            onClick={() => handleRecentSearch(search)}
-                            className="w-full text-left p-2 rounded-lg text-gray-300 hover:bg-white/5 hover:text-white transition-colors flex items-center gap-3"
-                            whileHover={{ x: 4 }}
-                          >
-                            <span className="text-gray-500">🕒</span>
-                            <span className="text-sm">{search}</span>
-                          </motion.button>
-                        ))}
-                      </div>
-                    </div>
+                  /* Saved and recent searches */
+                  hasEmptyState && (
+                    <SearchEmptyState
+                      recentSearches={visibleRecentSearches}
+                      savedSearches={savedSearches}
+                      onRun={handleRecentSearch}
+                    />
                   )
                 )}
               </div>
 
               {/* Footer */}
-              {filteredResults.length > 0 && (
+              {query.trim() && (
                 <div className="p-3 bg-white/5 border-t border-white/10 text-center">
-                  <p className="text-xs text-gray-500">
-                    Use ↑↓ to navigate • Enter to select • Esc to close
-                  </p>
+                  {failedSources.length > 0 && (
+                    <p className="text-xs text-warn mb-1">
+                      Some sources could not be searched: {failedSources.join(', ')}
+                    </p>
+                  )}
+                  <div className="flex items-center justify-between gap-4">
+                    <p className="text-xs text-gray-500">
+                      Use ↑↓ to navigate • Enter to select • Tab to complete filters • Esc to close
+                    </p>
+                    <button
+                      onClick={handleSaveSearch}
+                      className="flex-shrink-0 text-xs text-gray-400 hover:text-brand transition-colors"
+                    >
+                      ☆ Save search
+                    </button>
+                  </div>
                 </div>
               )}
             </motion.div>
@@ -568,4 +698,163 @@ export function SmartSearch({
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+// Relative age for recent searches
+function formatSearchAge(timestamp: number): string {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+// Saved and recent searches, shown while the query is empty
+interface SearchEmptyStateProps {
+  recentSearches: { query: string; searchedAt: number }[];
+  savedSearches: SavedSearch[];
+  onRun: (query: string) => void;
+}
+
+function SearchEmptyState({ recentSearches, savedSearches, onRun }: SearchEmptyStateProps) {
+  const {
+    removeRecentSearch,
+    clearRecentSearches,
+    renameSavedSearch,
+    togglePinnedSearch,
+    removeSavedSearch
+  } = useStore();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  // Pinned first, then oldest first so the list stays stable
+  const orderedSaved = useMemo(
+    () => [...savedSearches].sort((a, b) => Number(b.pinned) - Number(a.pinned) || a.createdAt - b.createdAt),
+    [savedSearches]
+  );
+
+  const startRename = useCallback((saved: SavedSearch) => {
+    setEditingId(saved.id);
+    setDraftName(saved.name);
+  }, []);
+
+  const commitRename = useCallback(() => {
+    if (editingId) {
+      renameSavedSearch(editingId, draftName);
+      ScreenReader.announce(`Renamed to ${draftName}`, 'polite');
+    }
+    setEditingId(null);
+  }, [editingId, draftName, renameSavedSearch]);
+
+  return (
+    <div className="p-4 space-y-4">
+      {orderedSaved.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-400 mb-3">Saved Searches</h3>
+          <div className="space-y-1">
+            {orderedSaved.map((saved) => (
+              <div
+                key={saved.id}
+                className="group flex items-center gap-2 p-2 rounded-lg hover:bg-white/5 transition-colors"
+              >
+                <button
+                  onClick={() => togglePinnedSearch(saved.id)}
+                  className={`text-sm ${saved.pinned ? 'text-brand' : 'text-gray-500 hover:text-white'}`}
+                  aria-label={saved.pinned ? `Unpin ${saved.name}` : `Pin ${saved.name}`}
+                  aria-pressed={saved.pinned}
+                >
+                  {saved.pinned ? '📌' : '☆'}
+                </button>
+
+                {editingId === saved.id ? (
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') {
+                        e.stopPropagation();
+                        setEditingId(null);
+                      }
+                    }}
+                    className="flex-1 bg-white/5 border border-white/20 rounded px-2 py-1 text-sm text-white focus:outline-none focus:border-brand"
+                    aria-label={`Rename ${saved.name}`}
+                  />
+                ) : (
+                  <button
+                    onClick={() => onRun(saved.query)}
+                    className="flex-1 min-w-0 text-left"
+                  >
+                    <span className="block text-sm text-gray-200 truncate">{saved.name}</span>
+                    {saved.name !== saved.query && (
+                      <span className="block text-xs text-gray-500 font-mono truncate">{saved.query}</span>
+                    )}
+                  </button>
+                )}
+
+                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => startRename(saved)}
+                    className="px-1.5 text-xs text-gray-500 hover:text-white"
+                    aria-label={`Rename ${saved.name}`}
+                  >
+                    ✎
+                  </button>
+                  <button
+                    onClick={() => removeSavedSearch(saved.id)}
+                    className="px-1.5 text-xs text-gray-500 hover:text-danger"
+                    aria-label={`Delete ${saved.name}`}
+                  >
+                    ✕
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {recentSearches.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-sm font-medium text-gray-400">Recent Searches</h3>
+            <button
+              onClick={() => {
+                clearRecentSearches();
+                ScreenReader.announce('Recent searches cleared', 'polite');
+              }}
+              className="text-xs text-gray-500 hover:text-white transition-colors"
+            >
+              Clear all
+            </button>
+          </div>
+          <div className="space-y-1">
+            {recentSearches.map((recent) => (
+              <div key={recent.query} className="group flex items-center gap-3 rounded-lg hover:bg-white/5 transition-colors">
+                <motion.button
+                  onClick={() => onRun(recent.query)}
+                  className="flex-1 min-w-0 text-left p-2 text-gray-300 hover:text-white flex items-center gap-3"
+                  whileHover={{ x: 4 }}
+                >
+                  <span className="text-gray-500">🕒</span>
+                  <span className="text-sm truncate">{recent.query}</span>
+                  <span className="ml-auto text-xs text-gray-500 flex-shrink-0">{formatSearchAge(recent.searchedAt)}</span>
+                </motion.button>
+                <button
+                  onClick={() => removeRecentSearch(recent.query)}
+                  className="px-2 text-xs text-gray-500 hover:text-white opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                  aria-label={`Remove ${recent.query} from recent searches`}
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
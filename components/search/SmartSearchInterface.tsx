@@ -1,228 +1,44 @@
 "use client";
 
-import { useState, useRef, useCallback, useEffect } from "react";
-import { motion, AnimatePresence } from "framer-motion";
-import { FadeIn, ScaleIn, SPRING } from "../motion/Primitives";
+import { useState, useCallback, useEffect } from "react";
+import { motion } from "framer-motion";
+import { FadeIn, ScaleIn } from "../motion/Primitives";
 import { SmartSearch, SearchResult } from "./SmartSearch";
-import { useStore } from "../../lib/store";
-
-// Command palette actions
-export interface Command {
-  id: string;
-  title: string;
-  subtitle?: string;
-  description?: string;
-  icon: string;
-  category: 'navigation' | 'create' | 'edit' | 'view' | 'system';
-  shortcut?: string;
-  action: () => void;
-}
-
-const SAMPLE_COMMANDS: Command[] = [
-  {
-    id: 'new-project',
-    title: 'Create New Project',
-    subtitle: 'Start from templates',
-    description: 'Create a new project with predefined templates and structure',
-    icon: '🚀',
-    category: 'create',
-    shortcut: '⌘N',
-    action: () => console.log('Creating new project...')
-  },
-  {
-    id: 'open-settings',
-    title: 'Open Settings',
-    subtitle: 'Preferences & configuration',
-    description: 'Access application settings and preferences',
-    icon: '⚙️',
-    category: 'system',
-    shortcut: '⌘,',
-    action: () => console.log('Opening settings...')
-  },
-  {
-    id: 'search-files',
-    title: 'Search Files',
-    subtitle: 'Find files quickly',
-    description: 'Search through all files in the current workspace',
-    icon: '📄',
-    category: 'navigation',
-    shortcut: '⌘P',
-    action: () => console.log('Opening file search...')
-  },
-  {
-    id: 'toggle-theme',
-    title: 'Toggle Dark Mode',
-    subtitle: 'Switch appearance',
-    description: 'Toggle between light and dark themes',
-    icon: '🌙',
-    category: 'view',
-    shortcut: '⌘D',
-    action: () => console.log('Toggling theme...')
-  },
-  {
-    id: 'export-data',
-    title: 'Export Data',
-    subtitle: 'Download your data',
-    description: 'Export your data in various formats',
-    icon: '📤',
-    category: 'edit',
-    shortcut: '⌘E',
-    action: () => console.log('Exporting data...')
-  }
-];
-
-interface CommandPaletteProps {
-  isOpen: boolean;
-  onClose: () => void;
-  className?: string;
-}
-
-function CommandPalette({ isOpen, onClose, className = "" }: CommandPaletteProps) {
-  const [selectedCommand, setSelectedCommand] = useState<Command | null>(null);
-  
-  // Handle command execution
-  const handleCommandClick = useCallback((command: Command) => {
-    setSelectedCommand(command);
-    command.action();
-    setTimeout(onClose, 100); // Brief delay for visual feedback
-  }, [onClose]);
-
-  // Convert commands to search results
-  const commandResults: SearchResult[] = SAMPLE_COMMANDS.map(cmd => ({
-    id: cmd.id,
-    type: 'action',
-    title: cmd.title,
-    subtitle: cmd.subtitle,
-    description: cmd.description,
-    icon: cmd.icon,
-    tags: [cmd.category, ...(cmd.shortcut ? ['shortcut'] : [])],
-    score: 1.0
+import { FolderItem, ProjectData, useStore } from "../../lib/store";
+import { SearchProvider, createRemoteProvider } from "../../lib/search";
+import { commandRegistry, createCommandProvider } from "../../lib/commands";
+import { createIndexProvider } from "../../lib/search-index-client";
+
+// The user's own files and project, indexed off the main thread and kept across visits
+const LOCAL_INDEX = createIndexProvider('flux-local', ['file', 'project']);
+
+// Main search merges the workspace catalog, local data and registered commands
+const SEARCH_PROVIDERS: SearchProvider[] = [createRemoteProvider(), LOCAL_INDEX, createCommandProvider()];
+
+// Documents for the local index, derived from the persisted store
+function toIndexedDocs(folderItems: FolderItem[], project: ProjectData | null): SearchResult[] {
+  const docs: SearchResult[] = folderItems.map(item => ({
+    id: item.id,
+    type: 'file',
+    title: item.name,
+    subtitle: item.type === 'img' ? 'Image • Your folder' : item.type === 'folder' ? 'Folder • Your folder' : 'Document • Your folder',
+    icon: item.type === 'img' ? '🖼️' : item.type === 'folder' ? '📁' : '📄',
+    url: item.url,
+    tags: ['folder', item.type, ...(item.tags ?? [])]
   }));
 
-  // Handle search result click
-  const handleResultClick = useCallback((result: SearchResult) => {
-    const command = SAMPLE_COMMANDS.find(cmd => cmd.id === result.id);
-    if (command) {
-      handleCommandClick(command);
-    }
-  }, [handleCommandClick]);
-
-  return (
-    <AnimatePresence>
-      {isOpen && (
-        <>
-          {/* Backdrop */}
-          <motion.div
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            exit={{ opacity: 0 }}
-            onClick={onClose}
-            className="fixed inset-0 bg-black/50 backdrop-blur-sm z-40"
-          />
-
-          {/* Command Palette */}
-          <motion.div
-            initial={{ opacity: 0, scale: 0.95, y: -20 }}
-            animate={{ opacity: 1, scale: 1, y: 0 }}
-            exit={{ opacity: 0, scale: 0.95, y: -20 }}
-            transition={{ duration: 0.2, ease: "easeOut" }}
-            className={`
-              fixed top-20 left-1/2 transform -translate-x-1/2 z-50 w-full max-w-2xl mx-4
-              ${className}
-            `}
-          >
-            <div className="bg-surface/95 backdrop-blur-xl border border-white/20 rounded-2xl shadow-2xl overflow-hidden">
-              {/* Header */}
-              <div className="p-4 border-b border-white/10">
-                <div className="flex items-center gap-3">
-                  <div className="w-6 h-6 flex items-center justify-center text-brand">
-                    ⌘
-                  </div>
-                  <h2 className="text-lg font-semibold text-white">Command Palette</h2>
-                  <div className="ml-auto text-xs text-gray-500">
-                    Type to search commands
-                  </div>
-                </div>
-              </div>
-
-              {/* Search */}
-              <div className="p-4">
-                <SmartSearch
-                  placeholder="Search commands and actions..."
-                  maxResults={8}
-                  showCategories={false}
-                  showRecentSearches={false}
-                  autoFocus={true}
-                  onResultClick={handleResultClick}
-                />
-              </div>
-
-              {/* Quick Commands */}
-              <div className="p-4 pt-0">
-                <h3 className="text-sm font-medium text-gray-400 mb-3">Quick Commands</h3>
-                <div className="grid grid-cols-1 gap-1">
-                  {SAMPLE_COMMANDS.slice(0, 5).map((command, index) => (
-                    <motion.button
-                      key={command.id}
-                      onClick={() => handleCommandClick(command)}
-                      className={`
-                        w-full p-3 rounded-lg text-left transition-all duration-200
-                        hover:bg-white/5 focus:bg-brand/10 focus:outline-none focus:ring-2 focus:ring-brand/50
-                        ${selectedCommand?.id === command.id ? 'bg-brand/10' : ''}
-                      `}
-                      initial={{ opacity: 0, x: -20 }}
-                      animate={{ opacity: 1, x: 0 }}
-                      transition={{ delay: index * 0.05 }}
-                      whileHover={{ x: 4 }}
-                      whileTap={{ scale: 0.98 }}
-                    >
-                      <div className="flex items-center gap-3">
-                        <div className="w-8 h-8 flex items-center justify-center text-lg">
-                          {command.icon}
-                        </div>
-                        <div className="flex-1">
-                          <div className="flex items-center justify-between">
-                            <h4 className="text-white font-medium">{command.title}</h4>
-                            {command.shortcut && (
-                              <span className="text-xs text-gray-500 font-mono bg-white/5 px-2 py-1 rounded">
-                                {command.shortcut}
-                              </span>
-                            )}
-                          </div>
-                          {command.subtitle && (
-                            <p className="text-sm text-gray-400 mt-1">
-                              {command.subtitle}
-                            </p>
-                          )}
-                        </div>
-                        <div className="text-gray-400">
-                          →
-                        </div>
-                      </div>
-                    </motion.button>
-                  ))}
-                </div>
-              </div>
-
-              {/* Footer */}
-              <div className="p-4 bg-white/5 border-t border-white/10">
-                <div className="flex items-center justify-between text-xs text-gray-500">
-                  <div className="flex items-center gap-4">
-                    <span>↑↓ Navigate</span>
-                    <span>↵ Execute</span>
-                    <span>⎋ Close</span>
-                  </div>
-                  <div>
-                    Press <span className="font-mono bg-white/10 px-1 rounded">⌘K</span> anytime
-                  </div>
-                </div>
-              </div>
-            </div>
-          </motion.div>
-        </>
-      )}
-    </AnimatePresence>
-  );
+  if (project) {
+    docs.push({
+      id: 'my-project',
+      type: 'project',
+      title: project.title,
+      subtitle: project.category,
+      description: project.description,
+      icon: '🚀',
+      tags: [...project.tags, ...project.tools]
+    });
+  }
+  return docs;
 }
 
 interface SmartSearchInterfaceProps {
@@ -230,10 +46,9 @@ interface SmartSearchInterfaceProps {
 }
 
 export function SmartSearchInterface({ className = "" }: SmartSearchInterfaceProps) {
-  const { preferences, markDayComplete } = useStore();
+  const { preferences, markDayComplete, folderItems, project } = useStore();
   
   // Component state
-  const [showCommandPalette, setShowCommandPalette] = useState(false);
   const [searchStats, setSearchStats] = useState({
     totalSearches: 0,
     resultsClicked: 0,
@@ -259,12 +74,20 @@ export function SmartSearchInterface({ className = "" }: SmartSearchInterfacePro
     // Mark day complete on first interaction
     markDayComplete(6);
     
-    console.log('Result clicked:', result);
-    // Handle navigation or actions based on result type
+    // Actions run their command; everything else is just logged for the demo
+    if (result.type === 'action' && commandRegistry.get(result.id)) {
+      commandRegistry.run(result.id);
+    } else {
+      console.log('Result clicked:', result);
+    }
   }, [markDayComplete]);
 
-  // Global keyboard shortcut
-  useKeyboardShortcut('cmd+k', () => setShowCommandPalette(true));
+  // Keep the local index in step with the store; only changed documents are re-indexed
+  useEffect(() => {
+    LOCAL_INDEX.sync(toIndexedDocs(folderItems, project)).catch(() => {
+      // The index is an optional source; search still works without it
+    });
+  }, [folderItems, project]);
 
   return (
     <div className={`max-w-6xl mx-auto ${className}`}>
@@ -292,6 +115,7 @@ export function SmartSearchInterface({ className = "" }: SmartSearchInterfacePro
             autoFocus={false}
             onResultClick={handleResultClick}
             onSearchChange={handleSearchChange}
+            providers={SEARCH_PROVIDERS}
           />
         </div>
       </ScaleIn>
@@ -352,7 +176,7 @@ export function SmartSearchInterface({ className = "" }: SmartSearchInterfacePro
             Access powerful commands and actions instantly. Navigate, create, edit, and configure with ease.
           </p>
           <motion.button
-            onClick={() => setShowCommandPalette(true)}
+            onClick={() => commandRegistry.run('palette.open')}
             className="inline-flex items-center gap-3 bg-brand hover:bg-brand/80 text-white px-6 py-3 rounded-lg font-medium transition-colors"
             whileHover={{ scale: 1.05 }}
             whileTap={{ scale: 0.95 }}
@@ -405,35 +229,16 @@ export function SmartSearchInterface({ className = "" }: SmartSearchInterfacePro
             <div>
               • <strong className="text-white">Press ⌘K</strong> to open command palette
             </div>
+            <div>
+              • <strong className="text-white">Filter inline</strong> with <code className="font-mono text-brand">type:person tag:react</code>
+            </div>
+            <div>
+              • <strong className="text-white">Dates, phrases, negation:</strong> <code className="font-mono text-brand">modified:&gt;2025-01-01 &quot;design system&quot; -draft</code>
+            </div>
           </div>
         </div>
       </ScaleIn>
-
-      {/* Command Palette */}
-      <CommandPalette
-        isOpen={showCommandPalette}
-        onClose={() => setShowCommandPalette(false)}
-      />
     </div>
   );
 }
 
-// Custom hook for keyboard shortcuts
-function useKeyboardShortcut(shortcut: string, callback: () => void) {
-  const handleKeyDown = useCallback((e: KeyboardEvent) => {
-    const keys = shortcut.toLowerCase().split('+');
-    const isCmd = keys.includes('cmd') && (e.metaKey || e.ctrlKey);
-    const key = keys[keys.length - 1];
-    
-    if (isCmd && e.key.toLowerCase() === key) {
-      e.preventDefault();
-      callback();
-    }
-  }, [shortcut, callback]);
-
-  // Use useEffect instead of useState for event listener
-  useEffect(() => {
-    document.addEventListener('keydown', handleKeyDown);
-    return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [handleKeyDown]);
-}
\ No newline at end of file
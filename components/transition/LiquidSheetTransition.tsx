@@ -1,14 +1,16 @@
 "use client";
 
-import { useState, useRef, useCallback, useEffect } from "react";
+import { useState, useRef, useCallback, useEffect, useMemo } from "react";
 import { motion, AnimatePresence, useMotionValue, useTransform, LayoutGroup } from "framer-motion";
 import { SPRING, DURATIONS, FadeIn, ScaleIn } from "../motion/Primitives";
 import { useStore } from "../../lib/store";
+import { Shortcut } from "../../lib/shortcuts";
 import { 
   ARIA_LABELS, 
   ScreenReader, 
   handleKeyboardNavigation 
 } from "../../lib/a11y";
+import { useShortcutLayer, useShortcuts } from "../commands/useShortcuts";
 
 // Project card data types
 export interface ProjectCard {
@@ -247,17 +249,17 @@ function LiquidSheet({ project, isOpen, onClose, originRef, className = "" }: Li
     }
   }, [isOpen]);
 
-  // Handle escape key
-  useEffect(() => {
-    const handleEscape = (e: KeyboardEvent) => {
-      if (e.key === 'Escape' && isOpen) {
-        onClose();
-      }
-    };
-
-    document.addEventListener('keydown', handleEscape);
-    return () => document.removeEventListener('keydown', handleEscape);
-  }, [isOpen, onClose]);
+  // Modal while open: page shortcuts pause and Escape closes it
+  useShortcutLayer('liquid-sheet', isOpen);
+  useShortcuts(useMemo<Shortcut[]>(() => [{
+    id: 'liquid-sheet.close',
+    keys: 'escape',
+    description: 'Close project sheet',
+    group: 'Project sheet',
+    layer: 'liquid-sheet',
+    allowInInput: true,
+    handler: onClose
+  }], [onClose]));
 
   return (
     <AnimatePresence mode="wait">
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useRef, useCallback, useEffect } from "react";
+import { useState, useRef, useCallback, useEffect, useMemo } from "react";
 import { motion, AnimatePresence, useSpring } from "framer-motion";
 import { SPRING, DURATIONS, FadeIn, ScaleIn } from "../motion/Primitives";
 import { useStore } from "../../lib/store";
@@ -9,10 +9,23 @@ import {
   ScreenReader, 
   handleKeyboardNavigation 
 } from "../../lib/a11y";
+import { QueueItem, getUploadQueue } from "../../lib/upload-queue";
+import {
+  FileCategory,
+  RuleViolation,
+  UploadPolicy,
+  categoryOf,
+  formatBytes,
+  inspectFile
+} from "../../lib/file-validation";
+import { CropRect, DEFAULT_IMAGE_OPTIONS, ImageProcessOptions } from "../../lib/image-pipeline";
+import { createPreview, prepareFile } from "../../lib/upload-pipeline";
+import { ImageCropper } from "./ImageCropper";
+import { useUploadQueue } from "./useUploadQueue";
 
 // File upload types
-export type UploadStatus = 'idle' | 'dragging' | 'uploading' | 'success' | 'error';
-export type FileType = 'image' | 'document' | 'video' | 'audio' | 'other';
+export type UploadStatus = 'idle' | 'dragging' | 'queued' | 'uploading' | 'paused' | 'retrying' | 'success' | 'error';
+export type FileType = FileCategory;
 
 export interface UploadedFile {
   id: string;
@@ -21,122 +34,159 @@ export interface UploadedFile {
   status: UploadStatus;
   progress: number;
   error?: string;
+  // Every upload policy rule the file broke; `error` joins their messages
+  violations?: RuleViolation[];
   preview?: string;
+  // Bytes the server has confirmed, plus the chunk in flight
+  uploadedBytes?: number;
+  // Server-side session, once created
+  uploadId?: string;
+  // Tries so far and, while waiting to retry, when the next one starts
+  attempts?: number;
+  retryAt?: number;
+  // Size before the image pipeline, when it changed the file
+  originalSize?: number;
+  // The pipeline dropped GPS coordinates from the photo
+  locationRemoved?: boolean;
 }
 
 interface FileUploadProps {
   acceptedTypes?: string[];
   maxFileSize?: number; // in MB
   maxFiles?: number;
+  // Further rules (per-type and total size, image dimensions); overrides the two props above
+  policy?: UploadPolicy;
+  // Images are re-encoded upright without metadata, downscaled and recompressed; false uploads them untouched
+  imageProcessing?: ImageProcessOptions | false;
+  // Ask for a square crop of each image first, e.g. with AVATAR_IMAGE_OPTIONS for Avatar.image
+  cropToSquare?: boolean;
   onUpload?: (files: UploadedFile[]) => void;
   onComplete?: (files: UploadedFile[]) => void;
+  // Uploads running at once; the rest wait their turn
+  maxConcurrentUploads?: number;
+  // Requested chunk size in bytes; the server may clamp it
+  chunkSize?: number;
+  // Upload queue to use; unfinished uploads in it are restored after a reload
+  queueName?: string;
   className?: string;
 }
 
+// Waiting files can be moved; the one uploading already has its slot
+const REORDERABLE: UploadStatus[] = ['queued', 'paused', 'retrying'];
+
+// A file's record with the live state of its queue item
+function withQueueState(file: UploadedFile, item: QueueItem): UploadedFile {
+  return {
+    ...file,
+    status: item.status,
+    progress: item.file.size > 0 ? (item.loaded / item.file.size) * 100 : item.status === 'success' ? 100 : 0,
+    uploadedBytes: item.status === 'success' ? item.file.size : item.loaded,
+    uploadId: item.uploadId,
+    error: item.error,
+    attempts: item.attempts,
+    retryAt: item.retryAt
+  };
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${Math.max(1, Math.round(seconds))}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)} min`;
+  return `${Math.floor(seconds / 3600)} h ${Math.round((seconds % 3600) / 60)} min`;
+}
+
+function getFileIcon(type: FileType): string {
+  switch (type) {
+    case 'image': return '🖼️';
+    case 'video': return '🎥';
+    case 'audio': return '🎵';
+    case 'document': return '📄';
+    case 'archive': return '🗜️';
+    case 'design': return '🎨';
+    default: return '📎';
+  }
+}
+
 export function FileUpload({
   acceptedTypes = ['.jpg', '.jpeg', '.png', '.gif', '.pdf', '.doc', '.docx', '.txt'],
   maxFileSize = 10, // MB
   maxFiles = 5,
+  policy,
+  imageProcessing = DEFAULT_IMAGE_OPTIONS,
+  cropToSquare = false,
   onUpload,
   onComplete,
+  maxConcurrentUploads = 3,
+  chunkSize,
+  queueName = 'file-upload',
   className = ""
 }: FileUploadProps) {
   const { markDayComplete, preferences } = useStore();
   
-  // Upload state
+  // Upload state: what we know about each file here; upload progress lives in the queue
   const [dragStatus, setDragStatus] = useState<UploadStatus>('idle');
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
-  const [isUploading, setIsUploading] = useState(false);
+  const queue = useMemo(() => getUploadQueue(queueName), [queueName]);
+  const { items: queueItems, stats } = useUploadQueue(queue);
   
   // Refs
   const fileInputRef = useRef<HTMLInputElement>(null);
   const dropZoneRef = useRef<HTMLDivElement>(null);
+  // Ids with a record here, updated before the queue hears of them so restores never duplicate them
+  const knownIdsRef = useRef(new Set<string>());
+  // The image waiting in the crop step and how to hand back the user's choice
+  const [cropRequest, setCropRequest] = useState<{ file: File; resolve: (crop: CropRect | null) => void } | null>(null);
+  const cropRequestRef = useRef(cropRequest);
+  cropRequestRef.current = cropRequest;
+
+  const uploadPolicy = useMemo<UploadPolicy>(() => ({
+    accept: acceptedTypes,
+    maxFileSize: maxFileSize * 1024 * 1024,
+    ...policy
+  }), [acceptedTypes, maxFileSize, policy]);
+
+  useEffect(() => {
+    queue.configure({ concurrency: maxConcurrentUploads, chunkSize });
+  }, [queue, maxConcurrentUploads, chunkSize]);
+
+  // Uploads outlive the component in the queue; only a pending crop is dropped
+  useEffect(() => {
+    return () => cropRequestRef.current?.resolve(null);
+  }, []);
 
-  // Get file type from file
-  const getFileType = (file: File): FileType => {
-    const type = file.type.toLowerCase();
-    if (type.startsWith('image/')) return 'image';
-    if (type.startsWith('video/')) return 'video';
-    if (type.startsWith('audio/')) return 'audio';
-    if (type.includes('pdf') || type.includes('document') || type.includes('text')) return 'document';
-    return 'other';
-  };
-
-  // Get file type icon
-  const getFileIcon = (type: FileType): string => {
-    switch (type) {
-      case 'image': return '🖼️';
-      case 'video': return '🎥';
-      case 'audio': return '🎵';
-      case 'document': return '📄';
-      default: return '📎';
-    }
+  // Resolves with the chosen crop, or null if the user cancelled this file
+  const requestCrop = (file: File): Promise<CropRect | null> => {
+    return new Promise(resolve => setCropRequest({ file, resolve }));
   };
 
-  // Validate file
-  const validateFile = (file: File): string | null => {
-    // Check file size
-    if (file.size > maxFileSize * 1024 * 1024) {
-      return `File size exceeds ${maxFileSize}MB limit`;
-    }
-    
-    // Check file type
-    const extension = `.${file.name.split('.').pop()?.toLowerCase()}`;
-    if (!acceptedTypes.includes(extension)) {
-      return `File type ${extension} not supported`;
-    }
-    
-    return null;
-  };
-
-  // Create file preview
-  const createFilePreview = (file: File): Promise<string | undefined> => {
-    return new Promise((resolve) => {
-      if (file.type.startsWith('image/')) {
-        const reader = new FileReader();
-        reader.onload = (e) => resolve(e.target?.result as string);
-        reader.onerror = () => resolve(undefined);
-        reader.readAsDataURL(file);
-      } else {
-        resolve(undefined);
-      }
-    });
-  };
+  const finishCrop = useCallback((crop: CropRect | null) => {
+    cropRequestRef.current?.resolve(crop);
+    setCropRequest(null);
+  }, []);
 
-  // Simulate file upload with progress
-  const simulateUpload = async (uploadedFile: UploadedFile): Promise<void> => {
-    return new Promise((resolve, reject) => {
-      let progress = 0;
-      const interval = setInterval(() => {
-        progress += Math.random() * 20;
-        if (progress >= 100) {
-          progress = 100;
-          clearInterval(interval);
-          
-          // Simulate occasional errors (10% chance)
-          if (Math.random() < 0.1) {
-            setUploadedFiles(prev => prev.map(f => 
-              f.id === uploadedFile.id 
-                ? { ...f, status: 'error', error: 'Upload failed. Please try again.' }
-                : f
-            ));
-            reject(new Error('Upload failed'));
-          } else {
-            setUploadedFiles(prev => prev.map(f => 
-              f.id === uploadedFile.id 
-                ? { ...f, status: 'success', progress: 100 }
-                : f
-            ));
-            resolve();
-          }
-        } else {
-          setUploadedFiles(prev => prev.map(f => 
-            f.id === uploadedFile.id ? { ...f, progress } : f
-          ));
-        }
-      }, 100 + Math.random() * 200);
-    });
-  };
+  const cancelCrop = useCallback(() => finishCrop(null), [finishCrop]);
+
+  // Queue items from before a reload or from an earlier visit to this page need records to show
+  useEffect(() => {
+    const unknown = queueItems.filter(item => !knownIdsRef.current.has(item.id));
+    if (unknown.length === 0) return;
+    unknown.forEach(item => knownIdsRef.current.add(item.id));
+
+    Promise.all(unknown.map(async ({ id, file }): Promise<UploadedFile> => {
+      const type = categoryOf(await inspectFile(file));
+      return { id, file, type, status: 'queued', progress: 0, preview: await createPreview(file, type === 'image') };
+    })).then(restored => setUploadedFiles(prev => [...restored, ...prev]));
+  }, [queueItems]);
+
+  // Records merged with live queue state, in queue order; rejected files stay at the end
+  const files = useMemo(() => {
+    const positions = new Map(queueItems.map((item, index) => [item.id, index]));
+    return uploadedFiles
+      .map(file => {
+        const item = queueItems[positions.get(file.id) ?? -1];
+        return item ? withQueueState(file, item) : file;
+      })
+      .sort((a, b) => (positions.get(a.id) ?? Infinity) - (positions.get(b.id) ?? Infinity));
+  }, [uploadedFiles, queueItems]);
 
   // Process files
   const processFiles = useCallback(async (files: FileList | File[]) => {
@@ -148,54 +198,73 @@ export function FileUpload({
       return;
     }
 
-    setIsUploading(true);
     const newFiles: UploadedFile[] = [];
+    // Files already accepted count towards the total size limit
+    let usedBytes = uploadedFiles
+      .filter(f => !f.violations)
+      .reduce((sum, f) => sum + f.file.size, 0);
 
     // Process each file
-    for (const file of fileArray) {
-      const error = validateFile(file);
-      const preview = await createFilePreview(file);
+    for (const original of fileArray) {
+      const prepared = await prepareFile(original, {
+        policy: uploadPolicy,
+        usedBytes,
+        imageProcessing,
+        requestCrop: cropToSquare ? requestCrop : undefined
+      });
+      // Cancelled in the crop step
+      if (!prepared) continue;
+
+      const { file, violations } = prepared;
+      if (violations.length === 0) usedBytes += file.size;
       
       const uploadedFile: UploadedFile = {
         id: crypto.randomUUID(),
         file,
-        type: getFileType(file),
-        status: error ? 'error' : 'uploading',
+        originalSize: file !== original ? original.size : undefined,
+        locationRemoved: prepared.locationRemoved || undefined,
+        type: prepared.type,
+        status: violations.length > 0 ? 'error' : 'queued',
         progress: 0,
-        error: error || undefined,
-        preview
+        error: violations.length > 0 ? violations.map(v => v.message).join('. ') : undefined,
+        violations: violations.length > 0 ? violations : undefined,
+        preview: prepared.preview
       };
       
       newFiles.push(uploadedFile);
     }
 
+    if (newFiles.length === 0) return;
+
     // Add files to state
+    newFiles.forEach(f => knownIdsRef.current.add(f.id));
     setUploadedFiles(prev => [...prev, ...newFiles]);
     
-    // Start uploads for valid files
+    // Queue valid files
     const validFiles = newFiles.filter(f => !f.error);
     onUpload?.(validFiles);
+    if (validFiles.length === 0) return;
 
-    try {
-      // Upload files concurrently
-      await Promise.allSettled(
-        validFiles.map(file => simulateUpload(file))
-      );
-      
-      // Mark day complete if any uploads succeeded
-      const successfulUploads = uploadedFiles.filter(f => f.status === 'success');
-      if (successfulUploads.length > 0) {
-        markDayComplete(3);
-      }
-      
-      onComplete?.(uploadedFiles);
-      ScreenReader.announce(`${validFiles.length} files uploaded successfully`, 'polite');
-    } catch (error) {
-      ScreenReader.announce('Some uploads failed', 'assertive');
-    } finally {
-      setIsUploading(false);
+    // Settles once every file has succeeded, finally failed or been removed; paused files hold it open
+    const results = await Promise.all(validFiles.map(file => queue.add(file.id, file.file)));
+    const finished = validFiles.flatMap((file, i) => {
+      const item = results[i];
+      return item ? [withQueueState(file, item)] : [];
+    });
+    const succeeded = finished.filter(f => f.status === 'success').length;
+    
+    // Mark day complete if any uploads succeeded
+    if (succeeded > 0) {
+      markDayComplete(3);
+    }
+    
+    onComplete?.(finished);
+    if (succeeded === finished.length) {
+      ScreenReader.announce(`${succeeded} files uploaded successfully`, 'polite');
+    } else {
+      ScreenReader.announce(`${finished.length - succeeded} of ${finished.length} uploads failed`, 'assertive');
     }
-  }, [uploadedFiles, maxFiles, onUpload, onComplete, markDayComplete]);
+  }, [uploadedFiles, maxFiles, uploadPolicy, imageProcessing, cropToSquare, queue, onUpload, onComplete, markDayComplete]);
 
   // Handle file input change
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -231,34 +300,54 @@ export function FileUpload({
     }
   }, [processFiles]);
 
-  // Remove file
+  // Remove file; a running upload is cancelled and the server discards what it stored
   const removeFile = useCallback((id: string) => {
+    const item = queue.get(id);
+    queue.remove(id);
+    knownIdsRef.current.delete(id);
     setUploadedFiles(prev => prev.filter(f => f.id !== id));
-    ScreenReader.announce('File removed', 'polite');
-  }, []);
+    ScreenReader.announce(item && item.status !== 'success' ? 'Upload cancelled' : 'File removed', 'polite');
+  }, [queue]);
 
-  // Retry upload
+  // Retry upload; chunks the server already has are skipped
   const retryUpload = useCallback(async (id: string) => {
     const file = uploadedFiles.find(f => f.id === id);
-    if (!file) return;
+    // Files rejected by policy would only be rejected again
+    if (!file || file.violations) return;
 
-    setUploadedFiles(prev => prev.map(f => 
-      f.id === id ? { ...f, status: 'uploading', progress: 0, error: undefined } : f
-    ));
-
-    try {
-      await simulateUpload(file);
+    const item = await queue.retry(id);
+    if (item?.status === 'success') {
       ScreenReader.announce('File uploaded successfully', 'polite');
-    } catch (error) {
+    } else if (item?.status === 'error') {
       ScreenReader.announce('Upload failed again', 'assertive');
     }
-  }, [uploadedFiles]);
+  }, [uploadedFiles, queue]);
+
+  const pauseUpload = useCallback((id: string) => {
+    queue.pause(id);
+    ScreenReader.announce('Upload paused', 'polite');
+  }, [queue]);
+
+  const resumeUpload = useCallback((id: string) => {
+    queue.resume(id);
+    ScreenReader.announce('Upload resumed', 'polite');
+  }, [queue]);
+
+  // Move a file up or down the queue; earlier files start first
+  const moveUpload = useCallback((id: string, delta: -1 | 1) => {
+    const index = queue.getSnapshot().items.findIndex(item => item.id === id);
+    if (index < 0) return;
+    queue.move(id, index + delta);
+    ScreenReader.announce(`Moved ${delta < 0 ? 'up' : 'down'} the queue`, 'polite');
+  }, [queue]);
 
   // Clear all files
   const clearAll = useCallback(() => {
+    queue.clear();
+    knownIdsRef.current.clear();
     setUploadedFiles([]);
     ScreenReader.announce('All files cleared', 'polite');
-  }, []);
+  }, [queue]);
 
   // Keyboard handlers
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
@@ -282,11 +371,10 @@ export function FileUpload({
           </p>
         </div>
         
-        {uploadedFiles.length > 0 && (
+        {files.length > 0 && (
           <button
             onClick={clearAll}
-            disabled={isUploading}
-            className="px-3 py-2 text-sm text-gray-400 hover:text-white transition-colors rounded-lg hover:bg-surface/50 disabled:opacity-50 disabled:cursor-not-allowed"
+            className="px-3 py-2 text-sm text-gray-400 hover:text-white transition-colors rounded-lg hover:bg-surface/50"
           >
             Clear All
           </button>
@@ -352,7 +440,10 @@ export function FileUpload({
           
           <div className="text-xs text-gray-500 space-y-1">
             <p>Accepted: {acceptedTypes.join(', ')}</p>
-            <p>Max size: {maxFileSize}MB • Max files: {maxFiles}</p>
+            <p>Max size: {formatBytes(uploadPolicy.maxFileSize ?? maxFileSize * 1024 * 1024)} • Max files: {maxFiles}</p>
+            {uploadPolicy.maxTotalSize !== undefined && (
+              <p>Total limit: {formatBytes(uploadPolicy.maxTotalSize)}</p>
+            )}
           </div>
         </motion.div>
         
@@ -368,9 +459,37 @@ export function FileUpload({
         />
       </motion.div>
 
+      {/* Overall Progress */}
+      {stats.pending > 0 && stats.total > 0 && (
+        <div className="mt-6">
+          <div className="flex items-center justify-between text-xs text-gray-400 mb-2">
+            <span>
+              {stats.pending} {stats.pending === 1 ? 'file' : 'files'} left • {formatBytes(stats.loaded)} of {formatBytes(stats.total)}
+            </span>
+            <span aria-live="off">
+              {stats.etaSeconds !== null ? `About ${formatDuration(stats.etaSeconds)} left` : stats.bytesPerSecond > 0 ? '' : 'Waiting…'}
+            </span>
+          </div>
+          <div
+            className="w-full bg-gray-700 rounded-full h-2 overflow-hidden"
+            role="progressbar"
+            aria-label="Total upload progress"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round((stats.loaded / stats.total) * 100)}
+          >
+            <motion.div
+              animate={{ width: `${(stats.loaded / stats.total) * 100}%` }}
+              transition={{ duration: 0.3, ease: "easeOut" }}
+              className="h-full bg-brand rounded-full"
+            />
+          </div>
+        </div>
+      )}
+
       {/* File List */}
       <AnimatePresence mode="popLayout">
-        {uploadedFiles.length > 0 && (
+        {files.length > 0 && (
           <motion.div
             initial={{ opacity: 0, height: 0 }}
             animate={{ opacity: 1, height: 'auto' }}
@@ -378,23 +497,37 @@ export function FileUpload({
             className="mt-6 space-y-3"
           >
             <h4 className="text-sm font-medium text-gray-300">
-              Uploaded Files ({uploadedFiles.length}/{maxFiles})
+              Uploaded Files ({files.length}/{maxFiles})
             </h4>
             
             <div className="space-y-2">
-              {uploadedFiles.map((file, index) => (
-                <FileItem
-                  key={file.id}
-                  file={file}
-                  index={index}
-                  onRemove={() => removeFile(file.id)}
-                  onRetry={() => retryUpload(file.id)}
-                />
-              ))}
+              {files.map((file, index) => {
+                const queueIndex = queueItems.findIndex(item => item.id === file.id);
+                const canReorder = queueIndex >= 0 && REORDERABLE.includes(file.status);
+                return (
+                  <FileItem
+                    key={file.id}
+                    file={file}
+                    index={index}
+                    onRemove={() => removeFile(file.id)}
+                    onRetry={() => retryUpload(file.id)}
+                    onPause={() => pauseUpload(file.id)}
+                    onResume={() => resumeUpload(file.id)}
+                    onMoveUp={canReorder && queueIndex > 0 ? () => moveUpload(file.id, -1) : undefined}
+                    onMoveDown={canReorder && queueIndex < queueItems.length - 1 ? () => moveUpload(file.id, 1) : undefined}
+                  />
+                );
+              })}
             </div>
           </motion.div>
         )}
       </AnimatePresence>
+
+      <ImageCropper
+        file={cropRequest?.file ?? null}
+        onConfirm={finishCrop}
+        onCancel={cancelCrop}
+      />
     </div>
   );
 }
@@ -405,19 +538,23 @@ interface FileItemProps {
   index: number;
   onRemove: () => void;
   onRetry: () => void;
+  onPause: () => void;
+  onResume: () => void;
+  // Absent when the file can't move that way
+  onMoveUp?: () => void;
+  onMoveDown?: () => void;
 }
 
-function FileItem({ file, index, onRemove, onRetry }: FileItemProps) {
-  // Get file type icon
-  const getFileIcon = (type: FileType): string => {
-    switch (type) {
-      case 'image': return '🖼️';
-      case 'video': return '🎥';
-      case 'audio': return '🎵';
-      case 'document': return '📄';
-      default: return '📎';
-    }
-  };
+const STATUS_LABELS: Partial<Record<UploadStatus, string>> = {
+  queued: 'Queued',
+  paused: 'Paused',
+  retrying: 'Retrying soon'
+};
+
+function FileItem({ file, index, onRemove, onRetry, onPause, onResume, onMoveUp, onMoveDown }: FileItemProps) {
+  const isPending = ['queued', 'uploading', 'paused', 'retrying'].includes(file.status);
+  const showProgress = ['uploading', 'paused', 'retrying'].includes(file.status);
+  const statusLabel = STATUS_LABELS[file.status];
 
   return (
     <motion.div
@@ -456,29 +593,69 @@ function FileItem({ file, index, onRemove, onRetry }: FileItemProps) {
           {file.file.name}
         </h5>
         <p className="text-xs text-gray-400">
-          {(file.file.size / 1024 / 1024).toFixed(1)} MB • {file.type}
+          {showProgress
+            ? `${formatBytes(file.uploadedBytes ?? 0)} of ${formatBytes(file.file.size)}`
+            : formatBytes(file.file.size)}
+          {file.originalSize !== undefined && ` (was ${formatBytes(file.originalSize)})`} • {file.type}
+          {file.locationRemoved && ' • location removed'}
+          {statusLabel && ` • ${statusLabel}`}
+          {file.status === 'retrying' && file.attempts !== undefined && ` (attempt ${file.attempts + 1})`}
         </p>
         
         {/* Progress Bar */}
-        {file.status === 'uploading' && (
-          <div className="mt-2 w-full bg-gray-700 rounded-full h-1.5 overflow-hidden">
+        {showProgress && (
+          <div
+            className="mt-2 w-full bg-gray-700 rounded-full h-1.5 overflow-hidden"
+            role="progressbar"
+            aria-label={`${statusLabel ?? 'Uploading'} ${file.file.name}`}
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(file.progress)}
+          >
             <motion.div
               initial={{ width: 0 }}
               animate={{ width: `${file.progress}%` }}
               transition={{ duration: 0.3, ease: "easeOut" }}
-              className="h-full bg-brand rounded-full"
+              className={`h-full rounded-full ${file.status === 'uploading' ? 'bg-brand' : 'bg-gray-500'}`}
             />
           </div>
         )}
         
-        {/* Error Message */}
-        {file.error && (
+        {/* Error Message: one line per broken rule */}
+        {file.violations ? (
+          <ul className="text-xs text-danger mt-1 space-y-0.5">
+            {file.violations.map(violation => (
+              <li key={violation.rule}>{violation.message}</li>
+            ))}
+          </ul>
+        ) : file.error && (
           <p className="text-xs text-danger mt-1">{file.error}</p>
         )}
       </div>
 
       {/* Status & Actions */}
       <div className="flex items-center gap-2">
+        {(onMoveUp || onMoveDown) && (
+          <div className="flex flex-col">
+            <button
+              onClick={onMoveUp}
+              disabled={!onMoveUp}
+              className="text-xs leading-none px-1 text-gray-400 hover:text-white disabled:opacity-30 transition-colors"
+              aria-label={`Move ${file.file.name} up the queue`}
+            >
+              ▲
+            </button>
+            <button
+              onClick={onMoveDown}
+              disabled={!onMoveDown}
+              className="text-xs leading-none px-1 text-gray-400 hover:text-white disabled:opacity-30 transition-colors"
+              aria-label={`Move ${file.file.name} down the queue`}
+            >
+              ▼
+            </button>
+          </div>
+        )}
+
         {file.status === 'uploading' && (
           <motion.div
             animate={{ rotate: 360 }}
@@ -486,6 +663,35 @@ function FileItem({ file, index, onRemove, onRetry }: FileItemProps) {
             className="w-5 h-5 border-2 border-brand border-t-transparent rounded-full"
           />
         )}
+
+        {(file.status === 'uploading' || file.status === 'queued') && (
+          <button
+            onClick={onPause}
+            className="text-xs px-2 py-1 bg-white/10 text-gray-300 rounded hover:bg-white/20 transition-colors"
+            aria-label={`Pause upload of ${file.file.name}`}
+          >
+            Pause
+          </button>
+        )}
+
+        {file.status === 'paused' && (
+          <button
+            onClick={onResume}
+            className="text-xs px-2 py-1 bg-brand/20 text-brand rounded hover:bg-brand/30 transition-colors"
+            aria-label={`Resume upload of ${file.file.name}`}
+          >
+            Resume
+          </button>
+        )}
+
+        {file.status === 'retrying' && (
+          <button
+            onClick={onRetry}
+            className="text-xs px-2 py-1 bg-white/10 text-gray-300 rounded hover:bg-white/20 transition-colors"
+          >
+            Retry now
+          </button>
+        )}
         
         {file.status === 'success' && (
           <motion.div
@@ -497,7 +703,7 @@ function FileItem({ file, index, onRemove, onRetry }: FileItemProps) {
           </motion.div>
         )}
         
-        {file.status === 'error' && (
+        {file.status === 'error' && !file.violations && (
           <button
             onClick={onRetry}
             className="text-xs px-2 py-1 bg-danger/20 text-danger rounded hover:bg-danger/30 transition-colors"
@@ -509,7 +715,7 @@ function FileItem({ file, index, onRemove, onRetry }: FileItemProps) {
         <button
           onClick={onRemove}
           className="text-gray-400 hover:text-white p-1 rounded transition-colors"
-          aria-label={`Remove ${file.file.name}`}
+          aria-label={isPending ? `Cancel upload of ${file.file.name}` : `Remove ${file.file.name}`}
         >
           ✕
         </button>
@@ -0,0 +1,234 @@
+"use client";
+
+import { useState, useEffect, useMemo, useCallback, useRef } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { SPRING } from "../motion/Primitives";
+import { Shortcut } from "../../lib/shortcuts";
+import { CropRect } from "../../lib/image-pipeline";
+import { ScreenReader } from "../../lib/a11y";
+import { useShortcutLayer, useShortcuts } from "../commands/useShortcuts";
+
+export const IMAGE_CROPPER_LAYER = 'image-cropper';
+
+// Viewport edge in CSS pixels
+const VIEW_SIZE = 288;
+const MAX_ZOOM = 4;
+const PAN_STEP = 10;
+
+type View = {
+  zoom: number;
+  // Image top-left relative to the viewport, in CSS pixels
+  x: number;
+  y: number;
+};
+
+interface ImageCropperProps {
+  // The image to crop; null while closed
+  file: File | null;
+  onConfirm: (crop: CropRect) => void;
+  onCancel: () => void;
+}
+
+// Square crop step: drag or use the arrow keys to pan, scroll or +/- to zoom
+export function ImageCropper({ file, onConfirm, onCancel }: ImageCropperProps) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+  const [view, setView] = useState<View>({ zoom: 1, x: 0, y: 0 });
+  const dragRef = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+  const isOpen = file !== null;
+
+  useEffect(() => {
+    if (!file) return;
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    setNatural(null);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  // Scale that makes the short edge fill the viewport at zoom 1
+  const baseScale = natural ? VIEW_SIZE / Math.min(natural.width, natural.height) : 1;
+
+  // Keep the viewport covered by the image
+  const clampView = useCallback((next: View): View => {
+    if (!natural) return next;
+    const scale = baseScale * next.zoom;
+    return {
+      zoom: next.zoom,
+      x: Math.min(0, Math.max(VIEW_SIZE - natural.width * scale, next.x)),
+      y: Math.min(0, Math.max(VIEW_SIZE - natural.height * scale, next.y))
+    };
+  }, [natural, baseScale]);
+
+  const handleLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth: width, naturalHeight: height } = e.currentTarget;
+    const scale = VIEW_SIZE / Math.min(width, height);
+    setNatural({ width, height });
+    // Start centered
+    setView({ zoom: 1, x: (VIEW_SIZE - width * scale) / 2, y: (VIEW_SIZE - height * scale) / 2 });
+  };
+
+  // Zoom around the viewport center
+  const zoomTo = useCallback((zoom: number) => {
+    setView(current => {
+      const next = Math.min(MAX_ZOOM, Math.max(1, zoom));
+      const ratio = next / current.zoom;
+      const center = VIEW_SIZE / 2;
+      return clampView({
+        zoom: next,
+        x: center - (center - current.x) * ratio,
+        y: center - (center - current.y) * ratio
+      });
+    });
+  }, [clampView]);
+
+  const confirm = useCallback(() => {
+    if (!natural) return;
+    const scale = baseScale * view.zoom;
+    onConfirm({ x: -view.x / scale, y: -view.y / scale, width: VIEW_SIZE / scale, height: VIEW_SIZE / scale });
+  }, [natural, baseScale, view, onConfirm]);
+
+  useShortcutLayer(IMAGE_CROPPER_LAYER, isOpen);
+  useShortcuts(useMemo<Shortcut[]>(() => [{
+    id: 'image-cropper.cancel',
+    keys: 'escape',
+    description: 'Cancel crop',
+    layer: IMAGE_CROPPER_LAYER,
+    allowInInput: true,
+    handler: onCancel
+  }], [onCancel]));
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, x: view.x, y: view.y };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    setView(current => clampView({
+      zoom: current.zoom,
+      x: drag.x + e.clientX - drag.pointerX,
+      y: drag.y + e.clientY - drag.pointerY
+    }));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const step = e.shiftKey ? PAN_STEP * 5 : PAN_STEP;
+    const pan = (dx: number, dy: number) => setView(current => clampView({ ...current, x: current.x + dx, y: current.y + dy }));
+    switch (e.key) {
+      case 'ArrowLeft': pan(step, 0); break;
+      case 'ArrowRight': pan(-step, 0); break;
+      case 'ArrowUp': pan(0, step); break;
+      case 'ArrowDown': pan(0, -step); break;
+      case '+':
+      case '=': zoomTo(view.zoom + 0.25); break;
+      case '-': zoomTo(view.zoom - 0.25); break;
+      case 'Enter': confirm(); break;
+      default: return;
+    }
+    e.preventDefault();
+  };
+
+  useEffect(() => {
+    if (isOpen) ScreenReader.announce('Crop image to a square. Arrow keys move, plus and minus zoom, Enter confirms.', 'polite');
+  }, [isOpen]);
+
+  const scale = baseScale * view.zoom;
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onCancel}
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[60]"
+          />
+
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            transition={SPRING}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="image-cropper-title"
+            className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-[70] px-4"
+          >
+            <div className="bg-surface/95 backdrop-blur-xl border border-white/20 rounded-2xl shadow-2xl overflow-hidden">
+              <div className="p-4 border-b border-white/10">
+                <h2 id="image-cropper-title" className="text-lg font-semibold text-white">Crop Image</h2>
+                <p className="text-xs text-gray-500 truncate max-w-[288px]">{file.name}</p>
+              </div>
+
+              <div className="p-4 space-y-4">
+                <div
+                  className="relative overflow-hidden rounded-xl bg-black cursor-grab active:cursor-grabbing touch-none focus:outline-none focus:ring-2 focus:ring-brand"
+                  style={{ width: VIEW_SIZE, height: VIEW_SIZE }}
+                  tabIndex={0}
+                  autoFocus
+                  role="application"
+                  aria-label="Crop area. Arrow keys move the image, plus and minus zoom."
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={() => { dragRef.current = null; }}
+                  onPointerCancel={() => { dragRef.current = null; }}
+                  onWheel={(e) => zoomTo(view.zoom - e.deltaY * 0.002)}
+                  onKeyDown={handleKeyDown}
+                >
+                  {url && (
+                    <img
+                      src={url}
+                      alt=""
+                      draggable={false}
+                      onLoad={handleLoad}
+                      className="absolute top-0 left-0 max-w-none select-none"
+                      style={natural ? {
+                        width: natural.width * scale,
+                        height: natural.height * scale,
+                        transform: `translate(${view.x}px, ${view.y}px)`
+                      } : { opacity: 0 }}
+                    />
+                  )}
+                  {/* Circle guide: avatars are often shown round */}
+                  <div className="absolute inset-0 pointer-events-none rounded-full ring-[999px] ring-black/40 border border-white/40" />
+                </div>
+
+                <label className="flex items-center gap-3 text-xs text-gray-400">
+                  Zoom
+                  <input
+                    type="range"
+                    min={1}
+                    max={MAX_ZOOM}
+                    step={0.05}
+                    value={view.zoom}
+                    onChange={(e) => zoomTo(Number(e.target.value))}
+                    className="flex-1 accent-brand"
+                  />
+                </label>
+              </div>
+
+              <div className="p-4 bg-white/5 border-t border-white/10 flex justify-end gap-2">
+                <button
+                  onClick={onCancel}
+                  className="px-3 py-2 text-sm text-gray-400 hover:text-white rounded-lg hover:bg-white/10 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={confirm}
+                  disabled={!natural}
+                  className="px-3 py-2 text-sm bg-brand text-white rounded-lg hover:bg-brand/80 transition-colors disabled:opacity-50"
+                >
+                  Crop
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,11 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { QueueSnapshot, UploadQueue } from "../../lib/upload-queue";
+
+/** Items and aggregate progress of a queue, restoring what an earlier page load left unfinished */
+export function useUploadQueue(queue: UploadQueue): QueueSnapshot {
+  useEffect(() => {
+    queue.restore();
+  }, [queue]);
+
+  return useSyncExternalStore(queue.subscribe, queue.getSnapshot, queue.getSnapshot);
+}
@@ -10,6 +10,11 @@ export const ARIA_LABELS = {
   otpCell: (index: number, value: string, total: number) =>
     `Digit ${index + 1} of ${total}${value ? `: ${value}` : ', empty'}`,
   
+  // Identity Board
+  identityBoard: 'Identity board with draggable cards',
+  boardCard: (title: string) =>
+    `${title} card. Drag or use arrow keys to move, hold Shift for larger steps.`,
+  
   // General
   loading: 'Loading content',
   error: 'Error occurred',
@@ -111,7 +116,9 @@ export const KEYS = {
   ARROW_RIGHT: 'ArrowRight',
   TAB: 'Tab',
   HOME: 'Home',
-  END: 'End'
+  END: 'End',
+  PAGE_UP: 'PageUp',
+  PAGE_DOWN: 'PageDown'
 } as const
 
 export function handleKeyboardNavigation(
@@ -126,6 +133,8 @@ export function handleKeyboardNavigation(
     onArrowRight?: () => void
     onHome?: () => void
     onEnd?: () => void
+    onPageUp?: () => void
+    onPageDown?: () => void
     preventDefault?: boolean
   }
 ) {
@@ -186,6 +195,18 @@ export function handleKeyboardNavigation(
         options.onEnd()
       }
       break
+    case KEYS.PAGE_UP:
+      if (options.onPageUp) {
+        if (preventDefault) event.preventDefault()
+        options.onPageUp()
+      }
+      break
+    case KEYS.PAGE_DOWN:
+      if (options.onPageDown) {
+        if (preventDefault) event.preventDefault()
+        options.onPageDown()
+      }
+      break
   }
 }
 
@@ -0,0 +1,171 @@
+// Global command registry with scopes, enablement and keybindings (including chords like `g d`)
+import { SearchProvider, SearchResult, createStaticProvider } from './search'
+import { ShortcutManager, formatKeybinding, isEditableTarget, shortcutManager } from './shortcuts'
+
+export type CommandCategory = 'navigation' | 'create' | 'edit' | 'view' | 'system'
+
+export const GLOBAL_SCOPE = 'global'
+
+export interface Command {
+  id: string
+  title: string
+  subtitle?: string
+  description?: string
+  icon: string
+  category: CommandCategory
+  // Commands outside the global scope only apply while their scope is active
+  scope?: string
+  // Default keys, in shortcut manager syntax (`mod+k`, `g d`); users can remap them
+  keybinding?: string
+  // Leave the keybinding to text fields, e.g. so mod+z still undoes typing there
+  yieldToInputs?: boolean
+  // Enablement condition, checked whenever the command could run
+  when?: () => boolean
+  run: () => void | Promise<void>
+}
+
+export class CommandRegistry {
+  private commands = new Map<string, Command>()
+  private scopes = new Map<string, number>([[GLOBAL_SCOPE, 1]])
+  private listeners = new Set<() => void>()
+  private snapshot: Command[] = []
+
+  /** Add commands; returns a function that removes exactly these registrations */
+  register(commands: Command | Command[]): () => void {
+    const list = Array.isArray(commands) ? commands : [commands]
+    list.forEach(command => this.commands.set(command.id, command))
+    this.emit()
+
+    return () => {
+      list.forEach(command => {
+        if (this.commands.get(command.id) === command) this.commands.delete(command.id)
+      })
+      this.emit()
+    }
+  }
+
+  /** Mark a scope active; scopes are reference counted so nested users can overlap */
+  activateScope(scope: string): () => void {
+    this.scopes.set(scope, (this.scopes.get(scope) ?? 0) + 1)
+    this.emit()
+
+    let released = false
+    return () => {
+      if (released) return
+      released = true
+      const count = (this.scopes.get(scope) ?? 1) - 1
+      if (count > 0) this.scopes.set(scope, count)
+      else this.scopes.delete(scope)
+      this.emit()
+    }
+  }
+
+  get(id: string): Command | undefined {
+    return this.commands.get(id)
+  }
+
+  isEnabled(command: Command): boolean {
+    if (!this.scopes.has(command.scope ?? GLOBAL_SCOPE)) return false
+    try {
+      return command.when?.() ?? true
+    } catch {
+      return false
+    }
+  }
+
+  /** Registered commands in registration order; stable between changes */
+  list(): Command[] {
+    return this.snapshot
+  }
+
+  enabled(): Command[] {
+    return this.snapshot.filter(command => this.isEnabled(command))
+  }
+
+  /** Run a command if it exists and is enabled */
+  run(id: string): boolean {
+    const command = this.commands.get(id)
+    if (!command || !this.isEnabled(command)) return false
+    Promise.resolve(command.run()).catch(error => {
+      console.error(`Command "${id}" failed`, error)
+    })
+    return true
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getSnapshot = (): Command[] => this.snapshot
+
+  private emit() {
+    this.snapshot = Array.from(this.commands.values())
+    this.listeners.forEach(listener => listener())
+  }
+}
+
+export const commandRegistry = new CommandRegistry()
+
+const CATEGORY_LABELS: Record<CommandCategory, string> = {
+  navigation: 'Navigation',
+  create: 'Create',
+  edit: 'Edit',
+  view: 'View',
+  system: 'General'
+}
+
+/** Mirror command keybindings into the shortcut manager, following registrations and scopes */
+export function bindCommandShortcuts(
+  registry: CommandRegistry = commandRegistry,
+  manager: ShortcutManager = shortcutManager
+): () => void {
+  let unregister = () => {}
+
+  const sync = () => {
+    unregister()
+    unregister = manager.register(registry.list()
+      .filter(command => command.keybinding)
+      .map(command => ({
+        id: command.id,
+        keys: command.keybinding!,
+        description: command.title,
+        group: CATEGORY_LABELS[command.category],
+        when: () => registry.isEnabled(command),
+        handler: (event: KeyboardEvent) => {
+          if (command.yieldToInputs && isEditableTarget(event.target)) return false
+          registry.run(command.id)
+        }
+      })))
+  }
+
+  sync()
+  const unsubscribe = registry.subscribe(sync)
+  return () => {
+    unsubscribe()
+    unregister()
+  }
+}
+
+function toSearchResult(command: Command): SearchResult {
+  const keybinding = shortcutManager.bindingFor(command.id) ?? command.keybinding
+  return {
+    id: command.id,
+    type: 'action',
+    title: command.title,
+    subtitle: keybinding
+      ? `${command.subtitle ?? command.category} • ${formatKeybinding(keybinding)}`
+      : command.subtitle,
+    description: command.description,
+    icon: command.icon,
+    tags: [command.category],
+    score: 1
+  }
+}
+
+/** Fuzzy-searchable view of the currently enabled commands */
+export function createCommandProvider(registry: CommandRegistry = commandRegistry): SearchProvider {
+  return createStaticProvider('commands', ['action'], () => registry.enabled().map(toSearchResult))
+}
@@ -0,0 +1,37 @@
+// Date steps for moving around a calendar grid with the keyboard
+const MAX_SEARCH_DAYS = 366
+
+export function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+}
+
+/** Same day in another month, clamped so Jan 31 plus a month is the last day of February */
+export function addMonths(date: Date, months: number): Date {
+  const lastDay = new Date(date.getFullYear(), date.getMonth() + months + 1, 0).getDate()
+  return new Date(date.getFullYear(), date.getMonth() + months, Math.min(date.getDate(), lastDay))
+}
+
+// Weeks start on Sunday, like the grid's columns
+export function startOfWeek(date: Date): Date {
+  return addDays(date, -date.getDay())
+}
+
+export function endOfWeek(date: Date): Date {
+  return addDays(date, 6 - date.getDay())
+}
+
+/**
+ * The first date from `date` onwards, a day at a time in `direction`, that is not disabled.
+ * Null when there is none within a year, e.g. past the last selectable date.
+ */
+export function nearestEnabledDate(date: Date, direction: 1 | -1, isDisabled: (date: Date) => boolean): Date | null {
+  for (let i = 0; i <= MAX_SEARCH_DAYS; i++) {
+    const candidate = addDays(date, i * direction)
+    if (!isDisabled(candidate)) return candidate
+  }
+  return null
+}
@@ -0,0 +1,341 @@
+// Export pipeline for FLUX//ID - renders page regions to PNG and multi-page PDF
+import type { Persona, Profile } from './store'
+
+export type ExportPhase = 'idle' | 'capturing' | 'composing' | 'saving' | 'done' | 'cancelled' | 'error'
+
+export type ExportProgress = {
+  phase: ExportPhase
+  // 0..1 across the whole job
+  progress: number
+  message: string
+}
+
+export type CaptureOptions = {
+  dpi?: number
+  backgroundColor?: string | null
+  signal?: AbortSignal
+}
+
+export type PdfExportOptions = CaptureOptions & {
+  profile: Profile
+  persona: Persona
+  filename?: string
+  onProgress?: (progress: ExportProgress) => void
+}
+
+export type PngExportOptions = CaptureOptions & {
+  filename?: string
+  onProgress?: (progress: ExportProgress) => void
+}
+
+// CSS pixels are defined at 96 DPI
+const CSS_DPI = 96
+export const DEFAULT_EXPORT_DPI = 192
+
+// A4 portrait in PDF points
+const PAGE_WIDTH = 595.28
+const PAGE_HEIGHT = 841.89
+const PAGE_MARGIN = 36
+
+// Attribute used to mark exportable regions inside a container
+export const EXPORT_REGION_ATTR = 'data-export-region'
+
+export class ExportCancelledError extends Error {
+  constructor() {
+    super('Export cancelled')
+    this.name = 'ExportCancelledError'
+  }
+}
+
+export class ExportError extends Error {
+  constructor(message: string, readonly cause?: unknown) {
+    super(message)
+    this.name = 'ExportError'
+  }
+}
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw new ExportCancelledError()
+}
+
+function isCrossOrigin(src: string): boolean {
+  try {
+    return new URL(src, window.location.href).origin !== window.location.origin
+  } catch {
+    return false
+  }
+}
+
+// Swap cross-origin images for neutral placeholders so the canvas stays untainted
+function replaceCrossOriginImages(doc: Document) {
+  doc.querySelectorAll('img').forEach((img) => {
+    if (!img.src || img.src.startsWith('data:') || !isCrossOrigin(img.src)) return
+
+    const placeholder = doc.createElement('div')
+    const rect = img.getBoundingClientRect()
+    placeholder.style.width = `${rect.width || img.width}px`
+    placeholder.style.height = `${rect.height || img.height}px`
+    placeholder.style.borderRadius = getComputedStyle(img).borderRadius
+    placeholder.style.background = 'linear-gradient(135deg, #7C3AED, #06B6D4)'
+    placeholder.setAttribute('aria-hidden', 'true')
+    img.replaceWith(placeholder)
+  })
+}
+
+// html2canvas 1.x throws on the color functions Tailwind v4 emits, so clones get them as rgb()
+const MODERN_COLOR = /\b(?:oklch|oklab|lab|lch|color-mix|color)\(/
+const COLOR_PROPERTIES = [
+  'color',
+  'background-color',
+  'background-image',
+  'border-top-color',
+  'border-right-color',
+  'border-bottom-color',
+  'border-left-color',
+  'outline-color',
+  'text-decoration-color',
+  'box-shadow',
+  'text-shadow',
+  'fill',
+  'stroke'
+]
+
+// Let the browser resolve the color by painting one pixel with it
+function toRgb(color: string, context: CanvasRenderingContext2D): string {
+  context.clearRect(0, 0, 1, 1)
+  context.fillStyle = '#000'
+  context.fillStyle = color
+  context.fillRect(0, 0, 1, 1)
+  const [r, g, b, a] = context.getImageData(0, 0, 1, 1).data
+  return a === 255 ? `rgb(${r}, ${g}, ${b})` : `rgba(${r}, ${g}, ${b}, ${Number((a / 255).toFixed(3))})`
+}
+
+// Replace every modern color function in a value, keeping the rest (offsets, gradient stops) as is
+function rewriteColors(value: string, context: CanvasRenderingContext2D): string {
+  let result = ''
+  let rest = value
+  let match: RegExpExecArray | null
+  while ((match = MODERN_COLOR.exec(rest))) {
+    let depth = 0
+    let end = match.index + match[0].length - 1
+    do {
+      if (rest[end] === '(') depth++
+      else if (rest[end] === ')') depth--
+      end++
+    } while (depth > 0 && end < rest.length)
+    result += rest.slice(0, match.index) + toRgb(rest.slice(match.index, end), context)
+    rest = rest.slice(end)
+  }
+  // Gradient color-space hints (`to right in oklab, …`) are not understood either
+  return (result + rest)
+    .replace(/\(\s*in\s+[\w-]+(?:\s+\w+\s+hue)?\s*,/g, '(')
+    .replace(/\s+in\s+[\w-]+(?:\s+\w+\s+hue)?(?=\s*,)/g, '')
+}
+
+function inlineLegacyColors(doc: Document, root: HTMLElement) {
+  const view = doc.defaultView
+  const context = doc.createElement('canvas').getContext('2d', { willReadFrequently: true })
+  if (!view || !context) return
+
+  const elements = [root, ...Array.from(root.querySelectorAll<HTMLElement>('*'))]
+  elements.forEach((element) => {
+    const style = view.getComputedStyle(element)
+    COLOR_PROPERTIES.forEach((property) => {
+      const value = style.getPropertyValue(property)
+      if (MODERN_COLOR.test(value) || /\bin\s+ok(?:lab|lch)\b/.test(value)) {
+        element.style.setProperty(property, rewriteColors(value, context), 'important')
+      }
+    })
+  })
+}
+
+// Reading pixels throws on a tainted canvas, which is how cross-origin failures surface
+function assertReadable(canvas: HTMLCanvasElement) {
+  canvas.getContext('2d')?.getImageData(0, 0, 1, 1)
+}
+
+/**
+ * Render a DOM region to a canvas at the requested DPI.
+ * Falls back to placeholder images when cross-origin content taints the capture.
+ */
+export async function captureRegion(
+  element: HTMLElement,
+  { dpi = DEFAULT_EXPORT_DPI, backgroundColor = '#0B1020', signal }: CaptureOptions = {}
+): Promise<HTMLCanvasElement> {
+  throwIfAborted(signal)
+  const { default: html2canvas } = await import('html2canvas')
+  const baseOptions = {
+    scale: dpi / CSS_DPI,
+    backgroundColor,
+    logging: false
+  }
+
+  try {
+    const canvas = await html2canvas(element, {
+      ...baseOptions,
+      useCORS: true,
+      onclone: (doc, clone) => inlineLegacyColors(doc, clone)
+    })
+    assertReadable(canvas)
+    throwIfAborted(signal)
+    return canvas
+  } catch (error) {
+    if (error instanceof ExportCancelledError) throw error
+  }
+
+  throwIfAborted(signal)
+  try {
+    const canvas = await html2canvas(element, {
+      ...baseOptions,
+      onclone: (doc, clone) => {
+        replaceCrossOriginImages(doc)
+        inlineLegacyColors(doc, clone)
+      }
+    })
+    assertReadable(canvas)
+    throwIfAborted(signal)
+    return canvas
+  } catch (error) {
+    if (error instanceof ExportCancelledError) throw error
+    throw new ExportError('Could not capture region', error)
+  }
+}
+
+/** Collect marked regions inside a container, or the container itself when none are marked */
+export function collectRegions(root: HTMLElement): HTMLElement[] {
+  const regions = Array.from(root.querySelectorAll<HTMLElement>(`[${EXPORT_REGION_ATTR}]`))
+  return regions.length > 0 ? regions : [root]
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) resolve(blob)
+      else reject(new ExportError('Could not encode PNG'))
+    }, 'image/png')
+  })
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+/** Export a single region as a PNG download */
+export async function exportPng(
+  element: HTMLElement,
+  { filename = 'flux-id.png', onProgress, ...options }: PngExportOptions = {}
+): Promise<Blob> {
+  onProgress?.({ phase: 'capturing', progress: 0.1, message: 'Capturing region' })
+  const canvas = await captureRegion(element, options)
+
+  onProgress?.({ phase: 'saving', progress: 0.8, message: 'Encoding PNG' })
+  const blob = await canvasToBlob(canvas)
+  throwIfAborted(options.signal)
+
+  downloadBlob(blob, filename)
+  onProgress?.({ phase: 'done', progress: 1, message: 'PNG exported' })
+  return blob
+}
+
+type PdfDocument = InstanceType<typeof import('jspdf').jsPDF>
+
+function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace('#', ''), 16)
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+}
+
+function drawCoverPage(pdf: PdfDocument, profile: Profile, persona: Persona) {
+  pdf.setFillColor(...hexToRgb('#0B1020'))
+  pdf.rect(0, 0, PAGE_WIDTH, PAGE_HEIGHT, 'F')
+
+  pdf.setTextColor(...hexToRgb('#7C3AED'))
+  pdf.setFontSize(14)
+  pdf.text('FLUX//ID', PAGE_MARGIN, PAGE_MARGIN + 14)
+
+  pdf.setTextColor(255, 255, 255)
+  pdf.setFontSize(32)
+  pdf.text(profile.name || 'Untitled Identity', PAGE_MARGIN, 240)
+
+  pdf.setTextColor(...hexToRgb('#8E8EA0'))
+  pdf.setFontSize(16)
+  if (profile.role) pdf.text(profile.role, PAGE_MARGIN, 270)
+  pdf.text(`Persona: ${persona.mode}`, PAGE_MARGIN, 300)
+
+  // Persona palette swatches
+  persona.colors.forEach((color, index) => {
+    pdf.setFillColor(...hexToRgb(color))
+    pdf.circle(PAGE_MARGIN + 12 + index * 32, 336, 12, 'F')
+  })
+
+  pdf.setFontSize(11)
+  profile.links.forEach((link, index) => {
+    pdf.setTextColor(...hexToRgb('#06B6D4'))
+    pdf.text(link, PAGE_MARGIN, 384 + index * 16)
+  })
+
+  pdf.setTextColor(...hexToRgb('#8E8EA0'))
+  pdf.text(`Exported ${new Date().toLocaleDateString()}`, PAGE_MARGIN, PAGE_HEIGHT - PAGE_MARGIN)
+}
+
+// Place a canvas on as many pages as it needs at the full content width
+function addCanvasPages(pdf: PdfDocument, canvas: HTMLCanvasElement) {
+  const contentWidth = PAGE_WIDTH - PAGE_MARGIN * 2
+  const contentHeight = PAGE_HEIGHT - PAGE_MARGIN * 2
+  const ratio = contentWidth / canvas.width
+  const sliceHeight = Math.floor(contentHeight / ratio)
+
+  for (let offset = 0; offset < canvas.height; offset += sliceHeight) {
+    const height = Math.min(sliceHeight, canvas.height - offset)
+    const slice = document.createElement('canvas')
+    slice.width = canvas.width
+    slice.height = height
+    slice.getContext('2d')?.drawImage(canvas, 0, offset, canvas.width, height, 0, 0, canvas.width, height)
+
+    pdf.addPage()
+    pdf.addImage(slice.toDataURL('image/png'), 'PNG', PAGE_MARGIN, PAGE_MARGIN, contentWidth, height * ratio)
+  }
+}
+
+/** Export several regions into one paginated PDF with a profile cover page */
+export async function exportPdf(
+  regions: HTMLElement[],
+  { profile, persona, filename = 'flux-id.pdf', onProgress, ...options }: PdfExportOptions
+): Promise<Blob> {
+  const { jsPDF } = await import('jspdf')
+  throwIfAborted(options.signal)
+
+  const pdf = new jsPDF({ unit: 'pt', format: 'a4', orientation: 'portrait' })
+  drawCoverPage(pdf, profile, persona)
+
+  for (let i = 0; i < regions.length; i++) {
+    onProgress?.({
+      phase: 'capturing',
+      progress: (i / regions.length) * 0.8,
+      message: `Capturing region ${i + 1} of ${regions.length}`
+    })
+    const canvas = await captureRegion(regions[i], options)
+
+    onProgress?.({
+      phase: 'composing',
+      progress: ((i + 1) / regions.length) * 0.8,
+      message: `Adding region ${i + 1} to PDF`
+    })
+    addCanvasPages(pdf, canvas)
+    throwIfAborted(options.signal)
+  }
+
+  onProgress?.({ phase: 'saving', progress: 0.9, message: 'Saving PDF' })
+  const blob = pdf.output('blob')
+  throwIfAborted(options.signal)
+
+  downloadBlob(blob, filename)
+  onProgress?.({ phase: 'done', progress: 1, message: 'PDF exported' })
+  return blob
+}
@@ -0,0 +1,45 @@
+// What a previewer can show for a file, and the bits of parsing that needs
+import { fileExtension } from './file-validation'
+import { languageFor } from './syntax-highlight'
+
+export type PreviewKind = 'image' | 'text' | 'audio' | 'video' | 'pdf' | 'none'
+
+// Larger text files are cut off; highlighting every line of a log dump helps nobody
+export const MAX_TEXT_PREVIEW_BYTES = 256 * 1024
+export const MAX_TEXT_PREVIEW_LINES = 2000
+
+const TEXT_EXTENSIONS = ['.txt', '.log', '.csv', '.tsv', '.ini', '.env', '.conf', '.sh']
+const TEXT_MIMES = ['application/json', 'application/xml', 'application/javascript', 'application/x-yaml']
+
+// Formats browsers decode natively; others (e.g. HEIC) fall back to the thumbnail
+const IMAGE_MIMES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/bmp', 'image/svg+xml', 'image/avif']
+
+export function previewKindOf(mimeType: string, name: string): PreviewKind {
+  if (IMAGE_MIMES.includes(mimeType)) return 'image'
+  if (mimeType === 'application/pdf') return 'pdf'
+  if (mimeType.startsWith('audio/')) return 'audio'
+  if (mimeType.startsWith('video/')) return 'video'
+  if (
+    mimeType.startsWith('text/') ||
+    TEXT_MIMES.includes(mimeType) ||
+    TEXT_EXTENSIONS.includes(fileExtension(name)) ||
+    languageFor(name) !== 'plain'
+  ) {
+    return 'text'
+  }
+  return 'none'
+}
+
+/**
+ * Page count from the page tree's /Count, or by counting /Type /Page objects. Null when the
+ * tree is hidden in compressed object streams; callers then page without an upper bound.
+ */
+export function countPdfPages(bytes: Uint8Array): number | null {
+  const text = new TextDecoder('latin1').decode(bytes)
+  let count = 0
+  for (const match of text.matchAll(/\/Type\s*\/Pages\b[^>]*?\/Count\s+(\d+)|\/Count\s+(\d+)[^>]*?\/Type\s*\/Pages\b/g)) {
+    count = Math.max(count, Number(match[1] ?? match[2]))
+  }
+  if (count === 0) count = text.match(/\/Type\s*\/Page\b(?!s)/g)?.length ?? 0
+  return count > 0 ? count : null
+}
@@ -0,0 +1,399 @@
+// Content-based file type detection and declarative upload policies
+
+export type FileCategory = 'image' | 'document' | 'video' | 'audio' | 'archive' | 'design' | 'other'
+
+export type DetectedType = {
+  id: string
+  label: string
+  // Canonical MIME first; `text/*` style wildcards allowed
+  mimes: string[]
+  extensions: string[]
+  category: FileCategory
+  // Formats built on another one (e.g. .docx on ZIP) also pass as that format
+  container?: DetectedType
+}
+
+export type ImageDimensions = {
+  width: number
+  height: number
+}
+
+export type FileInspection = {
+  file: File
+  extension: string
+  detected: DetectedType | null
+  dimensions: ImageDimensions | null
+}
+
+export type ImagePolicy = {
+  minWidth?: number
+  minHeight?: number
+  maxWidth?: number
+  maxHeight?: number
+}
+
+export type UploadPolicy = {
+  // Allowed extensions, e.g. ['.png', '.pdf']; omit to allow any
+  accept?: string[]
+  // Bytes, per file
+  maxFileSize?: number
+  maxSizeByCategory?: Partial<Record<FileCategory, number>>
+  // Bytes across every file in the upload list
+  maxTotalSize?: number
+  image?: ImagePolicy
+  // Reject files whose contents disagree with their name or declared MIME type
+  requireContentMatch?: boolean
+}
+
+export type RuleViolation = {
+  rule: string
+  message: string
+}
+
+export type ValidationContext = {
+  policy: UploadPolicy
+  // Bytes already used by earlier files, for the total-size rule
+  usedBytes: number
+}
+
+export interface ValidationRule {
+  id: string
+  validate(inspection: FileInspection, context: ValidationContext): string | null
+}
+
+// Enough for every signature and for image headers that carry dimensions
+const HEAD_BYTES = 64 * 1024
+
+// BITMAPCOREHEADER, BITMAPINFOHEADER, BITMAPV4HEADER and BITMAPV5HEADER
+const BMP_HEADER_SIZES = [12, 40, 108, 124]
+
+const TEXT_EXTENSIONS = ['.txt', '.md', '.csv', '.json', '.xml', '.html', '.css', '.js', '.ts', '.tsx', '.jsx', '.yml', '.yaml', '.log']
+
+const ZIP: DetectedType = { id: 'zip', label: 'ZIP archive', mimes: ['application/zip', 'application/x-zip-compressed'], extensions: ['.zip'], category: 'archive' }
+
+const TYPES = {
+  png: { id: 'png', label: 'PNG image', mimes: ['image/png'], extensions: ['.png'], category: 'image' },
+  jpeg: { id: 'jpeg', label: 'JPEG image', mimes: ['image/jpeg', 'image/jpg', 'image/pjpeg'], extensions: ['.jpg', '.jpeg'], category: 'image' },
+  gif: { id: 'gif', label: 'GIF image', mimes: ['image/gif'], extensions: ['.gif'], category: 'image' },
+  webp: { id: 'webp', label: 'WebP image', mimes: ['image/webp'], extensions: ['.webp'], category: 'image' },
+  bmp: { id: 'bmp', label: 'BMP image', mimes: ['image/bmp', 'image/x-ms-bmp'], extensions: ['.bmp'], category: 'image' },
+  heic: { id: 'heic', label: 'HEIC image', mimes: ['image/heic', 'image/heif'], extensions: ['.heic', '.heif'], category: 'image' },
+  svg: { id: 'svg', label: 'SVG image', mimes: ['image/svg+xml'], extensions: ['.svg'], category: 'image' },
+  pdf: { id: 'pdf', label: 'PDF document', mimes: ['application/pdf'], extensions: ['.pdf'], category: 'document' },
+  docx: { id: 'docx', label: 'Word document', mimes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'], extensions: ['.docx'], category: 'document', container: ZIP },
+  xlsx: { id: 'xlsx', label: 'Excel workbook', mimes: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'], extensions: ['.xlsx'], category: 'document', container: ZIP },
+  pptx: { id: 'pptx', label: 'PowerPoint presentation', mimes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'], extensions: ['.pptx'], category: 'document', container: ZIP },
+  office: { id: 'office', label: 'Office 97-2003 document', mimes: ['application/msword', 'application/vnd.ms-excel', 'application/vnd.ms-powerpoint'], extensions: ['.doc', '.xls', '.ppt'], category: 'document' },
+  figma: { id: 'figma', label: 'Figma file', mimes: ['application/octet-stream', 'application/x-figma'], extensions: ['.fig'], category: 'design' },
+  zip: ZIP,
+  gzip: { id: 'gzip', label: 'Gzip archive', mimes: ['application/gzip', 'application/x-gzip'], extensions: ['.gz', '.tgz'], category: 'archive' },
+  mp4: { id: 'mp4', label: 'MP4 video', mimes: ['video/mp4'], extensions: ['.mp4', '.m4v'], category: 'video' },
+  mov: { id: 'mov', label: 'QuickTime video', mimes: ['video/quicktime'], extensions: ['.mov'], category: 'video' },
+  webm: { id: 'webm', label: 'WebM video', mimes: ['video/webm', 'video/x-matroska'], extensions: ['.webm', '.mkv'], category: 'video' },
+  m4a: { id: 'm4a', label: 'AAC audio', mimes: ['audio/mp4', 'audio/x-m4a', 'audio/aac'], extensions: ['.m4a'], category: 'audio' },
+  mp3: { id: 'mp3', label: 'MP3 audio', mimes: ['audio/mpeg', 'audio/mp3'], extensions: ['.mp3'], category: 'audio' },
+  wav: { id: 'wav', label: 'WAV audio', mimes: ['audio/wav', 'audio/x-wav', 'audio/wave'], extensions: ['.wav'], category: 'audio' },
+  ogg: { id: 'ogg', label: 'Ogg audio', mimes: ['audio/ogg', 'video/ogg', 'application/ogg'], extensions: ['.ogg', '.oga', '.ogv'], category: 'audio' },
+  flac: { id: 'flac', label: 'FLAC audio', mimes: ['audio/flac', 'audio/x-flac'], extensions: ['.flac'], category: 'audio' },
+  text: {
+    id: 'text',
+    label: 'text',
+    mimes: ['text/*', 'application/json', 'application/xml', 'application/javascript', 'application/x-javascript', 'application/typescript', 'application/x-yaml'],
+    extensions: TEXT_EXTENSIONS,
+    category: 'document'
+  }
+} satisfies Record<string, DetectedType>
+
+// Extensions whose contents must carry a recognizable signature
+const BINARY_EXTENSIONS = new Set(
+  Object.values(TYPES).filter(type => type.id !== 'text' && type.id !== 'svg').flatMap(type => type.extensions)
+)
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+  return signature.every((byte, i) => bytes[offset + i] === byte)
+}
+
+function ascii(bytes: Uint8Array, start: number, end: number): string {
+  return String.fromCharCode(...bytes.subarray(start, end))
+}
+
+function asText(bytes: Uint8Array): string | null {
+  if (bytes.includes(0)) return null
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+  } catch {
+    // A multi-byte character cut off at the end of the sample is still text
+    try {
+      return new TextDecoder('utf-8', { fatal: true }).decode(bytes.subarray(0, Math.max(0, bytes.length - 3)))
+    } catch {
+      return null
+    }
+  }
+}
+
+// "BM" alone starts plenty of text; a real bitmap also records its own length and a known header size
+function isBmp(bytes: Uint8Array, fileSize: number): boolean {
+  if (ascii(bytes, 0, 2) !== 'BM' || bytes.length <= 26) return false
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  return view.getUint32(2, true) === fileSize && BMP_HEADER_SIZES.includes(view.getUint32(14, true))
+}
+
+/** Identify a file from its first bytes and its full size; null when the format is unknown */
+export function sniffFileType(bytes: Uint8Array, fileSize = bytes.length): DetectedType | null {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return TYPES.png
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return TYPES.jpeg
+  if (ascii(bytes, 0, 4) === 'GIF8') return TYPES.gif
+  if (ascii(bytes, 0, 4) === 'RIFF') {
+    const format = ascii(bytes, 8, 12)
+    if (format === 'WEBP') return TYPES.webp
+    if (format === 'WAVE') return TYPES.wav
+  }
+  if (ascii(bytes, 0, 5) === '%PDF-') return TYPES.pdf
+  if (ascii(bytes, 0, 8) === 'fig-kiwi') return TYPES.figma
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04]) || startsWith(bytes, [0x50, 0x4b, 0x05, 0x06])) {
+    // Office and Figma files are ZIP containers; their first entries give them away
+    const names = ascii(bytes, 0, Math.min(bytes.length, 4096))
+    if (names.includes('canvas.fig')) return { ...TYPES.figma, container: ZIP }
+    if (names.includes('word/')) return TYPES.docx
+    if (names.includes('xl/')) return TYPES.xlsx
+    if (names.includes('ppt/')) return TYPES.pptx
+    return TYPES.zip
+  }
+  if (startsWith(bytes, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return TYPES.office
+  if (startsWith(bytes, [0x1f, 0x8b])) return TYPES.gzip
+  if (ascii(bytes, 4, 8) === 'ftyp') {
+    const brand = ascii(bytes, 8, 12)
+    if (brand === 'qt  ') return TYPES.mov
+    if (brand.startsWith('M4A')) return TYPES.m4a
+    if (['heic', 'heix', 'mif1', 'msf1'].includes(brand)) return TYPES.heic
+    return TYPES.mp4
+  }
+  if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) return TYPES.webm
+  if (ascii(bytes, 0, 4) === 'OggS') return TYPES.ogg
+  if (ascii(bytes, 0, 4) === 'fLaC') return TYPES.flac
+  if (ascii(bytes, 0, 3) === 'ID3' || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0)) return TYPES.mp3
+  if (isBmp(bytes, fileSize)) return TYPES.bmp
+
+  const text = asText(bytes)
+  if (text !== null) {
+    return /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<svg[\s>]/i.test(text) ? TYPES.svg : TYPES.text
+  }
+  return null
+}
+
+function uint16(bytes: Uint8Array, offset: number, littleEndian: boolean): number {
+  return littleEndian
+    ? bytes[offset] | (bytes[offset + 1] << 8)
+    : (bytes[offset] << 8) | bytes[offset + 1]
+}
+
+function uint32BE(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) >>> 0) + (bytes[offset + 1] << 16) + (bytes[offset + 2] << 8) + bytes[offset + 3]
+}
+
+function jpegDimensions(bytes: Uint8Array): ImageDimensions | null {
+  let i = 2
+  while (i + 9 < bytes.length) {
+    if (bytes[i] !== 0xff) return null
+    const marker = bytes[i + 1]
+    // Padding before a marker
+    if (marker === 0xff) {
+      i++
+      continue
+    }
+    // Start-of-frame markers, excluding DHT, JPG and DAC
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      return { height: uint16(bytes, i + 5, false), width: uint16(bytes, i + 7, false) }
+    }
+    i += 2 + uint16(bytes, i + 2, false)
+  }
+  return null
+}
+
+function webpDimensions(bytes: Uint8Array): ImageDimensions | null {
+  const chunk = ascii(bytes, 12, 16)
+  if (chunk === 'VP8 ') {
+    return { width: uint16(bytes, 26, true) & 0x3fff, height: uint16(bytes, 28, true) & 0x3fff }
+  }
+  if (chunk === 'VP8L') {
+    const [b0, b1, b2, b3] = bytes.subarray(21, 25)
+    return { width: 1 + (((b1 & 0x3f) << 8) | b0), height: 1 + (((b3 & 0x0f) << 10) | (b2 << 2) | ((b1 & 0xc0) >> 6)) }
+  }
+  if (chunk === 'VP8X') {
+    return {
+      width: 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16)),
+      height: 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16))
+    }
+  }
+  return null
+}
+
+/** Pixel size from the image header alone; null when the header doesn't say or isn't in `bytes` */
+export function readImageDimensions(bytes: Uint8Array, type: DetectedType | null): ImageDimensions | null {
+  switch (type?.id) {
+    case 'png':
+      return bytes.length >= 24 ? { width: uint32BE(bytes, 16), height: uint32BE(bytes, 20) } : null
+    case 'gif':
+      return bytes.length >= 10 ? { width: uint16(bytes, 6, true), height: uint16(bytes, 8, true) } : null
+    case 'bmp': {
+      const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+      // The old core header stores unsigned 16-bit sizes
+      if (view.getUint32(14, true) === 12) return { width: view.getUint16(18, true), height: view.getUint16(20, true) }
+      return { width: Math.abs(view.getInt32(18, true)), height: Math.abs(view.getInt32(22, true)) }
+    }
+    case 'jpeg':
+      return jpegDimensions(bytes)
+    case 'webp':
+      return bytes.length >= 30 ? webpDimensions(bytes) : null
+    default:
+      return null
+  }
+}
+
+export function fileExtension(name: string): string {
+  const dot = name.lastIndexOf('.')
+  return dot > 0 ? name.slice(dot).toLowerCase() : ''
+}
+
+function mimeMatches(mime: string, type: DetectedType): boolean {
+  const lower = mime.toLowerCase().split(';')[0].trim()
+  const matches = type.mimes.some(pattern => pattern.endsWith('/*')
+    ? lower.startsWith(pattern.slice(0, -1))
+    : lower === pattern)
+  return matches || (type.container ? mimeMatches(mime, type.container) : false)
+}
+
+function extensionMatches(extension: string, type: DetectedType): boolean {
+  return type.extensions.includes(extension) || (type.container ? extensionMatches(extension, type.container) : false)
+}
+
+/** Read a file's head to detect its real type and, for images, its dimensions */
+export async function inspectFile(file: File): Promise<FileInspection> {
+  const head = new Uint8Array(await file.slice(0, HEAD_BYTES).arrayBuffer())
+  const detected = sniffFileType(head, file.size)
+  let dimensions = readImageDimensions(head, detected)
+
+  // Headers past the sample (large EXIF blocks) or formats we don't parse: let the browser decode
+  if (!dimensions && detected?.category === 'image' && detected.id !== 'svg' && typeof createImageBitmap !== 'undefined') {
+    try {
+      const bitmap = await createImageBitmap(file)
+      dimensions = { width: bitmap.width, height: bitmap.height }
+      bitmap.close()
+    } catch {
+      // Undecodable here; dimension rules will say so
+    }
+  }
+
+  return { file, extension: fileExtension(file.name), detected, dimensions }
+}
+
+/** Category from the contents, falling back to the declared MIME type for unknown formats */
+export function categoryOf(inspection: Pick<FileInspection, 'file' | 'detected'>): FileCategory {
+  if (inspection.detected) return inspection.detected.category
+  const type = inspection.file.type.toLowerCase()
+  if (type.startsWith('image/')) return 'image'
+  if (type.startsWith('video/')) return 'video'
+  if (type.startsWith('audio/')) return 'audio'
+  return 'other'
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+const CATEGORY_NAMES: Record<FileCategory, string> = {
+  image: 'Images',
+  document: 'Documents',
+  video: 'Videos',
+  audio: 'Audio files',
+  archive: 'Archives',
+  design: 'Design files',
+  other: 'Files'
+}
+
+export const VALIDATION_RULES: ValidationRule[] = [
+  {
+    id: 'accept',
+    validate({ extension }, { policy }) {
+      if (!policy.accept || policy.accept.includes(extension)) return null
+      return `File type ${extension || '(none)'} not supported`
+    }
+  },
+  {
+    id: 'content-extension',
+    validate({ extension, detected }, { policy }) {
+      if (policy.requireContentMatch === false || !extension) return null
+      if (detected && detected.id !== 'text' && !extensionMatches(extension, detected)) {
+        return `Contents are ${detected.label}, not ${extension}`
+      }
+      if ((!detected || detected.id === 'text') && BINARY_EXTENSIONS.has(extension)) {
+        return `Contents do not look like a ${extension} file`
+      }
+      return null
+    }
+  },
+  {
+    id: 'content-mime',
+    validate({ file, detected }, { policy }) {
+      // Browsers often report nothing, or a generic type, for formats they don't know
+      if (policy.requireContentMatch === false || !detected || !file.type || file.type === 'application/octet-stream') return null
+      if (mimeMatches(file.type, detected)) return null
+      return `Declared type ${file.type} does not match contents (${detected.label})`
+    }
+  },
+  {
+    id: 'max-file-size',
+    validate({ file }, { policy }) {
+      if (policy.maxFileSize === undefined || file.size <= policy.maxFileSize) return null
+      return `File size exceeds ${formatBytes(policy.maxFileSize)} limit`
+    }
+  },
+  {
+    id: 'max-category-size',
+    validate(inspection, { policy }) {
+      const category = categoryOf(inspection)
+      const limit = policy.maxSizeByCategory?.[category]
+      if (limit === undefined || inspection.file.size <= limit) return null
+      return `${CATEGORY_NAMES[category]} must be ${formatBytes(limit)} or smaller`
+    }
+  },
+  {
+    id: 'max-total-size',
+    validate({ file }, { policy, usedBytes }) {
+      if (policy.maxTotalSize === undefined || usedBytes + file.size <= policy.maxTotalSize) return null
+      return `Total upload size would exceed ${formatBytes(policy.maxTotalSize)}`
+    }
+  },
+  {
+    id: 'image-dimensions',
+    validate({ detected, dimensions }, { policy }) {
+      const limits = policy.image
+      if (!limits || detected?.category !== 'image' || detected.id === 'svg') return null
+      if (!dimensions) return 'Could not read image dimensions'
+
+      const { width, height } = dimensions
+      const size = `${width}×${height}px`
+      if ((limits.maxWidth && width > limits.maxWidth) || (limits.maxHeight && height > limits.maxHeight)) {
+        return `Image is ${size}; maximum is ${limits.maxWidth ?? '∞'}×${limits.maxHeight ?? '∞'}px`
+      }
+      if ((limits.minWidth && width < limits.minWidth) || (limits.minHeight && height < limits.minHeight)) {
+        return `Image is ${size}; minimum is ${limits.minWidth ?? 0}×${limits.minHeight ?? 0}px`
+      }
+      return null
+    }
+  }
+]
+
+/** Every rule the file breaks, in rule order */
+export function validateInspection(
+  inspection: FileInspection,
+  context: ValidationContext,
+  rules: ValidationRule[] = VALIDATION_RULES
+): RuleViolation[] {
+  return rules.flatMap(rule => {
+    const message = rule.validate(inspection, context)
+    return message ? [{ rule: rule.id, message }] : []
+  })
+}
@@ -0,0 +1,72 @@
+// File contents for folder items, kept in IndexedDB; the persisted store only holds metadata
+const DB_NAME = 'flux-folder-files'
+const STORE = 'files'
+
+let db: Promise<IDBDatabase> | null = null
+
+function open(): Promise<IDBDatabase> {
+  if (!db) {
+    db = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE)
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+  return db
+}
+
+async function transact<T>(mode: IDBTransactionMode, work: (store: IDBObjectStore) => () => T): Promise<T> {
+  const database = await open()
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(STORE, mode)
+    const result = work(transaction.objectStore(STORE))
+    transaction.oncomplete = () => resolve(result())
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+export function isBlobStorageAvailable(): boolean {
+  return typeof indexedDB !== 'undefined'
+}
+
+export async function saveFolderBlob(id: string, blob: Blob): Promise<void> {
+  if (!isBlobStorageAvailable()) return
+  await transact('readwrite', store => {
+    store.put(blob, id)
+    return () => undefined
+  })
+}
+
+/** Contents for the given ids; items saved without contents are simply missing from the map */
+export async function loadFolderBlobs(ids: string[]): Promise<Map<string, Blob>> {
+  if (!isBlobStorageAvailable() || ids.length === 0) return new Map()
+  return transact('readonly', store => {
+    const found = new Map<string, Blob>()
+    ids.forEach(id => {
+      const request = store.get(id)
+      request.onsuccess = () => {
+        if (request.result) found.set(id, request.result)
+      }
+    })
+    return () => found
+  })
+}
+
+/**
+ * Drop contents no longer referenced by `keep`. Removal from the store doesn't delete contents
+ * right away, so whatever can bring an item back still finds them until the next prune.
+ */
+export async function pruneFolderBlobs(keep: Set<string>): Promise<void> {
+  if (!isBlobStorageAvailable()) return
+  await transact('readwrite', store => {
+    const keys = store.getAllKeys()
+    keys.onsuccess = () => {
+      keys.result.map(String).filter(id => !keep.has(id)).forEach(id => store.delete(id))
+    }
+    return () => undefined
+  })
+}
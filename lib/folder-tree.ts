@@ -0,0 +1,66 @@
+// Folder tree helpers over the flat, persisted FolderItem list
+import type { FolderItem } from './store'
+
+// parentId of items at the top level
+export const ROOT_FOLDER_ID = null
+
+export function isFolder(item: FolderItem): boolean {
+  return item.type === 'folder'
+}
+
+export function childrenOf(items: FolderItem[], parentId: string | null): FolderItem[] {
+  return items.filter(item => (item.parentId ?? null) === parentId)
+}
+
+/** Folders from the top level down to `folderId`, inclusive; empty for the root */
+export function pathTo(items: FolderItem[], folderId: string | null): FolderItem[] {
+  const byId = new Map(items.map(item => [item.id, item]))
+  const path: FolderItem[] = []
+  let current = folderId ? byId.get(folderId) : undefined
+  // The length guard stops a corrupted (cyclic) tree from looping forever
+  while (current && path.length <= items.length) {
+    path.unshift(current)
+    current = current.parentId ? byId.get(current.parentId) : undefined
+  }
+  return path
+}
+
+/** `id` and everything below it */
+export function subtreeIds(items: FolderItem[], id: string): Set<string> {
+  const ids = new Set([id])
+  let grew = true
+  while (grew) {
+    grew = false
+    for (const item of items) {
+      if (item.parentId && ids.has(item.parentId) && !ids.has(item.id)) {
+        ids.add(item.id)
+        grew = true
+      }
+    }
+  }
+  return ids
+}
+
+/** Whether `id` may move into `parentId`: it must be a folder, not the item itself or below it */
+export function canMoveTo(items: FolderItem[], id: string, parentId: string | null): boolean {
+  const item = items.find(other => other.id === id)
+  if (!item || (item.parentId ?? null) === parentId) return false
+  if (parentId === null) return true
+  const target = items.find(other => other.id === parentId)
+  return !!target && isFolder(target) && !subtreeIds(items, id).has(parentId)
+}
+
+/** Files and total bytes under a folder, at any depth */
+export function folderStats(items: FolderItem[], id: string): { files: number; bytes: number } {
+  const ids = subtreeIds(items, id)
+  return items
+    .filter(item => ids.has(item.id) && item.id !== id && !isFolder(item))
+    .reduce((stats, item) => ({ files: stats.files + 1, bytes: stats.bytes + (item.size ?? 0) }), { files: 0, bytes: 0 })
+}
+
+/** Every folder in tree order with its depth, for pickers */
+export function flattenFolders(items: FolderItem[], parentId: string | null = ROOT_FOLDER_ID, depth = 0): { folder: FolderItem; depth: number }[] {
+  return childrenOf(items, parentId)
+    .filter(isFolder)
+    .flatMap(folder => [{ folder, depth }, ...flattenFolders(items, folder.id, depth + 1)])
+}
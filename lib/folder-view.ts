@@ -0,0 +1,127 @@
+// How a folder's contents are shown: sort order, filters and grouping, saved per folder
+import type { FolderFileType, FolderItem } from './store'
+
+export type FolderSortKey = 'name' | 'size' | 'date' | 'type'
+export type FolderGroupBy = 'none' | 'type' | 'date'
+
+export type FolderView = {
+  sort: FolderSortKey
+  descending: boolean
+  // Types to show; empty shows everything
+  types: FolderFileType[]
+  query: string
+  groupBy: FolderGroupBy
+}
+
+// Newest first, like the order items are added in
+export const DEFAULT_FOLDER_VIEW: FolderView = {
+  sort: 'date',
+  descending: true,
+  types: [],
+  query: '',
+  groupBy: 'none'
+}
+
+// Key for the top level, which has no folder id
+export const ROOT_VIEW_KEY = 'root'
+
+export type ViewableItem = {
+  name: string
+  size: number
+  type: FolderFileType
+  // YYYY-MM-DD; empty for items saved without one
+  dateAdded: string
+  tags?: string[]
+}
+
+// A stored item as views see it; items saved before files carried details fall back to their coarse type
+export function viewableItem(item: FolderItem): ViewableItem & { item: FolderItem } {
+  return {
+    item,
+    name: item.name,
+    size: item.size ?? 0,
+    type: item.fileType ?? (item.type === 'folder' ? 'folder' : item.type === 'img' ? 'image' : 'document'),
+    dateAdded: item.addedAt ?? '',
+    tags: item.tags
+  }
+}
+
+export type DateBucket = 'today' | 'yesterday' | 'week' | 'month' | 'year' | 'older' | 'undated'
+
+export const DATE_BUCKET_LABELS: Record<DateBucket, string> = {
+  today: 'Today',
+  yesterday: 'Yesterday',
+  week: 'Previous 7 days',
+  month: 'Previous 30 days',
+  year: 'Earlier this year',
+  older: 'Older',
+  undated: 'No date'
+}
+
+const DATE_BUCKETS = Object.keys(DATE_BUCKET_LABELS) as DateBucket[]
+const TYPE_ORDER: FolderFileType[] = ['folder', 'image', 'document', 'video', 'audio', 'code']
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function viewKey(folderId: string | null): string {
+  return folderId ?? ROOT_VIEW_KEY
+}
+
+export function isFiltered(view: FolderView): boolean {
+  return view.types.length > 0 || view.query.trim() !== ''
+}
+
+export function dateBucket(dateAdded: string, now = new Date()): DateBucket {
+  const added = new Date(`${dateAdded}T00:00:00`)
+  if (!dateAdded || Number.isNaN(added.getTime())) return 'undated'
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+  const days = Math.round((today.getTime() - added.getTime()) / DAY_MS)
+  if (days <= 0) return 'today'
+  if (days === 1) return 'yesterday'
+  if (days < 7) return 'week'
+  if (days < 30) return 'month'
+  if (added.getFullYear() === now.getFullYear()) return 'year'
+  return 'older'
+}
+
+function compare<T extends ViewableItem>(a: T, b: T, key: FolderSortKey): number {
+  switch (key) {
+    case 'name': return a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' })
+    case 'size': return a.size - b.size
+    case 'date': return a.dateAdded.localeCompare(b.dateAdded)
+    case 'type': return TYPE_ORDER.indexOf(a.type) - TYPE_ORDER.indexOf(b.type) || compare(a, b, 'name')
+  }
+}
+
+/**
+ * Filter and sort items. Folders stay ahead of files, and ties keep the order the items came in,
+ * so the same view always gives the same order.
+ */
+export function applyFolderView<T extends ViewableItem>(items: T[], view: FolderView): T[] {
+  const query = view.query.trim().toLowerCase()
+  const direction = view.descending ? -1 : 1
+  return items
+    .filter(item => view.types.length === 0 || view.types.includes(item.type))
+    .filter(item => !query || item.name.toLowerCase().includes(query) || item.tags?.some(tag => tag.toLowerCase().includes(query)))
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) =>
+      Number(b.item.type === 'folder') - Number(a.item.type === 'folder') ||
+      direction * compare(a.item, b.item, view.sort) ||
+      a.index - b.index
+    )
+    .map(({ item }) => item)
+}
+
+/** Split already sorted items into groups, in a fixed order: folders first for types, newest first for dates */
+export function groupFolderItems<T extends ViewableItem>(items: T[], groupBy: FolderGroupBy, now = new Date()): { key: string; items: T[] }[] {
+  if (groupBy === 'none') return [{ key: 'all', items }]
+  const keyOf = (item: T): string => groupBy === 'type' ? item.type : dateBucket(item.dateAdded, now)
+  const order: string[] = groupBy === 'type' ? TYPE_ORDER : DATE_BUCKETS
+  const groups = new Map<string, T[]>()
+  items.forEach(item => {
+    const key = keyOf(item)
+    groups.set(key, [...(groups.get(key) ?? []), item])
+  })
+  return [...groups.entries()]
+    .sort(([a], [b]) => order.indexOf(a) - order.indexOf(b))
+    .map(([key, grouped]) => ({ key, items: grouped }))
+}
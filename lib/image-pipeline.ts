@@ -0,0 +1,283 @@
+// Client-side image processing before upload: orientation, metadata stripping, resizing, recompression and crops
+import { sniffFileType } from './file-validation'
+
+export type ImageOutputType = 'image/jpeg' | 'image/webp' | 'image/png'
+
+export type CropRect = {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export type ImageProcessOptions = {
+  // Longest edge of the output in pixels; images are never upscaled
+  maxDimension?: number
+  // Defaults to the source format when it is one of these, otherwise JPEG
+  type?: ImageOutputType
+  // 0-1, for JPEG and WebP
+  quality?: number
+  // In oriented source pixels, as the user sees the image
+  crop?: CropRect
+}
+
+export type ExifSummary = {
+  // 1-8; 1 is upright
+  orientation: number
+  hasGps: boolean
+}
+
+export type ProcessedImage = {
+  file: File
+  width: number
+  height: number
+  // What the source carried that the output no longer does
+  removed: ExifSummary | null
+}
+
+export const DEFAULT_IMAGE_OPTIONS: ImageProcessOptions = {
+  maxDimension: 2560,
+  quality: 0.85
+}
+
+// Sized for AvatarStack: square, crisp at its largest rendered size on 2x screens
+export const AVATAR_IMAGE_OPTIONS: ImageProcessOptions = {
+  maxDimension: 512,
+  type: 'image/webp',
+  quality: 0.9
+}
+
+export const THUMBNAIL_SIZE = 96
+
+// Animated and vector formats would be flattened by a canvas round trip
+const PROCESSABLE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/bmp']
+
+const EXTENSIONS: Record<ImageOutputType, string> = {
+  'image/jpeg': '.jpg',
+  'image/webp': '.webp',
+  'image/png': '.png'
+}
+
+// PNG chunks and WebP RIFF chunks that carry EXIF, XMP, text or timestamps
+const PNG_METADATA_CHUNKS = ['eXIf', 'tEXt', 'zTXt', 'iTXt', 'tIME']
+const WEBP_METADATA_CHUNKS = ['EXIF', 'XMP ']
+
+export function canProcessImage(type: string): boolean {
+  return PROCESSABLE_TYPES.includes(type)
+}
+
+type MetadataBlock = {
+  kind: 'exif' | 'xmp' | 'other'
+  // Payload bounds; for EXIF this is the TIFF header onwards
+  start: number
+  end: number
+}
+
+const latin1 = new TextDecoder('latin1')
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return latin1.decode(bytes.subarray(start, start + length))
+}
+
+// EXIF payloads may keep the JPEG-style "Exif\0\0" prefix in PNG and WebP too
+function exifBlock(bytes: Uint8Array, start: number, end: number): MetadataBlock {
+  return { kind: 'exif', start: ascii(bytes, start, 4) === 'Exif' ? start + 6 : start, end }
+}
+
+/** Metadata blocks in a JPEG (APP1, APP13, comments), PNG (eXIf and text chunks) or WebP (EXIF, XMP) */
+function metadataBlocks(bytes: Uint8Array): MetadataBlock[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const blocks: MetadataBlock[] = []
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1]
+      // Start of scan: no metadata after this
+      if (marker === 0xda) break
+      const length = view.getUint16(offset + 2)
+      const start = offset + 4
+      const end = Math.min(offset + 2 + length, bytes.length)
+      if (marker === 0xe1) {
+        blocks.push(ascii(bytes, start, 4) === 'Exif' ? exifBlock(bytes, start, end) : { kind: 'xmp', start, end })
+      } else if (marker === 0xed || marker === 0xfe) {
+        blocks.push({ kind: 'other', start, end })
+      }
+      offset += 2 + length
+    }
+  } else if (bytes[0] === 0x89 && ascii(bytes, 1, 3) === 'PNG') {
+    let offset = 8
+    while (offset + 8 <= bytes.length) {
+      const length = view.getUint32(offset)
+      const type = ascii(bytes, offset + 4, 4)
+      const start = offset + 8
+      const end = Math.min(start + length, bytes.length)
+      if (type === 'IEND') break
+      if (type === 'eXIf') blocks.push(exifBlock(bytes, start, end))
+      else if (PNG_METADATA_CHUNKS.includes(type)) blocks.push({ kind: type === 'iTXt' ? 'xmp' : 'other', start, end })
+      offset = start + length + 4
+    }
+  } else if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') {
+    let offset = 12
+    while (offset + 8 <= bytes.length) {
+      const type = ascii(bytes, offset, 4)
+      const length = view.getUint32(offset + 4, true)
+      const start = offset + 8
+      const end = Math.min(start + length, bytes.length)
+      if (type === 'EXIF') blocks.push(exifBlock(bytes, start, end))
+      else if (WEBP_METADATA_CHUNKS.includes(type)) blocks.push({ kind: 'xmp', start, end })
+      // Chunks are padded to an even length
+      offset = start + length + (length & 1)
+    }
+  }
+  return blocks
+}
+
+/** Whether the image carries any metadata a canvas round trip would strip */
+export function hasMetadata(bytes: Uint8Array): boolean {
+  return metadataBlocks(bytes).length > 0
+}
+
+/** Orientation and GPS presence from a JPEG, PNG or WebP's EXIF (or XMP for GPS); null when there is neither */
+export function readExif(bytes: Uint8Array): ExifSummary | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const blocks = metadataBlocks(bytes)
+  const exif = blocks.find(block => block.kind === 'exif')
+  // XMP records location as text, e.g. exif:GPSLatitude
+  const xmpGps = blocks.some(block => block.kind === 'xmp' && /GPS(?:Latitude|Longitude)/.test(ascii(bytes, block.start, block.end - block.start)))
+  if (!exif) return xmpGps ? { orientation: 1, hasGps: true } : null
+
+  const summary: ExifSummary = { orientation: 1, hasGps: xmpGps }
+  const tiff = exif.start
+  if (tiff + 8 > bytes.length) return summary
+  const little = view.getUint16(tiff) === 0x4949
+  const ifd = tiff + view.getUint32(tiff + 4, little)
+  if (ifd + 2 > bytes.length) return summary
+
+  const entries = view.getUint16(ifd, little)
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12
+    if (entry + 12 > bytes.length) break
+    const tag = view.getUint16(entry, little)
+    if (tag === 0x0112) summary.orientation = view.getUint16(entry + 8, little)
+    if (tag === 0x8825) summary.hasGps = true
+  }
+  return summary
+}
+
+type Canvas = OffscreenCanvas | HTMLCanvasElement
+
+// OffscreenCanvas keeps encoding off the DOM; older Safari only has the element
+function createCanvas(width: number, height: number): Canvas {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height)
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  return canvas
+}
+
+function toBlob(canvas: Canvas, type: string, quality?: number): Promise<Blob> {
+  if ('convertToBlob' in canvas) return canvas.convertToBlob({ type, quality })
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Canvas encoding failed')), type, quality)
+  })
+}
+
+function draw(bitmap: ImageBitmap, crop: CropRect, width: number, height: number, background?: string): Canvas {
+  const canvas = createCanvas(width, height)
+  const context = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null
+  if (!context) throw new Error('Canvas 2D context unavailable')
+  if (background) {
+    context.fillStyle = background
+    context.fillRect(0, 0, width, height)
+  }
+  context.imageSmoothingQuality = 'high'
+  context.drawImage(bitmap, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height)
+  return canvas
+}
+
+function fitWithin(width: number, height: number, maxDimension: number) {
+  const scale = Math.min(1, maxDimension / Math.max(width, height))
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) }
+}
+
+function clampCrop(crop: CropRect | undefined, width: number, height: number): CropRect {
+  if (!crop) return { x: 0, y: 0, width, height }
+  const x = Math.min(Math.max(0, Math.round(crop.x)), width - 1)
+  const y = Math.min(Math.max(0, Math.round(crop.y)), height - 1)
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(Math.round(crop.width), width - x)),
+    height: Math.max(1, Math.min(Math.round(crop.height), height - y))
+  }
+}
+
+function renamed(name: string, type: string): string {
+  const extension = EXTENSIONS[type as ImageOutputType]
+  if (!extension) return name
+  const dot = name.lastIndexOf('.')
+  return `${dot > 0 ? name.slice(0, dot) : name}${extension}`
+}
+
+/**
+ * Redraw an image upright through a canvas, which drops EXIF, GPS and every other metadata block,
+ * then crop, downscale and re-encode it. The browser applies the EXIF orientation while decoding.
+ */
+export async function processImage(file: File, options: ImageProcessOptions = DEFAULT_IMAGE_OPTIONS): Promise<ProcessedImage> {
+  // Whole file: WebP keeps its EXIF and XMP after the image data
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  const exif = readExif(bytes)
+  // Trust the bytes over the declared type, which is often empty
+  const sourceType = sniffFileType(bytes)?.mimes[0] ?? file.type
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' })
+
+  try {
+    const crop = clampCrop(options.crop, bitmap.width, bitmap.height)
+    const { width, height } = fitWithin(crop.width, crop.height, options.maxDimension ?? Infinity)
+    const requested = options.type ?? (sourceType in EXTENSIONS ? sourceType as ImageOutputType : 'image/jpeg')
+    // JPEG has no alpha; transparent areas would otherwise turn black
+    const canvas = draw(bitmap, crop, width, height, requested === 'image/jpeg' ? '#fff' : undefined)
+
+    let blob = await toBlob(canvas, requested, options.quality)
+    // Browsers without a WebP encoder silently hand back PNG
+    if (blob.type !== requested && requested === 'image/webp') {
+      blob = await toBlob(canvas, 'image/jpeg', options.quality)
+    }
+
+    // Nothing to strip, fix, crop or shrink, and re-encoding only grew it: keep the original
+    const unchanged = !hasMetadata(bytes) && !options.crop && width === bitmap.width && height === bitmap.height
+    if (unchanged && blob.size >= file.size && blob.type === sourceType) {
+      return { file, width, height, removed: null }
+    }
+
+    return {
+      file: new File([blob], renamed(file.name, blob.type), { type: blob.type, lastModified: file.lastModified }),
+      width,
+      height,
+      removed: exif
+    }
+  } finally {
+    bitmap.close()
+  }
+}
+
+/** Small upright WebP (or PNG) thumbnail as a data URL, so full-size images never reach the DOM */
+export async function createThumbnail(file: Blob, size = THUMBNAIL_SIZE, crop?: CropRect): Promise<string> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' })
+  try {
+    const source = clampCrop(crop, bitmap.width, bitmap.height)
+    // Twice the rendered size for high-density screens
+    const { width, height } = fitWithin(source.width, source.height, size * 2)
+    const blob = await toBlob(draw(bitmap, source, width, height), 'image/webp', 0.8)
+
+    return await new Promise((resolve, reject) => {
+      const reader = new FileReader()
+      reader.onload = () => resolve(reader.result as string)
+      reader.onerror = () => reject(reader.error)
+      reader.readAsDataURL(blob)
+    })
+  } finally {
+    bitmap.close()
+  }
+}
@@ -0,0 +1,46 @@
+// Browser helpers for the /api/otp routes
+export type OtpIssueResponse =
+  | { ok: true; expiresAt: number; digits: number; provider: 'totp' | 'hotp'; devCode?: string }
+  | { ok: false; error: 'rate_limited'; retryAfter: number }
+
+export type OtpVerifyResponse =
+  | { valid: true }
+  | { valid: false; error: 'invalid_code'; attemptsRemaining: number }
+  | { valid: false; error: 'expired' | 'no_code' | 'too_many_attempts' | 'invalid_request' }
+
+export async function requestOtp(signal?: AbortSignal): Promise<OtpIssueResponse> {
+  const response = await fetch('/api/otp/issue', {
+    method: 'POST',
+    credentials: 'same-origin',
+    signal
+  })
+  return response.json()
+}
+
+export async function verifyOtp(code: string, signal?: AbortSignal): Promise<OtpVerifyResponse> {
+  const response = await fetch('/api/otp/verify', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'same-origin',
+    body: JSON.stringify({ code }),
+    signal
+  })
+  return response.json()
+}
+
+// Human-readable explanation for a failed verification
+export function describeOtpError(result: OtpVerifyResponse): string {
+  if (result.valid) return ''
+  switch (result.error) {
+    case 'invalid_code':
+      return `Invalid code. ${result.attemptsRemaining} attempt${result.attemptsRemaining === 1 ? '' : 's'} remaining.`
+    case 'expired':
+      return 'This code has expired. Request a new one.'
+    case 'too_many_attempts':
+      return 'Too many attempts. Request a new code.'
+    case 'no_code':
+      return 'No active code. Request a new one.'
+    default:
+      return 'Could not verify the code.'
+  }
+}
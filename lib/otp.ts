@@ -0,0 +1,237 @@
+// One-time password generation and verification for FLUX//ID (server only)
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto'
+
+export type OtpProviderKind = 'totp' | 'hotp'
+
+export type OtpRecord = {
+  secret: Buffer
+  counter: number
+  issuedAt: number
+  expiresAt: number
+  attempts: number
+}
+
+export type OtpIssueResult =
+  | { ok: true; code: string; expiresAt: number; digits: number; provider: OtpProviderKind }
+  | { ok: false; error: 'rate_limited'; retryAfter: number }
+
+export type OtpVerifyResult =
+  | { valid: true }
+  | { valid: false; error: 'invalid_code'; attemptsRemaining: number }
+  | { valid: false; error: 'expired' | 'no_code' }
+  | { valid: false; error: 'too_many_attempts' }
+
+// Pluggable code provider - generates a code for a record and checks a submitted one
+export interface CodeProvider {
+  kind: OtpProviderKind
+  digits: number
+  generate(record: OtpRecord): string
+  verify(code: string, record: OtpRecord): boolean
+}
+
+export type OtpConfig = {
+  ttlMs: number
+  maxAttempts: number
+  // Issue rate limit per session
+  maxIssues: number
+  issueWindowMs: number
+  // New sessions are refused past this, bounding memory under a flood of cookieless requests
+  // without dropping codes that real users are still waiting to enter
+  maxSessions: number
+}
+
+export const DEFAULT_OTP_CONFIG: OtpConfig = {
+  ttlMs: 5 * 60 * 1000,
+  maxAttempts: 5,
+  maxIssues: 5,
+  issueWindowMs: 10 * 60 * 1000,
+  maxSessions: 10_000
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a)
+  const right = Buffer.from(b)
+  return left.length === right.length && timingSafeEqual(left, right)
+}
+
+/** HOTP value for a secret and counter (RFC 4226) */
+export function hotp(secret: Buffer, counter: number, digits = 6): string {
+  const message = Buffer.alloc(8)
+  message.writeBigUInt64BE(BigInt(counter))
+  const hmac = createHmac('sha1', secret).update(message).digest()
+
+  // Dynamic truncation
+  const offset = hmac[hmac.length - 1] & 0x0f
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    ((hmac[offset + 1] & 0xff) << 16) |
+    ((hmac[offset + 2] & 0xff) << 8) |
+    (hmac[offset + 3] & 0xff)
+
+  return String(binary % 10 ** digits).padStart(digits, '0')
+}
+
+/** TOTP value for a secret at a point in time (RFC 6238) */
+export function totp(secret: Buffer, timeMs: number, periodSec = 30, digits = 6): string {
+  return hotp(secret, Math.floor(timeMs / 1000 / periodSec), digits)
+}
+
+export class TotpProvider implements CodeProvider {
+  readonly kind = 'totp' as const
+
+  constructor(
+    readonly digits = 6,
+    private readonly periodSec = 30
+  ) {}
+
+  generate(record: OtpRecord) {
+    return totp(record.secret, record.issuedAt, this.periodSec, this.digits)
+  }
+
+  // Checked against the step the code was issued in, so it stays valid for the record's whole TTL
+  // rather than only the period or two around the time it is submitted
+  verify(code: string, record: OtpRecord) {
+    return safeEqual(totp(record.secret, record.issuedAt, this.periodSec, this.digits), code)
+  }
+}
+
+export class HotpProvider implements CodeProvider {
+  readonly kind = 'hotp' as const
+
+  constructor(readonly digits = 6) {}
+
+  generate(record: OtpRecord) {
+    return hotp(record.secret, record.counter, this.digits)
+  }
+
+  verify(code: string, record: OtpRecord) {
+    return safeEqual(hotp(record.secret, record.counter, this.digits), code)
+  }
+}
+
+export function createProvider(kind: string | undefined): CodeProvider {
+  return kind === 'hotp' ? new HotpProvider() : new TotpProvider()
+}
+
+type Session = {
+  record: OtpRecord | null
+  // Timestamps of recent issues for rate limiting
+  issues: number[]
+  // HOTP counter survives re-issues so codes are never reused
+  counter: number
+  secret: Buffer
+}
+
+/** In-memory OTP store keyed by session id */
+export class OtpService {
+  private sessions = new Map<string, Session>()
+
+  constructor(
+    private readonly provider: CodeProvider,
+    private readonly config: OtpConfig = DEFAULT_OTP_CONFIG
+  ) {}
+
+  private session(id: string): Session {
+    let session = this.sessions.get(id)
+    if (!session) {
+      session = { record: null, issues: [], counter: 0, secret: randomBytes(20) }
+      this.sessions.set(id, session)
+    }
+    return session
+  }
+
+  // When the session store will next have room, for a full store's Retry-After
+  private nextVacancy(now: number): number {
+    let soonest = Infinity
+    this.sessions.forEach(session => {
+      const lastIssue = session.issues[session.issues.length - 1] ?? 0
+      soonest = Math.min(soonest, Math.max(session.record?.expiresAt ?? 0, lastIssue + this.config.issueWindowMs))
+    })
+    return Math.max(1, Math.ceil((soonest - now) / 1000))
+  }
+
+  issue(sessionId: string, now = Date.now()): OtpIssueResult {
+    const { maxIssues, issueWindowMs, ttlMs, maxSessions } = this.config
+
+    if (!this.sessions.has(sessionId) && this.sessions.size >= maxSessions) {
+      this.prune(now)
+      if (this.sessions.size >= maxSessions) {
+        return { ok: false, error: 'rate_limited', retryAfter: this.nextVacancy(now) }
+      }
+    }
+
+    const session = this.session(sessionId)
+    session.issues = session.issues.filter(time => now - time < issueWindowMs)
+    if (session.issues.length >= maxIssues) {
+      const retryAfter = Math.ceil((session.issues[0] + issueWindowMs - now) / 1000)
+      return { ok: false, error: 'rate_limited', retryAfter }
+    }
+
+    session.issues.push(now)
+    session.counter += 1
+    session.record = {
+      secret: session.secret,
+      counter: session.counter,
+      issuedAt: now,
+      expiresAt: now + ttlMs,
+      attempts: 0
+    }
+
+    return {
+      ok: true,
+      code: this.provider.generate(session.record),
+      expiresAt: session.record.expiresAt,
+      digits: this.provider.digits,
+      provider: this.provider.kind
+    }
+  }
+
+  verify(sessionId: string, code: string, now = Date.now()): OtpVerifyResult {
+    const record = this.sessions.get(sessionId)?.record
+    if (!record) return { valid: false, error: 'no_code' }
+    if (now > record.expiresAt) return { valid: false, error: 'expired' }
+    if (record.attempts >= this.config.maxAttempts) return { valid: false, error: 'too_many_attempts' }
+
+    record.attempts += 1
+    if (this.provider.verify(code, record)) {
+      // Codes are single use
+      this.session(sessionId).record = null
+      return { valid: true }
+    }
+
+    const attemptsRemaining = this.config.maxAttempts - record.attempts
+    return attemptsRemaining > 0
+      ? { valid: false, error: 'invalid_code', attemptsRemaining }
+      : { valid: false, error: 'too_many_attempts' }
+  }
+
+  // Drop sessions with nothing left to verify or rate limit
+  prune(now = Date.now()) {
+    this.sessions.forEach((session, id) => {
+      const idle = !session.record || now > session.record.expiresAt
+      const limited = session.issues.some(time => now - time < this.config.issueWindowMs)
+      if (idle && !limited) this.sessions.delete(id)
+    })
+  }
+}
+
+// Survive dev-server module reloads
+const globalForOtp = globalThis as unknown as { otpService?: OtpService }
+
+export function getOtpService(): OtpService {
+  if (!globalForOtp.otpService) {
+    globalForOtp.otpService = new OtpService(createProvider(process.env.OTP_PROVIDER))
+  }
+  return globalForOtp.otpService
+}
+
+export const OTP_SESSION_COOKIE = 'flux-otp-session'
+
+export function createSessionId(): string {
+  return randomBytes(16).toString('hex')
+}
+
+// Codes are returned to the client only outside production, so the demo works without SMS
+export function shouldExposeCode(): boolean {
+  return process.env.NODE_ENV !== 'production' || process.env.OTP_EXPOSE_CODE === 'true'
+}
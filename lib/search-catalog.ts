@@ -0,0 +1,135 @@
+// Searchable workspace catalog served by /api/search
+import { SearchProvider, SearchResult, createStaticProvider } from './search'
+
+const PEOPLE: SearchResult[] = [
+  {
+    id: 'sarah-johnson',
+    type: 'person',
+    title: 'Sarah Johnson',
+    subtitle: 'Senior Product Designer',
+    description: 'Working on design system and user research',
+    avatar: '👩‍💼',
+    tags: ['design', 'ui/ux', 'figma'],
+    score: 0.95
+  },
+  {
+    id: 'alex-chen',
+    type: 'person',
+    title: 'Alex Chen',
+    subtitle: 'Frontend Developer',
+    description: 'React specialist and component library maintainer',
+    avatar: '👨‍💻',
+    tags: ['frontend', 'react', 'javascript'],
+    score: 0.78
+  },
+  {
+    id: 'priya-nair',
+    type: 'person',
+    title: 'Priya Nair',
+    subtitle: 'Engineering Manager',
+    description: 'Leads the platform and identity teams',
+    avatar: '👩‍🔬',
+    tags: ['management', 'platform', 'identity'],
+    score: 0.74
+  }
+]
+
+const PROJECTS: SearchResult[] = [
+  {
+    id: 'flux-design-system',
+    type: 'project',
+    title: 'FLUX Design System',
+    subtitle: 'Active Project',
+    description: 'Comprehensive design system for all products',
+    icon: '🎨',
+    tags: ['design-system', 'components', 'tokens'],
+    score: 0.92
+  },
+  {
+    id: 'identity-board',
+    type: 'project',
+    title: 'Identity Board',
+    subtitle: 'In review',
+    description: 'Draggable board that assembles a profile from every day',
+    icon: '🧩',
+    tags: ['identity', 'board', 'export'],
+    url: '/day-8',
+    score: 0.8
+  }
+]
+
+const DOCUMENTS: SearchResult[] = [
+  {
+    id: 'q4-roadmap',
+    type: 'document',
+    title: 'Q4 Product Roadmap',
+    subtitle: 'Last updated 2 days ago',
+    description: 'Strategic planning document for upcoming features',
+    icon: '📋',
+    tags: ['planning', 'strategy', 'roadmap'],
+    lastModified: new Date('2025-08-29'),
+    score: 0.88
+  },
+  {
+    id: 'api-documentation',
+    type: 'document',
+    title: 'API Documentation',
+    subtitle: 'Technical Reference',
+    description: 'Complete API reference for developers',
+    icon: '📖',
+    tags: ['api', 'documentation', 'reference'],
+    lastModified: new Date('2025-07-14'),
+    score: 0.75
+  }
+]
+
+const MESSAGES: SearchResult[] = [
+  {
+    id: 'standup-notes',
+    type: 'message',
+    title: 'Team standup notes',
+    subtitle: 'From #dev-team channel',
+    description: 'Daily standup recap and action items',
+    icon: '💬',
+    tags: ['meeting', 'standup', 'notes'],
+    score: 0.85
+  }
+]
+
+const FILES: SearchResult[] = [
+  {
+    id: 'user-research-findings',
+    type: 'file',
+    title: 'user-research-findings.pdf',
+    subtitle: '2.3 MB • PDF Document',
+    description: 'Latest user research insights and recommendations',
+    icon: '📄',
+    tags: ['research', 'users', 'insights'],
+    lastModified: new Date('2025-08-12'),
+    score: 0.82
+  },
+  {
+    id: 'brand-assets',
+    type: 'file',
+    title: 'brand-assets.zip',
+    subtitle: '48 MB • Archive',
+    description: 'Logos, colour tokens and type specimens',
+    icon: '🗜️',
+    tags: ['brand', 'assets', 'design'],
+    lastModified: new Date('2025-06-30'),
+    score: 0.7
+  }
+]
+
+export const peopleProvider = createStaticProvider('people', ['person'], PEOPLE)
+export const projectsProvider = createStaticProvider('projects', ['project'], PROJECTS)
+export const documentsProvider = createStaticProvider('documents', ['document', 'message'], [...DOCUMENTS, ...MESSAGES])
+export const filesProvider = createStaticProvider('files', ['file'], FILES)
+
+// Providers queried by the search route, in merge order
+export const CATALOG_PROVIDERS: SearchProvider[] = [
+  peopleProvider,
+  projectsProvider,
+  documentsProvider,
+  filesProvider
+]
@@ -0,0 +1,189 @@
+// Main-thread handle for the search index worker, exposed as a SearchProvider
+import {
+  SEARCH_RESULT_TYPES,
+  SearchAbortedError,
+  SearchProvider,
+  SearchQuery,
+  SearchResult,
+  SearchResultType
+} from './search'
+import { SearchIndex } from './search-index'
+import { resultKey } from './search-rank'
+
+export type IndexCommand =
+  | { kind: 'open'; name: string }
+  | { kind: 'add'; docs: SearchResult[] }
+  | { kind: 'remove'; keys: string[] }
+  | { kind: 'sync'; docs: SearchResult[] }
+  | { kind: 'clear' }
+  | { kind: 'query'; query: SearchQuery }
+
+export type IndexRequest = IndexCommand & { id: number }
+
+export type IndexResponse =
+  | { id: number; ok: true; size: number; results?: SearchResult[] }
+  // `superseded` means a newer query arrived before this one ran
+  | { id: number; ok: false; error: string }
+
+export interface IndexedSearchProvider extends SearchProvider {
+  add(docs: SearchResult[]): Promise<void>
+  remove(keys: string[]): Promise<void>
+  // Replace the contents, re-indexing only documents that changed
+  sync(docs: SearchResult[]): Promise<void>
+  clear(): Promise<void>
+}
+
+type Pending = {
+  resolve: (response: IndexResponse & { ok: true }) => void
+  reject: (error: Error) => void
+}
+
+/**
+ * Search provider over an inverted index that lives in a Web Worker and persists to IndexedDB.
+ * Without Worker support (server render, old browsers), or once the worker has crashed,
+ * the index runs in memory on this thread.
+ */
+export function createIndexProvider(
+  name: string,
+  types: SearchResultType[] = SEARCH_RESULT_TYPES
+): IndexedSearchProvider {
+  let worker: Worker | null = null
+  let fallback: SearchIndex | null = null
+  let nextId = 0
+  const pending = new Map<number, Pending>()
+  // Documents as last written, so a fallback index can take over with the same contents
+  const mirror = new Map<string, SearchResult>()
+
+  const failAll = (error: Error) => {
+    pending.forEach(({ reject }) => reject(error))
+    pending.clear()
+  }
+
+  // Start the worker on first use so nothing runs during server rendering
+  const connect = () => {
+    if (worker || fallback) return
+    if (typeof Worker === 'undefined') {
+      fallback = new SearchIndex()
+      return
+    }
+
+    worker = new Worker(new URL('./search-index.worker.ts', import.meta.url), { type: 'module' })
+    worker.onmessage = (event: MessageEvent<IndexResponse>) => {
+      const response = event.data
+      const request = pending.get(response.id)
+      if (!request) return
+      pending.delete(response.id)
+
+      if (response.ok) {
+        request.resolve(response)
+      } else if (response.error === 'superseded') {
+        request.reject(new SearchAbortedError())
+      } else {
+        request.reject(new Error(response.error))
+      }
+    }
+    // A crashed worker answers nothing more; the in-memory index takes over with the mirrored docs
+    worker.onerror = () => {
+      worker?.terminate()
+      worker = null
+      fallback = new SearchIndex()
+      fallback.add(Array.from(mirror.values()))
+      failAll(new Error('Search index worker failed'))
+    }
+    worker.postMessage({ id: nextId++, kind: 'open', name } satisfies IndexRequest)
+  }
+
+  // Run a command on the fallback index, mirroring the worker's replies
+  const runLocally = (index: SearchIndex, command: IndexCommand): SearchResult[] | undefined => {
+    switch (command.kind) {
+      case 'add':
+        index.add(command.docs)
+        return
+      case 'remove':
+        index.remove(command.keys)
+        return
+      case 'sync':
+        index.sync(command.docs)
+        return
+      case 'clear':
+        index.clear()
+        return
+      case 'query':
+        return index.query(command.query)
+    }
+  }
+
+  // Apply a write to the mirror, whichever index ends up running it
+  const track = (command: IndexCommand) => {
+    switch (command.kind) {
+      case 'add':
+        command.docs.forEach(doc => mirror.set(resultKey(doc), doc))
+        return
+      case 'remove':
+        command.keys.forEach(key => mirror.delete(key))
+        return
+      case 'sync':
+        mirror.clear()
+        command.docs.forEach(doc => mirror.set(resultKey(doc), doc))
+        return
+      case 'clear':
+        mirror.clear()
+        return
+    }
+  }
+
+  const send = (command: IndexCommand, signal?: AbortSignal): Promise<SearchResult[] | undefined> => {
+    connect()
+    if (signal?.aborted) return Promise.reject(new SearchAbortedError())
+    track(command)
+
+    if (fallback) {
+      try {
+        return Promise.resolve(runLocally(fallback, command))
+      } catch (error) {
+        return Promise.reject(error)
+      }
+    }
+
+    const id = nextId++
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        pending.delete(id)
+        reject(new SearchAbortedError())
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+
+      pending.set(id, {
+        resolve: response => {
+          signal?.removeEventListener('abort', onAbort)
+          resolve(response.results)
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', onAbort)
+          reject(error)
+        }
+      })
+      worker!.postMessage({ ...command, id } as IndexRequest)
+    })
+  }
+
+  return {
+    id: `index:${name}`,
+    types,
+    async search(query, signal) {
+      return (await send({ kind: 'query', query }, signal)) ?? []
+    },
+    async add(docs) {
+      await send({ kind: 'add', docs })
+    },
+    async remove(keys) {
+      await send({ kind: 'remove', keys })
+    },
+    async sync(docs) {
+      await send({ kind: 'sync', docs })
+    },
+    async clear() {
+      await send({ kind: 'clear' })
+    }
+  }
+}
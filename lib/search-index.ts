@@ -0,0 +1,203 @@
+// Incremental inverted index for large search corpora - stemmed terms, trigrams and title acronyms
+import type { SearchQuery, SearchResult } from './search'
+import { parseSearchQuery, queryResults } from './search-query'
+import { maxTypos, resultKey } from './search-rank'
+
+export const SEARCH_INDEX_VERSION = 1
+
+type IndexEntry = {
+  doc: SearchResult
+  terms: string[]
+  grams: string[]
+  acronym: string
+}
+
+export type SerializedSearchIndex = {
+  version: number
+  entries: IndexEntry[]
+}
+
+// Trigrams one typo can disturb (a transposition touches four)
+const GRAMS_PER_TYPO = 4
+
+const SUFFIXES = ['ational', 'ation', 'ments', 'ment', 'ness', 'ings', 'ing', 'edly', 'ed', 'ers', 'er', 'ly']
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []
+}
+
+/** Light suffix-stripping stemmer, enough to fold plurals and common verb forms together */
+export function stem(word: string): string {
+  if (word.length <= 3) return word
+  if (word.endsWith('ies') && word.length > 4) return `${word.slice(0, -3)}y`
+
+  for (const suffix of SUFFIXES) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      return word.slice(0, -suffix.length)
+    }
+  }
+  if (word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1)
+  return word
+}
+
+/** Padded trigrams, so prefixes and short typos still share grams with the full word */
+export function trigrams(word: string): string[] {
+  const padded = ` ${word} `
+  const grams: string[] = []
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    grams.push(padded.slice(i, i + 3))
+  }
+  return grams
+}
+
+function indexedText(doc: SearchResult): string {
+  return [doc.title, doc.subtitle, doc.description, ...(doc.tags ?? [])].filter(Boolean).join(' ')
+}
+
+function addPosting(postings: Map<string, Set<string>>, key: string, id: string) {
+  let ids = postings.get(key)
+  if (!ids) {
+    ids = new Set()
+    postings.set(key, ids)
+  }
+  ids.add(id)
+}
+
+function removePosting(postings: Map<string, Set<string>>, key: string, id: string) {
+  const ids = postings.get(key)
+  if (!ids) return
+  ids.delete(id)
+  if (ids.size === 0) postings.delete(key)
+}
+
+export class SearchIndex {
+  private entries = new Map<string, IndexEntry>()
+  private terms = new Map<string, Set<string>>()
+  private grams = new Map<string, Set<string>>()
+  private acronyms = new Map<string, Set<string>>()
+
+  static fromJSON(data: SerializedSearchIndex): SearchIndex {
+    const index = new SearchIndex()
+    if (data.version === SEARCH_INDEX_VERSION) {
+      data.entries.forEach(entry => index.insert(entry))
+    }
+    return index
+  }
+
+  get size() {
+    return this.entries.size
+  }
+
+  /** Add or replace documents */
+  add(docs: SearchResult[]) {
+    docs.forEach(doc => {
+      const key = resultKey(doc)
+      if (this.entries.has(key)) this.remove([key])
+
+      const words = tokenize(indexedText(doc))
+      this.insert({
+        doc,
+        terms: Array.from(new Set(words.map(stem))),
+        grams: Array.from(new Set(words.flatMap(trigrams))),
+        acronym: tokenize(doc.title).map(word => word[0]).join('')
+      })
+    })
+  }
+
+  /** Remove documents by `${type}:${id}` key */
+  remove(keys: string[]) {
+    keys.forEach(key => {
+      const entry = this.entries.get(key)
+      if (!entry) return
+      entry.terms.forEach(term => removePosting(this.terms, term, key))
+      entry.grams.forEach(gram => removePosting(this.grams, gram, key))
+      removePosting(this.acronyms, entry.acronym, key)
+      this.entries.delete(key)
+    })
+  }
+
+  /** Make the index hold exactly these documents, touching only what changed */
+  sync(docs: SearchResult[]) {
+    const incoming = new Map(docs.map(doc => [resultKey(doc), doc]))
+    this.remove(this.keys().filter(key => !incoming.has(key)))
+    this.add(docs.filter(doc => {
+      const current = this.entries.get(resultKey(doc))
+      return !current || JSON.stringify(current.doc) !== JSON.stringify(doc)
+    }))
+  }
+
+  clear() {
+    this.entries.clear()
+    this.terms.clear()
+    this.grams.clear()
+    this.acronyms.clear()
+  }
+
+  keys(): string[] {
+    return Array.from(this.entries.keys())
+  }
+
+  /**
+   * Candidates from the postings for the free text, then filtered and fuzzy-ranked.
+   * Every candidate is ranked before the limit applies, so a strong match added late is never cut.
+   */
+  query({ text, type, limit }: SearchQuery): SearchResult[] {
+    const words = tokenize(parseSearchQuery(text).text)
+
+    // Filter-only queries start from every document
+    let candidates = words.length > 0 ? this.candidatesFor(words[0]) : new Set(this.entries.keys())
+    for (const word of words.slice(1)) {
+      if (candidates.size === 0) break
+      const matches = this.candidatesFor(word)
+      candidates = new Set(Array.from(candidates).filter(key => matches.has(key)))
+    }
+
+    const docs = Array.from(candidates)
+      .map(key => this.entries.get(key)!.doc)
+      .filter(doc => !type || doc.type === type)
+
+    const ranked = queryResults(docs, text)
+    return limit ? ranked.slice(0, limit) : ranked
+  }
+
+  toJSON(): SerializedSearchIndex {
+    return { version: SEARCH_INDEX_VERSION, entries: Array.from(this.entries.values()) }
+  }
+
+  private insert(entry: IndexEntry) {
+    const key = resultKey(entry.doc)
+    this.entries.set(key, entry)
+    entry.terms.forEach(term => addPosting(this.terms, term, key))
+    entry.grams.forEach(gram => addPosting(this.grams, gram, key))
+    if (entry.acronym) addPosting(this.acronyms, entry.acronym, key)
+  }
+
+  private candidatesFor(word: string): Set<string> {
+    const found = new Set(this.terms.get(stem(word)) ?? [])
+
+    // Single characters have no useful grams; fall back to term prefixes
+    if (word.length === 1) {
+      this.terms.forEach((keys, term) => {
+        if (term.startsWith(word)) keys.forEach(key => found.add(key))
+      })
+      return found
+    }
+
+    const wordGrams = trigrams(word)
+    // Loose enough for the ranker's typo budget; the ranker does the precise filtering
+    const needed = Math.max(1, wordGrams.length - GRAMS_PER_TYPO * maxTypos(word.length))
+    const overlap = new Map<string, number>()
+    wordGrams.forEach(gram => {
+      this.grams.get(gram)?.forEach(key => overlap.set(key, (overlap.get(key) ?? 0) + 1))
+    })
+    overlap.forEach((count, key) => {
+      if (count >= needed) found.add(key)
+    })
+
+    this.acronyms.forEach((keys, acronym) => {
+      if (acronym.includes(word)) keys.forEach(key => found.add(key))
+    })
+
+    return found
+  }
+}
@@ -0,0 +1,123 @@
+// Web Worker that owns a SearchIndex and keeps it in IndexedDB
+import { SearchIndex, SerializedSearchIndex } from './search-index'
+import type { IndexRequest, IndexResponse } from './search-index-client'
+
+const DB_NAME = 'flux-search-index'
+const STORE_NAME = 'indexes'
+const SAVE_DELAY_MS = 500
+
+type WorkerScope = {
+  postMessage(response: IndexResponse): void
+  addEventListener(type: 'message', listener: (event: MessageEvent<IndexRequest>) => void): void
+}
+
+const scope = self as unknown as WorkerScope
+
+let indexName = 'default'
+let index = new SearchIndex()
+// Commands wait for the persisted index to load
+let loaded: Promise<void> = Promise.resolve()
+let saveTimer: ReturnType<typeof setTimeout> | null = null
+let latestQueryId = -1
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function readIndex(name: string): Promise<SerializedSearchIndex | undefined> {
+  const db = await openDb()
+  try {
+    return await new Promise((resolve, reject) => {
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(name)
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+async function writeIndex(name: string, data: SerializedSearchIndex): Promise<void> {
+  const db = await openDb()
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readwrite')
+      transaction.objectStore(STORE_NAME).put(data, name)
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+// Batch bursts of updates into one write
+function scheduleSave() {
+  if (saveTimer) clearTimeout(saveTimer)
+  saveTimer = setTimeout(() => {
+    saveTimer = null
+    writeIndex(indexName, index.toJSON()).catch(() => {
+      // Persistence is best effort; the in-memory index keeps working
+    })
+  }, SAVE_DELAY_MS)
+}
+
+async function handle(request: IndexRequest): Promise<IndexResponse> {
+  if (request.kind === 'open') {
+    indexName = request.name
+    loaded = readIndex(request.name)
+      .then(data => {
+        if (data) index = SearchIndex.fromJSON(data)
+      })
+      .catch(() => {
+        // Private browsing or blocked storage - start empty
+      })
+    await loaded
+    return { id: request.id, ok: true, size: index.size }
+  }
+
+  await loaded
+
+  switch (request.kind) {
+    case 'add':
+      index.add(request.docs)
+      break
+    case 'remove':
+      index.remove(request.keys)
+      break
+    case 'sync':
+      index.sync(request.docs)
+      break
+    case 'clear':
+      index.clear()
+      break
+    case 'query':
+      // Only the newest query is worth answering while the user types
+      if (request.id !== latestQueryId) return { id: request.id, ok: false, error: 'superseded' }
+      return { id: request.id, ok: true, size: index.size, results: index.query(request.query) }
+  }
+
+  scheduleSave()
+  return { id: request.id, ok: true, size: index.size }
+}
+
+scope.addEventListener('message', (event) => {
+  const request = event.data
+  if (request.kind === 'query') latestQueryId = request.id
+
+  // Yield first so queued keystrokes can supersede this query
+  setTimeout(() => {
+    handle(request)
+      .then(response => scope.postMessage(response))
+      .catch(error => scope.postMessage({
+        id: request.id,
+        ok: false,
+        error: error instanceof Error ? error.message : 'Search index error'
+      }))
+  }, 0)
+})
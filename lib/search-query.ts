@@ -0,0 +1,308 @@
+// Search query language: `type:person tag:react modified:>2025-01-01 "exact phrase" -draft`
+import { SEARCH_RESULT_TYPES, SearchResult, SearchResultType } from './search'
+import { rankResults } from './search-rank'
+
+export type SearchFilterKey = 'type' | 'tag' | 'modified'
+
+export type DateOperator = '>' | '>=' | '<' | '<=' | '='
+
+type TokenSpan = {
+  // Position in the raw query, for chips and completion
+  start: number
+  end: number
+  negated: boolean
+}
+
+export type QueryToken =
+  | (TokenSpan & { kind: 'term'; value: string })
+  | (TokenSpan & { kind: 'phrase'; value: string })
+  | (TokenSpan & { kind: 'filter'; key: 'type'; value: string; resultType: SearchResultType | null })
+  | (TokenSpan & { kind: 'filter'; key: 'tag'; value: string })
+  | (TokenSpan & { kind: 'filter'; key: 'modified'; value: string; op: DateOperator; date: Date | null })
+
+export type ParsedQuery = {
+  tokens: QueryToken[]
+  // Positive words and phrases, used for ranking and highlighting
+  text: string
+}
+
+export type FilterKeyInfo = {
+  key: SearchFilterKey
+  description: string
+  example: string
+}
+
+export const SEARCH_FILTER_KEYS: FilterKeyInfo[] = [
+  { key: 'type', description: 'Result category', example: 'type:person' },
+  { key: 'tag', description: 'Has a tag', example: 'tag:react' },
+  { key: 'modified', description: 'Last modified date', example: 'modified:>2025-01-01' }
+]
+
+// Plural and short forms people type for categories
+const TYPE_ALIASES: Record<string, SearchResultType> = {
+  people: 'person',
+  projects: 'project',
+  doc: 'document',
+  docs: 'document',
+  documents: 'document',
+  messages: 'message',
+  files: 'file',
+  actions: 'action',
+  command: 'action',
+  commands: 'action'
+}
+
+const DATE_OPERATORS: DateOperator[] = ['>=', '<=', '>', '<', '=']
+
+function isFilterKey(key: string): key is SearchFilterKey {
+  return SEARCH_FILTER_KEYS.some(info => info.key === key)
+}
+
+export function resolveResultType(value: string): SearchResultType | null {
+  const lower = value.toLowerCase()
+  if (SEARCH_RESULT_TYPES.includes(lower as SearchResultType)) return lower as SearchResultType
+  return TYPE_ALIASES[lower] ?? null
+}
+
+// YYYY, YYYY-MM or YYYY-MM-DD, read as local midnight at the start of the period
+function parseDate(value: string): Date | null {
+  const match = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/.exec(value)
+  if (!match) return null
+  const date = new Date(Number(match[1]), Number(match[2] ?? 1) - 1, Number(match[3] ?? 1))
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+function unquote(value: string): string {
+  return value.replace(/^"/, '').replace(/"$/, '')
+}
+
+// Split into raw tokens; quoted sections keep their spaces
+function scan(input: string): { raw: string; start: number; end: number }[] {
+  const tokens: { raw: string; start: number; end: number }[] = []
+  let i = 0
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++
+      continue
+    }
+    const start = i
+    let quoted = false
+    while (i < input.length && (quoted || !/\s/.test(input[i]))) {
+      if (input[i] === '"') quoted = !quoted
+      i++
+    }
+    tokens.push({ raw: input.slice(start, i), start, end: i })
+  }
+  return tokens
+}
+
+/** Parse a raw query; unknown `key:value` pairs are kept as plain words */
+export function parseSearchQuery(input: string): ParsedQuery {
+  const tokens: QueryToken[] = []
+
+  scan(input).forEach(({ raw, start, end }) => {
+    const negated = raw.length > 1 && raw.startsWith('-')
+    const body = negated ? raw.slice(1) : raw
+    const span = { start, end, negated }
+    const filter = /^([a-z]+):(.*)$/i.exec(body)
+
+    if (filter && isFilterKey(filter[1].toLowerCase()) && filter[2] !== '') {
+      const key = filter[1].toLowerCase() as SearchFilterKey
+      const value = unquote(filter[2])
+
+      if (key === 'type') {
+        tokens.push({ ...span, kind: 'filter', key, value, resultType: resolveResultType(value) })
+      } else if (key === 'tag') {
+        tokens.push({ ...span, kind: 'filter', key, value })
+      } else {
+        const op = DATE_OPERATORS.find(operator => value.startsWith(operator)) ?? '='
+        const dateText = value.startsWith(op) ? value.slice(op.length) : value
+        tokens.push({ ...span, kind: 'filter', key, value, op, date: parseDate(dateText) })
+      }
+    } else if (body.startsWith('"')) {
+      const value = unquote(body).trim()
+      if (value) tokens.push({ ...span, kind: 'phrase', value })
+    } else if (body) {
+      tokens.push({ ...span, kind: 'term', value: body })
+    }
+  })
+
+  const text = tokens
+    .filter(token => !token.negated && (token.kind === 'term' || token.kind === 'phrase'))
+    .map(token => token.value)
+    .join(' ')
+
+  return { tokens, text }
+}
+
+/** Whether a token parsed into something usable; invalid filters are ignored when matching */
+export function isValidToken(token: QueryToken): boolean {
+  if (token.kind !== 'filter') return true
+  if (token.key === 'type') return token.resultType !== null
+  if (token.key === 'modified') return token.date !== null
+  return true
+}
+
+function searchableText(result: SearchResult): string {
+  return [result.title, result.subtitle, result.description, ...(result.tags ?? [])]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase()
+}
+
+function compareDates(actual: Date, op: DateOperator, target: Date, value: string): boolean {
+  // Equality covers the whole period written, e.g. a day or a month
+  const parts = value.replace(/^[<>=]+/, '').split('-').length
+  const end = new Date(target)
+  if (parts === 1) end.setFullYear(end.getFullYear() + 1)
+  else if (parts === 2) end.setMonth(end.getMonth() + 1)
+  else end.setDate(end.getDate() + 1)
+
+  const time = actual.getTime()
+  switch (op) {
+    case '>': return time >= end.getTime()
+    case '>=': return time >= target.getTime()
+    case '<': return time < target.getTime()
+    case '<=': return time < end.getTime()
+    case '=': return time >= target.getTime() && time < end.getTime()
+  }
+}
+
+function tokenMatches(token: QueryToken, result: SearchResult, text: string): boolean {
+  switch (token.kind) {
+    case 'term':
+    case 'phrase':
+      return text.includes(token.value.toLowerCase())
+    case 'filter':
+      if (token.key === 'type') return result.type === token.resultType
+      if (token.key === 'tag') {
+        const wanted = token.value.toLowerCase()
+        return (result.tags ?? []).some(tag => tag.toLowerCase() === wanted)
+      }
+      return !!result.lastModified && !!token.date &&
+        compareDates(new Date(result.lastModified), token.op, token.date, token.value)
+  }
+}
+
+/** Filters, phrases and negations; positive plain words are left to the ranker */
+export function matchesParsedQuery(result: SearchResult, parsed: ParsedQuery): boolean {
+  const text = searchableText(result)
+  return parsed.tokens.every(token => {
+    if (!isValidToken(token)) return true
+    if (token.kind === 'term' && !token.negated) return true
+    return tokenMatches(token, result, text) !== token.negated
+  })
+}
+
+/** Apply a raw query to a list: structured matching first, then fuzzy ranking on the free text */
+export function queryResults(items: SearchResult[], input: string): SearchResult[] {
+  const parsed = parseSearchQuery(input)
+  const matching = items.filter(item => matchesParsedQuery(item, parsed))
+  if (!parsed.text.trim()) {
+    // Filter-only queries list everything that matches, best known first
+    return [...matching].sort((a, b) => (b.score || 0) - (a.score || 0))
+  }
+  return rankResults(matching, parsed.text)
+}
+
+export type QueryCompletion = {
+  label: string
+  description?: string
+  // Replace input[start, end) with `insert`
+  insert: string
+  start: number
+  end: number
+}
+
+type CompletionContext = {
+  // Known tag values, e.g. from the current results
+  tags?: string[]
+  now?: Date
+}
+
+function isoDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/** Suggestions for the word under the cursor: filter keys, then values for the chosen key */
+export function completeSearchQuery(
+  input: string,
+  cursor: number,
+  { tags = [], now = new Date() }: CompletionContext = {}
+): QueryCompletion[] {
+  const token = scan(input).find(({ start, end }) => cursor >= start && cursor <= end)
+  const start = token?.start ?? cursor
+  const end = token?.end ?? cursor
+  const raw = token ? input.slice(start, cursor) : ''
+  const prefix = raw.startsWith('-') ? '-' : ''
+  const body = raw.slice(prefix.length)
+  const separator = body.indexOf(':')
+
+  // Key position
+  if (separator === -1) {
+    if (!body || body.startsWith('"')) return []
+    return SEARCH_FILTER_KEYS
+      .filter(info => info.key.startsWith(body.toLowerCase()) && info.key !== body.toLowerCase())
+      .map(info => ({
+        label: `${info.key}:`,
+        description: info.description,
+        insert: `${prefix}${info.key}:`,
+        start,
+        end
+      }))
+  }
+
+  const key = body.slice(0, separator).toLowerCase()
+  const partial = unquote(body.slice(separator + 1)).toLowerCase()
+  if (!isFilterKey(key)) return []
+
+  let values: { value: string; description?: string }[] = []
+  if (key === 'type') {
+    values = SEARCH_RESULT_TYPES.map(type => ({ value: type }))
+  } else if (key === 'tag') {
+    values = Array.from(new Set(tags.map(tag => tag.toLowerCase()))).sort().map(tag => ({ value: tag }))
+  } else {
+    const weekAgo = new Date(now)
+    weekAgo.setDate(weekAgo.getDate() - 7)
+    const monthAgo = new Date(now)
+    monthAgo.setMonth(monthAgo.getMonth() - 1)
+    values = [
+      { value: `>${isoDate(weekAgo)}`, description: 'In the last week' },
+      { value: `>${isoDate(monthAgo)}`, description: 'In the last month' },
+      { value: `>${now.getFullYear()}-01-01`, description: 'This year' },
+      { value: `<${now.getFullYear()}-01-01`, description: 'Before this year' }
+    ]
+  }
+
+  return values
+    .filter(({ value }) => value.toLowerCase().startsWith(partial) && value.toLowerCase() !== partial)
+    .slice(0, 8)
+    .map(({ value, description }) => ({
+      label: `${key}:${value}`,
+      description,
+      insert: `${prefix}${key}:${/\s/.test(value) ? `"${value}"` : value} `,
+      start,
+      end
+    }))
+}
+
+/** Human label for a chip */
+export function describeToken(token: QueryToken): string {
+  const not = token.negated ? 'not ' : ''
+  switch (token.kind) {
+    case 'term':
+      return `${not}${token.value}`
+    case 'phrase':
+      return `${not}"${token.value}"`
+    case 'filter':
+      if (token.key === 'modified') {
+        const when = token.date ? token.value.replace(/^[<>=]+/, '') : token.value
+        const label = { '>': 'after', '>=': 'from', '<': 'before', '<=': 'up to', '=': 'on' }[token.op]
+        return `${not}modified ${label} ${when}`
+      }
+      return `${not}${token.key}: ${token.value}`
+  }
+}
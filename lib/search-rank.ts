@@ -0,0 +1,242 @@
+// Fuzzy ranking for search results - typo tolerance, prefixes, acronyms and field weights
+import type { SearchResult } from './search'
+
+// Half-open [start, end) character range within a field
+export type MatchRange = [number, number]
+
+export type RankedField = 'title' | 'tags' | 'subtitle' | 'description'
+
+export type MatchRanges = Partial<Record<RankedField, MatchRange[]>>
+
+export type RankMatch = {
+  score: number
+  ranges: MatchRanges
+}
+
+// Timestamps of recent selections keyed by `${type}:${id}`
+export type RecentSelections = Record<string, number>
+
+export const FIELD_WEIGHTS: Record<RankedField, number> = {
+  title: 1,
+  tags: 0.7,
+  subtitle: 0.5,
+  description: 0.4
+}
+
+// How good each kind of word match is before the field weight applies
+const MATCH_SCORES = {
+  exact: 1,
+  acronym: 0.9,
+  prefix: 0.85,
+  substring: 0.65,
+  fuzzy: 0.55
+}
+
+const RECENT_BOOST = 0.25
+const RECENT_HALF_LIFE_MS = 7 * 24 * 60 * 60 * 1000
+
+type Token = {
+  text: string
+  start: number
+}
+
+type WordMatch = {
+  score: number
+  field: RankedField
+  ranges: MatchRange[]
+}
+
+export function resultKey(result: Pick<SearchResult, 'id' | 'type'>): string {
+  return `${result.type}:${result.id}`
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  const pattern = /[\p{L}\p{N}]+/gu
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text)) !== null) {
+    tokens.push({ text: match[0].toLowerCase(), start: match.index })
+  }
+  return tokens
+}
+
+// Typos tolerated for a word of this length
+export function maxTypos(length: number): number {
+  if (length <= 3) return 0
+  if (length <= 6) return 1
+  return 2
+}
+
+/** Optimal string alignment distance (Levenshtein plus adjacent swaps), giving up past `limit` */
+export function editDistance(a: string, b: string, limit = Infinity): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1
+
+  let previousRow: number[] = []
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j)
+
+  for (let i = 1; i <= a.length; i++) {
+    const twoBack = previousRow
+    previousRow = row
+    row = [i]
+    let rowMin = i
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let value = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, twoBack[j - 2] + 1)
+      }
+      row[j] = value
+      rowMin = Math.min(rowMin, value)
+    }
+
+    if (rowMin > limit) return limit + 1
+  }
+
+  return row[b.length]
+}
+
+// Best way a single query word matches one token
+function matchToken(word: string, token: Token): { score: number; range: MatchRange } | null {
+  const { text, start } = token
+
+  if (text === word) return { score: MATCH_SCORES.exact, range: [start, start + text.length] }
+  if (text.startsWith(word)) return { score: MATCH_SCORES.prefix, range: [start, start + word.length] }
+
+  const index = text.indexOf(word)
+  if (index > 0 && word.length >= 2) {
+    return { score: MATCH_SCORES.substring, range: [start + index, start + index + word.length] }
+  }
+
+  const typos = maxTypos(word.length)
+  if (typos === 0) return null
+
+  // Whole token with typos, or the start of it while the word is still being typed
+  const whole = editDistance(word, text, typos)
+  if (whole <= typos) {
+    return { score: MATCH_SCORES.fuzzy - 0.1 * whole, range: [start, start + text.length] }
+  }
+  const head = text.slice(0, word.length)
+  const partial = editDistance(word, head, typos)
+  if (partial <= typos) {
+    return { score: (MATCH_SCORES.fuzzy - 0.1 * partial) * 0.9, range: [start, start + head.length] }
+  }
+  return null
+}
+
+// Query word as the initials of consecutive tokens, e.g. "fds" for "FLUX Design System"
+function matchAcronym(word: string, tokens: Token[]): MatchRange[] | null {
+  if (word.length < 2 || tokens.length < word.length) return null
+
+  for (let first = 0; first + word.length <= tokens.length; first++) {
+    const run = tokens.slice(first, first + word.length)
+    if (run.every((token, i) => token.text[0] === word[i])) {
+      return run.map(token => [token.start, token.start + 1] as MatchRange)
+    }
+  }
+  return null
+}
+
+function fieldTexts(result: SearchResult): [RankedField, string][] {
+  const fields: [RankedField, string][] = [['title', result.title]]
+  if (result.tags?.length) fields.push(['tags', result.tags.join(' ')])
+  if (result.subtitle) fields.push(['subtitle', result.subtitle])
+  if (result.description) fields.push(['description', result.description])
+  return fields
+}
+
+function matchWord(word: string, fields: [RankedField, Token[]][]): WordMatch | null {
+  let best: WordMatch | null = null
+
+  for (const [field, tokens] of fields) {
+    const weight = FIELD_WEIGHTS[field]
+
+    for (const token of tokens) {
+      const match = matchToken(word, token)
+      if (match && (!best || match.score * weight > best.score)) {
+        best = { score: match.score * weight, field, ranges: [match.range] }
+      }
+    }
+
+    const acronym = matchAcronym(word, tokens)
+    if (acronym && (!best || MATCH_SCORES.acronym * weight > best.score)) {
+      best = { score: MATCH_SCORES.acronym * weight, field, ranges: acronym }
+    }
+  }
+
+  return best
+}
+
+// Sort and merge overlapping ranges
+function normalizeRanges(ranges: MatchRange[]): MatchRange[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0])
+  const merged: MatchRange[] = []
+  sorted.forEach(([start, end]) => {
+    const last = merged[merged.length - 1]
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end)
+    } else {
+      merged.push([start, end])
+    }
+  })
+  return merged
+}
+
+/** Score a result against a query; null unless every query word matches some field */
+export function rankResult(result: SearchResult, query: string): RankMatch | null {
+  const words = tokenize(query).map(token => token.text)
+  if (words.length === 0) return null
+
+  const fields = fieldTexts(result).map(([field, text]) => [field, tokenize(text)] as [RankedField, Token[]])
+  const ranges: MatchRanges = {}
+  let total = 0
+
+  for (const word of words) {
+    const match = matchWord(word, fields)
+    if (!match) return null
+    total += match.score
+    ranges[match.field] = [...(ranges[match.field] ?? []), ...match.ranges]
+  }
+
+  Object.keys(ranges).forEach(field => {
+    const key = field as RankedField
+    ranges[key] = normalizeRanges(ranges[key] ?? [])
+  })
+
+  return { score: total / words.length, ranges }
+}
+
+/** Keep matching results, scored and sorted best first; the static score only breaks ties */
+export function rankResults(results: SearchResult[], query: string): SearchResult[] {
+  return results
+    .map(result => ({ result, match: rankResult(result, query) }))
+    .filter((entry): entry is { result: SearchResult; match: RankMatch } => entry.match !== null)
+    .sort((a, b) => b.match.score - a.match.score || (b.result.score || 0) - (a.result.score || 0))
+    .map(({ result, match }) => ({ ...result, score: match.score, matches: match.ranges }))
+}
+
+/** Lift recently selected results, fading the boost with a one-week half-life */
+export function boostRecent(results: SearchResult[], recent: RecentSelections, now = Date.now()): SearchResult[] {
+  return results
+    .map(result => {
+      const selectedAt = recent[resultKey(result)]
+      if (!selectedAt) return result
+      const decay = Math.pow(0.5, Math.max(0, now - selectedAt) / RECENT_HALF_LIFE_MS)
+      return { ...result, score: (result.score || 0) + RECENT_BOOST * decay }
+    })
+    .sort((a, b) => (b.score || 0) - (a.score || 0))
+}
+
+/** Split text into alternating plain and matched parts; odd indexes are matches */
+export function splitByRanges(text: string, ranges: MatchRange[] | undefined): string[] {
+  if (!ranges?.length) return [text]
+
+  const parts: string[] = []
+  let cursor = 0
+  normalizeRanges(ranges).forEach(([start, end]) => {
+    parts.push(text.slice(cursor, start), text.slice(start, end))
+    cursor = end
+  })
+  parts.push(text.slice(cursor))
+  return parts
+}
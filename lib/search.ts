@@ -0,0 +1,163 @@
+// Search contracts shared by the SmartSearch UI and the /api/search route
+import { queryResults } from './search-query'
+import { MatchRanges, resultKey } from './search-rank'
+
+// Search result types
+export type SearchResultType = 'person' | 'project' | 'document' | 'message' | 'file' | 'action'
+
+export const SEARCH_RESULT_TYPES: SearchResultType[] = ['person', 'project', 'document', 'message', 'file', 'action']
+
+export interface SearchResult {
+  id: string
+  type: SearchResultType
+  title: string
+  description?: string
+  subtitle?: string
+  category?: string
+  tags?: string[]
+  lastModified?: Date
+  url?: string
+  icon?: string
+  avatar?: string
+  score?: number
+  highlighted?: string[]
+  // Where the query matched, per field, for highlighting
+  matches?: MatchRanges
+}
+
+export type SearchQuery = {
+  // Raw query, including any `key:value` filters (see search-query)
+  text: string
+  // Restrict to one category; providers that cannot return it are skipped
+  type?: SearchResultType
+  limit?: number
+}
+
+export type SearchFacets = Partial<Record<SearchResultType, number>>
+
+// Pluggable data source - may answer synchronously or asynchronously, and should stop on abort
+export interface SearchProvider {
+  id: string
+  types: SearchResultType[]
+  search(query: SearchQuery, signal?: AbortSignal): SearchResult[] | Promise<SearchResult[]>
+}
+
+export type SearchResponse = {
+  results: SearchResult[]
+  // Matches per category before the limit was applied
+  facets: SearchFacets
+  // Ids of providers that failed; results from the others are still returned
+  failed: string[]
+}
+
+export class SearchAbortedError extends Error {
+  constructor() {
+    super('Search aborted')
+    this.name = 'SearchAbortedError'
+  }
+}
+
+export const DEFAULT_SEARCH_LIMIT = 20
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw new SearchAbortedError()
+}
+
+export function isSearchResultType(value: unknown): value is SearchResultType {
+  return SEARCH_RESULT_TYPES.includes(value as SearchResultType)
+}
+
+// Provider over a fixed list, or a list computed on each query
+export function createStaticProvider(
+  id: string,
+  types: SearchResultType[],
+  items: SearchResult[] | (() => SearchResult[])
+): SearchProvider {
+  return {
+    id,
+    types,
+    search(query) {
+      const source = typeof items === 'function' ? items() : items
+      return queryResults(
+        source.filter(item => !query.type || item.type === query.type),
+        query.text
+      )
+    }
+  }
+}
+
+/** Query every applicable provider in parallel and merge by score, keeping the first of any duplicates */
+export async function searchProviders(
+  providers: SearchProvider[],
+  query: SearchQuery,
+  signal?: AbortSignal
+): Promise<SearchResponse> {
+  throwIfAborted(signal)
+  if (!query.text.trim()) return { results: [], facets: {}, failed: [] }
+
+  const applicable = providers.filter(provider => !query.type || provider.types.includes(query.type))
+  const settled = await Promise.allSettled(
+    applicable.map(async provider => provider.search(query, signal))
+  )
+  throwIfAborted(signal)
+
+  const seen = new Set<string>()
+  const results: SearchResult[] = []
+  const failed: string[] = []
+
+  settled.forEach((outcome, index) => {
+    if (outcome.status === 'rejected') {
+      failed.push(applicable[index].id)
+      return
+    }
+    outcome.value.forEach(result => {
+      const key = resultKey(result)
+      if (seen.has(key)) return
+      seen.add(key)
+      results.push(result)
+    })
+  })
+
+  // Counted after de-duplication, so an item several providers return counts once
+  const facets: SearchFacets = {}
+  results.forEach(result => {
+    facets[result.type] = (facets[result.type] ?? 0) + 1
+  })
+
+  results.sort((a, b) => (b.score || 0) - (a.score || 0))
+  return { results: results.slice(0, query.limit ?? DEFAULT_SEARCH_LIMIT), facets, failed }
+}
+
+// JSON drops Date instances; restore them on the client
+function reviveResult(result: SearchResult): SearchResult {
+  return {
+    ...result,
+    lastModified: result.lastModified ? new Date(result.lastModified) : undefined
+  }
+}
+
+/** Provider backed by the /api/search route */
+export function createRemoteProvider(
+  endpoint = '/api/search',
+  types: SearchResultType[] = ['person', 'project', 'document', 'message', 'file']
+): SearchProvider {
+  return {
+    id: 'remote',
+    types,
+    async search(query, signal) {
+      const params = new URLSearchParams({ q: query.text })
+      if (query.type) params.set('type', query.type)
+      if (query.limit) params.set('limit', String(query.limit))
+
+      const response = await fetch(`${endpoint}?${params}`, { signal })
+      if (!response.ok) throw new Error(`Search failed with status ${response.status}`)
+
+      const body: SearchResponse = await response.json()
+      // Partial server failures are not fatal when something came back
+      if (body.failed.length > 0 && body.results.length === 0) {
+        throw new Error(`Search sources unavailable: ${body.failed.join(', ')}`)
+      }
+      return body.results.map(reviveResult)
+    }
+  }
+}
@@ -0,0 +1,72 @@
+// Multi-selection over an ordered list: plain, toggle (Ctrl/⌘), range (Shift) and lasso picks
+export type Selection = {
+  // Kept in list order
+  ids: string[]
+  // Where Shift ranges start
+  anchorId: string | null
+  // Keyboard cursor
+  focusId: string | null
+}
+
+export const EMPTY_SELECTION: Selection = { ids: [], anchorId: null, focusId: null }
+
+function inOrder(order: string[], ids: Iterable<string>): string[] {
+  const wanted = new Set(ids)
+  return order.filter(id => wanted.has(id))
+}
+
+export function selectOnly(id: string): Selection {
+  return { ids: [id], anchorId: id, focusId: id }
+}
+
+export function toggleSelected(selection: Selection, order: string[], id: string): Selection {
+  const ids = selection.ids.includes(id)
+    ? selection.ids.filter(other => other !== id)
+    : inOrder(order, [...selection.ids, id])
+  return { ids, anchorId: id, focusId: id }
+}
+
+/** Everything between the anchor and `id`; `additive` keeps what was already selected (Ctrl+Shift) */
+export function selectRange(selection: Selection, order: string[], id: string, additive = false): Selection {
+  const anchorId = selection.anchorId && order.includes(selection.anchorId) ? selection.anchorId : id
+  const [from, to] = [order.indexOf(anchorId), order.indexOf(id)].sort((a, b) => a - b)
+  const range = order.slice(from, to + 1)
+  return { ids: inOrder(order, additive ? [...selection.ids, ...range] : range), anchorId, focusId: id }
+}
+
+export function selectAll(order: string[]): Selection {
+  return { ids: [...order], anchorId: order[0] ?? null, focusId: order[order.length - 1] ?? null }
+}
+
+/** Lasso hits, optionally on top of an earlier selection */
+export function selectHits(base: Selection, order: string[], hits: string[]): Selection {
+  const ids = inOrder(order, [...base.ids, ...hits])
+  return { ids, anchorId: hits[0] ?? base.anchorId, focusId: hits[hits.length - 1] ?? base.focusId }
+}
+
+/**
+ * Step the cursor. `select` moves the selection with it (wrapping at the ends), `extend` grows a
+ * range from the anchor, `focus` moves only the cursor so Space can pick items one by one.
+ */
+export function moveFocus(selection: Selection, order: string[], step: number, mode: 'select' | 'extend' | 'focus'): Selection {
+  if (order.length === 0) return selection
+  const index = selection.focusId ? order.indexOf(selection.focusId) : -1
+  let next: number
+  if (index === -1) next = step > 0 ? 0 : order.length - 1
+  else if (mode === 'extend') next = Math.min(order.length - 1, Math.max(0, index + step))
+  else next = (index + step + order.length) % order.length
+  const id = order[next]
+  if (mode === 'select') return selectOnly(id)
+  if (mode === 'extend') return selectRange(index === -1 ? { ...selection, anchorId: id } : selection, order, id)
+  return { ...selection, focusId: id }
+}
+
+/** Forget ids that left the list, e.g. after a move or delete */
+export function pruneSelection(selection: Selection, order: string[]): Selection {
+  const ids = inOrder(order, selection.ids)
+  const keep = (id: string | null) => (id && order.includes(id) ? id : null)
+  if (ids.length === selection.ids.length && keep(selection.anchorId) === selection.anchorId && keep(selection.focusId) === selection.focusId) {
+    return selection
+  }
+  return { ids, anchorId: keep(selection.anchorId), focusId: keep(selection.focusId) }
+}
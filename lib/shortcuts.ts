@@ -0,0 +1,366 @@
+// Central keyboard shortcut manager - one document listener, modal layers, focus regions and user remapping
+
+export type KeyStroke = {
+  key: string
+  mod: boolean
+  shift: boolean
+  alt: boolean
+}
+
+export const ROOT_LAYER = 'root'
+// Shortcuts on this layer stay active under every modal
+export const ANY_LAYER = '*'
+
+// Attribute marking a focus region, e.g. <div data-shortcut-region="folder">
+export const REGION_ATTRIBUTE = 'data-shortcut-region'
+
+// How long to wait for the next step of a chord
+export const CHORD_TIMEOUT_MS = 1000
+
+export interface Shortcut {
+  id: string
+  // `mod+k`, `shift+?`, `escape`, or a chord of space-separated steps such as `g d`; `mod` is ⌘ on Mac, Ctrl elsewhere
+  keys: string
+  description: string
+  // Heading in the cheat sheet
+  group?: string
+  // Modal layer the shortcut belongs to; only the top layer (and ANY_LAYER) receives keys
+  layer?: string
+  // Only active while focus is inside the element marked with this region
+  region?: string
+  // Plain keys normally belong to the text field being typed in
+  allowInInput?: boolean
+  when?: () => boolean
+  // Return false to let the key through to the next match and the page
+  handler: (event: KeyboardEvent) => void | boolean
+}
+
+export type ShortcutConflict = {
+  keys: string
+  ids: string[]
+}
+
+// What is active for a given focus position
+export type ShortcutContext = {
+  layer: string
+  regions: string[]
+}
+
+const MODIFIER_KEYS = ['shift', 'control', 'alt', 'meta']
+
+export function isMac(): boolean {
+  return typeof navigator !== 'undefined' && /mac|iphone|ipad/i.test(navigator.platform)
+}
+
+export function parseKeybinding(binding: string): KeyStroke[] {
+  return binding.trim().split(/\s+/).map(step => {
+    const parts = step.toLowerCase().split('+')
+    // `shift++` binds the plus key itself
+    const key = step.endsWith('++') ? '+' : parts[parts.length - 1]
+    return {
+      key: key === 'space' ? ' ' : key === 'esc' ? 'escape' : key,
+      mod: parts.includes('mod') || parts.includes('cmd') || parts.includes('ctrl'),
+      shift: parts.includes('shift'),
+      alt: parts.includes('alt')
+    }
+  })
+}
+
+export function strokeFromEvent(event: KeyboardEvent): KeyStroke {
+  return {
+    key: event.key.toLowerCase(),
+    mod: event.metaKey || event.ctrlKey,
+    shift: event.shiftKey,
+    alt: event.altKey
+  }
+}
+
+// Symbols such as `?` already imply shift on most layouts
+function shiftMatters(key: string): boolean {
+  return /^[a-z0-9 ]$/.test(key) || key.length > 1
+}
+
+export function strokesMatch(expected: KeyStroke, actual: KeyStroke): boolean {
+  return expected.key === actual.key &&
+    expected.mod === actual.mod &&
+    expected.alt === actual.alt &&
+    (!shiftMatters(expected.key) || expected.shift === actual.shift)
+}
+
+/** Canonical text for a stroke sequence, so `Ctrl+K` and `mod+k` compare equal */
+export function serializeKeybinding(strokes: KeyStroke[]): string {
+  return strokes.map(stroke => {
+    const key = stroke.key === ' ' ? 'space' : stroke.key
+    return [
+      stroke.mod && 'mod',
+      stroke.alt && 'alt',
+      stroke.shift && shiftMatters(stroke.key) && 'shift',
+      key
+    ].filter(Boolean).join('+')
+  }).join(' ')
+}
+
+/** Display form: `mod+k` becomes ⌘K on Mac and Ctrl+K elsewhere; chord steps are space separated */
+export function formatKeybinding(binding: string, mac = isMac()): string {
+  return parseKeybinding(binding).map(stroke => {
+    const named: Record<string, string> = { ' ': 'Space', arrowup: '↑', arrowdown: '↓', arrowleft: '←', arrowright: '→', escape: 'Esc' }
+    const key = named[stroke.key] ?? (stroke.key.length === 1 ? stroke.key.toUpperCase() : stroke.key[0].toUpperCase() + stroke.key.slice(1))
+    if (mac) {
+      return `${stroke.mod ? '⌘' : ''}${stroke.alt ? '⌥' : ''}${stroke.shift ? '⇧' : ''}${key}`
+    }
+    return [stroke.mod && 'Ctrl', stroke.alt && 'Alt', stroke.shift && 'Shift', key].filter(Boolean).join('+')
+  }).join(' ')
+}
+
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (typeof HTMLElement === 'undefined' || !(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
+
+/** Regions containing `element`, innermost first */
+export function regionsOf(element: Element | null): string[] {
+  const regions: string[] = []
+  let node = element?.closest(`[${REGION_ATTRIBUTE}]`) ?? null
+  while (node) {
+    const region = node.getAttribute(REGION_ATTRIBUTE)
+    if (region) regions.push(region)
+    node = node.parentElement?.closest(`[${REGION_ATTRIBUTE}]`) ?? null
+  }
+  return regions
+}
+
+function isPrefix(shorter: KeyStroke[], longer: KeyStroke[]): boolean {
+  return shorter.length <= longer.length && shorter.every((stroke, i) => strokesMatch(stroke, longer[i]) && strokesMatch(longer[i], stroke))
+}
+
+export class ShortcutManager {
+  private shortcuts = new Map<string, Shortcut>()
+  private overrides: Record<string, string> = {}
+  // Entries are objects so the same layer name can be pushed twice and popped independently
+  private layers: { name: string }[] = [{ name: ROOT_LAYER }]
+  private listeners = new Set<() => void>()
+  private version = 0
+
+  /** Add shortcuts; returns a function that removes exactly these registrations */
+  register(shortcuts: Shortcut | Shortcut[]): () => void {
+    const list = Array.isArray(shortcuts) ? shortcuts : [shortcuts]
+    list.forEach(shortcut => this.shortcuts.set(shortcut.id, shortcut))
+    this.emit()
+
+    return () => {
+      list.forEach(shortcut => {
+        if (this.shortcuts.get(shortcut.id) === shortcut) this.shortcuts.delete(shortcut.id)
+      })
+      this.emit()
+    }
+  }
+
+  /** Open a modal layer; shortcuts below it go quiet until the returned function closes it */
+  pushLayer(layer: string): () => void {
+    const entry = { name: layer }
+    this.layers.push(entry)
+    this.emit()
+
+    return () => {
+      const index = this.layers.indexOf(entry)
+      if (index > 0) {
+        this.layers.splice(index, 1)
+        this.emit()
+      }
+    }
+  }
+
+  get activeLayer(): string {
+    return this.layers[this.layers.length - 1].name
+  }
+
+  /** Layer directly under the topmost `layer`, i.e. what a modal is covering */
+  layerBelow(layer: string): string {
+    for (let i = this.layers.length - 1; i > 0; i--) {
+      if (this.layers[i].name === layer) return this.layers[i - 1].name
+    }
+    return this.activeLayer
+  }
+
+  /** User remaps keyed by shortcut id */
+  setOverrides(overrides: Record<string, string>) {
+    this.overrides = { ...overrides }
+    this.emit()
+  }
+
+  get(id: string): Shortcut | undefined {
+    return this.shortcuts.get(id)
+  }
+
+  list(): Shortcut[] {
+    return Array.from(this.shortcuts.values())
+  }
+
+  /** Effective keys for a shortcut, after user remapping */
+  bindingFor(id: string): string | undefined {
+    return this.overrides[id] ?? this.shortcuts.get(id)?.keys
+  }
+
+  isRemapped(id: string): boolean {
+    return id in this.overrides && this.overrides[id] !== this.shortcuts.get(id)?.keys
+  }
+
+  contextFor(element: Element | null): ShortcutContext {
+    return { layer: this.activeLayer, regions: regionsOf(element) }
+  }
+
+  isActive(shortcut: Shortcut, context: ShortcutContext): boolean {
+    const layer = shortcut.layer ?? ROOT_LAYER
+    if (layer !== ANY_LAYER && layer !== context.layer) return false
+    if (shortcut.region && !context.regions.includes(shortcut.region)) return false
+    try {
+      return shortcut.when?.() ?? true
+    } catch {
+      return false
+    }
+  }
+
+  /** Shortcuts that would respond right now for focus at `element`, innermost region first */
+  active(element: Element | null = typeof document === 'undefined' ? null : document.activeElement): Shortcut[] {
+    const context = this.contextFor(element)
+    return this.sortBySpecificity(this.list().filter(shortcut => this.isActive(shortcut, context)), context)
+  }
+
+  /**
+   * Shortcuts that can shadow each other: same layer, overlapping regions, and keys that are
+   * equal or where one is the start of the other's chord.
+   */
+  findConflicts(): ShortcutConflict[] {
+    const entries = this.list().map(shortcut => ({ shortcut, strokes: parseKeybinding(this.bindingFor(shortcut.id) ?? shortcut.keys) }))
+    const conflicts = new Map<string, Set<string>>()
+
+    entries.forEach((a, i) => {
+      entries.slice(i + 1).forEach(b => {
+        if (!this.canOverlap(a.shortcut, b.shortcut)) return
+        const [shorter, longer] = a.strokes.length <= b.strokes.length ? [a.strokes, b.strokes] : [b.strokes, a.strokes]
+        if (!isPrefix(shorter, longer)) return
+
+        const keys = serializeKeybinding(shorter)
+        const ids = conflicts.get(keys) ?? new Set<string>()
+        ids.add(a.shortcut.id).add(b.shortcut.id)
+        conflicts.set(keys, ids)
+      })
+    })
+
+    return Array.from(conflicts, ([keys, ids]) => ({ keys, ids: Array.from(ids) }))
+  }
+
+  /** Ids a proposed binding for `id` would clash with */
+  conflictsFor(id: string, keys: string): string[] {
+    const shortcut = this.shortcuts.get(id)
+    if (!shortcut) return []
+    const strokes = parseKeybinding(keys)
+
+    return this.list()
+      .filter(other => other.id !== id && this.canOverlap(shortcut, other))
+      .filter(other => {
+        const otherStrokes = parseKeybinding(this.bindingFor(other.id) ?? other.keys)
+        return strokes.length <= otherStrokes.length ? isPrefix(strokes, otherStrokes) : isPrefix(otherStrokes, strokes)
+      })
+      .map(other => other.id)
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  // Changes with every registration, layer or remap
+  getVersion = (): number => this.version
+
+  /** Listen for keys on `target`; returns a cleanup function */
+  install(target: Document | HTMLElement = document): () => void {
+    let pending: KeyStroke[] = []
+    let timer: ReturnType<typeof setTimeout> | null = null
+
+    const reset = () => {
+      pending = []
+      if (timer) clearTimeout(timer)
+      timer = null
+    }
+
+    const resolve = (sequence: KeyStroke[], event: KeyboardEvent): boolean => {
+      const editable = isEditableTarget(event.target)
+      const context = this.contextFor(event.target instanceof Element ? event.target : null)
+      const exact: Shortcut[] = []
+      let partial = false
+
+      this.sortBySpecificity(this.list().filter(shortcut => this.isActive(shortcut, context)), context).forEach(shortcut => {
+        const strokes = parseKeybinding(this.bindingFor(shortcut.id) ?? shortcut.keys)
+        if (editable && !strokes[0].mod && !shortcut.allowInInput) return
+        if (strokes.length < sequence.length) return
+        if (!sequence.every((stroke, i) => strokesMatch(strokes[i], stroke))) return
+
+        if (strokes.length === sequence.length) exact.push(shortcut)
+        else partial = true
+      })
+
+      // The most specific handler that accepts the key wins
+      for (const shortcut of exact) {
+        if (shortcut.handler(event) !== false) {
+          event.preventDefault()
+          reset()
+          return true
+        }
+      }
+      if (partial) {
+        event.preventDefault()
+        pending = sequence
+        if (timer) clearTimeout(timer)
+        timer = setTimeout(reset, CHORD_TIMEOUT_MS)
+        return true
+      }
+      return false
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.isComposing) return
+      if (MODIFIER_KEYS.includes(event.key.toLowerCase())) return
+
+      const stroke = strokeFromEvent(event)
+      if (resolve([...pending, stroke], event)) return
+
+      // A broken chord may still start a new one
+      const hadPending = pending.length > 0
+      reset()
+      if (hadPending) resolve([stroke], event)
+    }
+
+    target.addEventListener('keydown', handleKeyDown as EventListener)
+    return () => {
+      reset()
+      target.removeEventListener('keydown', handleKeyDown as EventListener)
+    }
+  }
+
+  private canOverlap(a: Shortcut, b: Shortcut): boolean {
+    const layerA = a.layer ?? ROOT_LAYER
+    const layerB = b.layer ?? ROOT_LAYER
+    const sameLayer = layerA === layerB || layerA === ANY_LAYER || layerB === ANY_LAYER
+    // A region shortcut deliberately overrides a global one, so only equal regions clash
+    return sameLayer && (a.region ?? null) === (b.region ?? null)
+  }
+
+  // Innermost region first, then region-free shortcuts, then those on every layer
+  private sortBySpecificity(shortcuts: Shortcut[], context: ShortcutContext): Shortcut[] {
+    const rank = (shortcut: Shortcut) => {
+      if (shortcut.region) return context.regions.indexOf(shortcut.region)
+      return context.regions.length + (shortcut.layer === ANY_LAYER ? 1 : 0)
+    }
+    return [...shortcuts].sort((a, b) => rank(a) - rank(b))
+  }
+
+  private emit() {
+    this.version++
+    this.listeners.forEach(listener => listener())
+  }
+}
+
+export const shortcutManager = new ShortcutManager()
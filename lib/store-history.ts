@@ -0,0 +1,226 @@
+// Undo/redo middleware: labelled sets that change tracked keys are recorded as small reversible diffs
+import type { StateCreator, StoreMutatorIdentifier } from 'zustand/vanilla'
+
+/** `list` for arrays of items with ids, `record` for objects keyed by id */
+export type TrackedKind = 'list' | 'record'
+
+type Identified = { id: string }
+
+// Only what changed is kept, so a history of deletes doesn't duplicate the whole list each time
+export type HistoryChange =
+  | {
+      key: string
+      kind: 'list'
+      // Items that were removed or changed, as they were before
+      before: Identified[]
+      // Items that were added or changed, as they are after
+      after: Identified[]
+      orderBefore: string[]
+      orderAfter: string[]
+    }
+  | {
+      key: string
+      kind: 'record'
+      // Changed entries on each side; missing means the entry did not exist
+      before: Record<string, unknown>
+      after: Record<string, unknown>
+    }
+
+export type HistoryEntry = {
+  label: string
+  // Destructive entries are offered for undo straight away
+  destructive?: boolean
+  at: number
+  changes: HistoryChange[]
+}
+
+/** Third argument to `set`; unlabelled sets are not recorded */
+export type HistoryAction = string | { label: string; destructive?: boolean }
+
+export type HistorySlice = {
+  past: HistoryEntry[]
+  future: HistoryEntry[]
+  // Both return the entry they applied, or nothing when there was none
+  undo: () => HistoryEntry | undefined
+  redo: () => HistoryEntry | undefined
+}
+
+export type HistoryOptions<T> = {
+  track: { [K in keyof T]?: TrackedKind }
+  // Oldest entries are dropped past this many
+  limit?: number
+}
+
+export const DEFAULT_HISTORY_LIMIT = 50
+
+type Write<T, U> = Omit<T, keyof U> & U
+
+type LabelledSetState<S> = S extends {
+  setState: {
+    (...args: infer A1): infer R1
+    (...args: infer A2): infer R2
+  }
+}
+  ? {
+      setState(...args: [...args: A1, action?: HistoryAction]): R1
+      setState(...args: [...args: A2, action?: HistoryAction]): R2
+    }
+  : never
+
+declare module 'zustand/vanilla' {
+  interface StoreMutators<S, A> {
+    'flux/history': Write<S, LabelledSetState<S>>
+  }
+}
+
+type History = <
+  T extends HistorySlice,
+  Mps extends [StoreMutatorIdentifier, unknown][] = [],
+  Mcs extends [StoreMutatorIdentifier, unknown][] = []
+>(
+  initializer: StateCreator<T, [...Mps, ['flux/history', never]], Mcs, NoInfer<Omit<T, keyof HistorySlice>>>,
+  options: NoInfer<HistoryOptions<T>>
+) => StateCreator<T, Mps, [['flux/history', never], ...Mcs]>
+
+type State = HistorySlice & Record<string, unknown>
+type SetState = (partial: Partial<State> | ((state: State) => Partial<State>), replace?: boolean, action?: HistoryAction) => void
+
+function diffList(key: string, before: Identified[], after: Identified[]): HistoryChange | null {
+  const beforeById = new Map(before.map(item => [item.id, item]))
+  const afterById = new Map(after.map(item => [item.id, item]))
+  const orderBefore = before.map(item => item.id)
+  const orderAfter = after.map(item => item.id)
+  const sameOrder = orderBefore.length === orderAfter.length && orderBefore.every((id, index) => id === orderAfter[index])
+  const changedBefore = before.filter(item => afterById.get(item.id) !== item)
+  const changedAfter = after.filter(item => beforeById.get(item.id) !== item)
+  if (sameOrder && changedBefore.length === 0 && changedAfter.length === 0) return null
+  return { key, kind: 'list', before: changedBefore, after: changedAfter, orderBefore, orderAfter }
+}
+
+function diffRecord(key: string, before: Record<string, unknown>, after: Record<string, unknown>): HistoryChange | null {
+  const changed = [...new Set([...Object.keys(before), ...Object.keys(after)])].filter(id => before[id] !== after[id])
+  if (changed.length === 0) return null
+  const pick = (record: Record<string, unknown>) =>
+    Object.fromEntries(changed.filter(id => id in record).map(id => [id, record[id]]))
+  return { key, kind: 'record', before: pick(before), after: pick(after) }
+}
+
+/**
+ * Move one tracked value to the other side of a change. Only the items the change touched are
+ * replaced, so anything that changed outside the history since is kept.
+ */
+function applyChange(current: unknown, change: HistoryChange, direction: 'undo' | 'redo'): unknown {
+  if (change.kind === 'record') {
+    const target = direction === 'undo' ? change.before : change.after
+    const next = { ...(current as Record<string, unknown>) }
+    new Set([...Object.keys(change.before), ...Object.keys(change.after)]).forEach(id => {
+      if (id in target) next[id] = target[id]
+      else delete next[id]
+    })
+    return next
+  }
+
+  const list = current as Identified[]
+  const [targetItems, targetOrder, otherOrder] = direction === 'undo'
+    ? [change.before, change.orderBefore, change.orderAfter]
+    : [change.after, change.orderAfter, change.orderBefore]
+  const targetById = new Map(targetItems.map(item => [item.id, item]))
+  const currentById = new Map(list.map(item => [item.id, item]))
+  const known = new Set([...targetOrder, ...otherOrder])
+  return [
+    ...targetOrder.flatMap(id => {
+      const item = targetById.get(id) ?? currentById.get(id)
+      return item ? [item] : []
+    }),
+    // Added since, without going through the history
+    ...list.filter(item => !known.has(item.id))
+  ]
+}
+
+function applyEntry(state: State, entry: HistoryEntry, direction: 'undo' | 'redo'): Partial<State> {
+  return Object.fromEntries(entry.changes.map(change => [change.key, applyChange(state[change.key], change, direction)]))
+}
+
+const historyImpl = (
+  initializer: (set: SetState, get: () => State, api: { setState: SetState }) => Omit<State, keyof HistorySlice>,
+  { track, limit = DEFAULT_HISTORY_LIMIT }: HistoryOptions<State>
+) => (baseSet: SetState, get: () => State, api: { setState: SetState }): State => {
+  const tracked = Object.entries(track) as [string, TrackedKind][]
+
+  const set: SetState = (partial, replace, action) => {
+    if (action === undefined || replace) return baseSet(partial, replace)
+    const state = get()
+    const next = typeof partial === 'function' ? partial(state) : partial
+    const changes = tracked.flatMap(([key, kind]) => {
+      if (!(key in next)) return []
+      const change = kind === 'list'
+        ? diffList(key, state[key] as Identified[], next[key] as Identified[])
+        : diffRecord(key, state[key] as Record<string, unknown>, next[key] as Record<string, unknown>)
+      return change ? [change] : []
+    })
+    if (changes.length === 0) return baseSet(next)
+    const { label, destructive } = typeof action === 'string' ? { label: action, destructive: undefined } : action
+    const entry: HistoryEntry = { label, destructive, at: Date.now(), changes }
+    baseSet({ ...next, past: [...state.past, entry].slice(-limit), future: [] })
+  }
+  api.setState = set
+
+  return {
+    ...initializer(set, get, api),
+    past: [],
+    future: [],
+    undo: () => {
+      const state = get()
+      const entry = state.past[state.past.length - 1]
+      if (!entry) return undefined
+      baseSet({ ...applyEntry(state, entry, 'undo'), past: state.past.slice(0, -1), future: [...state.future, entry].slice(-limit) })
+      return entry
+    },
+    redo: () => {
+      const state = get()
+      const entry = state.future[state.future.length - 1]
+      if (!entry) return undefined
+      baseSet({ ...applyEntry(state, entry, 'redo'), past: [...state.past, entry].slice(-limit), future: state.future.slice(0, -1) })
+      return entry
+    }
+  }
+}
+
+export const history = historyImpl as unknown as History
+
+/** Ids of list items the given entries could bring back, e.g. to keep their stored file contents */
+export function idsInHistory(entries: HistoryEntry[], key: string): Set<string> {
+  const ids = new Set<string>()
+  entries.forEach(entry => entry.changes.forEach(change => {
+    if (change.key !== key || change.kind !== 'list') return
+    change.orderBefore.forEach(id => ids.add(id))
+    change.orderAfter.forEach(id => ids.add(id))
+  }))
+  return ids
+}
+
+// Serialized sizes, cached since entries never change once recorded
+const entrySizes = new WeakMap<HistoryEntry, number>()
+
+function serializedSize(entry: HistoryEntry): number {
+  let size = entrySizes.get(entry)
+  if (size === undefined) {
+    size = JSON.stringify(entry).length
+    entrySizes.set(entry, size)
+  }
+  return size
+}
+
+/**
+ * The newest entries whose JSON fits in `maxChars`, for persisting history within storage quotas.
+ * Entries that hold whole items (with their thumbnails) can be large, so a count limit alone isn't enough.
+ */
+export function newestWithinSize(entries: HistoryEntry[], maxChars: number): HistoryEntry[] {
+  let total = 0
+  let start = entries.length
+  while (start > 0 && total + serializedSize(entries[start - 1]) <= maxChars) {
+    total += serializedSize(entries[start - 1])
+    start -= 1
+  }
+  return entries.slice(start)
+}
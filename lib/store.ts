@@ -1,5 +1,8 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
+import { canMoveTo, subtreeIds } from './folder-tree'
+import { DEFAULT_FOLDER_VIEW, FolderView } from './folder-view'
+import { DEFAULT_HISTORY_LIMIT, HistorySlice, history, newestWithinSize } from './store-history'
 
 // Types
 export type PersonaMode = 'professional' | 'playful' | 'minimal'
@@ -17,14 +20,59 @@ export type Profile = {
   links: string[]
 }
 
+export type FolderFileType = 'image' | 'document' | 'video' | 'audio' | 'code' | 'folder'
+
 export type FolderItem = {
   id: string
   name: string
-  type: 'img' | 'doc' | 'link'
+  type: 'img' | 'doc' | 'link' | 'folder'
   url?: string
+  // Containing folder; absent or null at the top level
+  parentId?: string | null
+  tags?: string[]
+  // File details for items added through the folder; the file contents are not persisted
+  fileType?: FolderFileType
+  size?: number
+  mimeType?: string
+  // Small data URL
+  thumbnail?: string
+  icon?: string
+  description?: string
+  addedAt?: string
+}
+
+export type ProjectData = {
+  title: string
+  description: string
+  category: string
+  tags: string[]
+  tools: string[]
+  thumbnail: string
 }
 
-export type Store = {
+export type BoardCardId = 'persona' | 'profile' | 'files' | 'project'
+
+export type BoardCardLayout = {
+  x: number
+  y: number
+  z: number
+}
+
+export type RecentSearch = {
+  query: string
+  searchedAt: number
+}
+
+export type SavedSearch = {
+  id: string
+  name: string
+  query: string
+  pinned: boolean
+  createdAt: number
+}
+
+// Undo/redo covers the folder and the board layout; see store-history
+export type Store = HistorySlice & {
   // Persona state
   persona: Persona
   setPersona: (p: Partial<Persona>) => void
@@ -36,12 +84,50 @@ export type Store = {
   // Folder items
   folderItems: FolderItem[]
   addFolderItem: (item: FolderItem) => void
-  removeFolderItem: (id: string) => void
+  // Removes folders with everything inside them
+  removeFolderItems: (ids: string[]) => void
+  // Skips items that can't go there: the target is not a folder, or would put a folder inside itself
+  moveFolderItems: (ids: string[], parentId: string | null) => void
+  tagFolderItems: (ids: string[], tag: string) => void
+  untagFolderItems: (ids: string[], tag: string) => void
+  // Set once the first-visit samples are in, so emptying the folder doesn't bring them back
+  folderSeeded: boolean
+  // Sort, filter and grouping for each folder, keyed by folder-view's viewKey
+  folderViews: Record<string, FolderView>
+  setFolderView: (key: string, view: Partial<FolderView>) => void
   
   // Form data
   formData: Record<string, string>
   setFormData: (data: Partial<Record<string, string>>) => void
   
+  // Accepted AI autofill project
+  project: ProjectData | null
+  setProject: (project: ProjectData | null) => void
+  
+  // Identity board layout
+  boardLayout: Partial<Record<BoardCardId, BoardCardLayout>>
+  setBoardCardLayout: (id: BoardCardId, layout: Partial<BoardCardLayout>) => void
+  resetBoardLayout: () => void
+  
+  // Search results picked recently, keyed by `${type}:${id}`, for ranking boosts
+  recentSelections: Record<string, number>
+  recordSelection: (key: string) => void
+  
+  // Recent searches, newest first
+  recentSearches: RecentSearch[]
+  addRecentSearch: (query: string, limit?: number) => void
+  removeRecentSearch: (query: string) => void
+  clearRecentSearches: () => void
+  // Drop entries older than maxAgeMs so old queries do not linger
+  pruneRecentSearches: (maxAgeMs: number) => void
+  
+  // Saved searches
+  savedSearches: SavedSearch[]
+  saveSearch: (query: string, name?: string) => void
+  renameSavedSearch: (id: string, name: string) => void
+  togglePinnedSearch: (id: string) => void
+  removeSavedSearch: (id: string) => void
+  
   // AI status
   aiStatus: 'idle' | 'fetching' | 'ready'
   setAiStatus: (status: 'idle' | 'fetching' | 'ready') => void
@@ -52,8 +138,11 @@ export type Store = {
     disableShaders: boolean
     theme: 'light' | 'dark' | 'brand'
     soundEnabled: boolean
+    // User keyboard remaps keyed by shortcut id
+    shortcuts: Record<string, string>
   }
   setPreferences: (prefs: Partial<Store['preferences']>) => void
+  setShortcutOverride: (id: string, keys: string | null) => void
   
   // Progress tracking
   completedDays: number[]
@@ -63,6 +152,18 @@ export type Store = {
   reset: () => void
 }
 
+const MAX_RECENT_SELECTIONS = 50
+export const DEFAULT_RECENT_SEARCH_LIMIT = 5
+export const RECENT_SEARCH_TTL_MS = 30 * 24 * 60 * 60 * 1000
+// Persisted undo history stays well inside the ~5 MB localStorage quota; redo gets a quarter of that
+const HISTORY_STORAGE_CHARS = 1_000_000
+
+// Names items in history labels: the item itself when there is one, otherwise a count
+const describeItems = (items: FolderItem[], ids: string[]) => {
+  const item = ids.length === 1 ? items.find(i => i.id === ids[0]) : undefined
+  return item ? item.name : `${ids.length} items`
+}
+
 const initialState = {
   persona: {
     mode: 'professional' as PersonaMode,
@@ -76,20 +177,28 @@ const initialState = {
     links: []
   },
   folderItems: [],
+  folderSeeded: false,
+  folderViews: {},
   formData: {},
+  project: null,
+  boardLayout: {},
+  recentSelections: {},
+  recentSearches: [],
+  savedSearches: [],
   aiStatus: 'idle' as const,
   preferences: {
     reduceMotion: false,
     disableShaders: false,
     theme: 'dark' as const,
-    soundEnabled: false
+    soundEnabled: false,
+    shortcuts: {}
   },
   completedDays: []
 }
 
 export const useStore = create<Store>()(
   persist(
-    (set, get) => ({
+    history((set, get) => ({
       ...initialState,
       
       setPersona: (p) =>
@@ -101,11 +210,42 @@ export const useStore = create<Store>()(
       addFolderItem: (item) =>
         set((state) => ({
           folderItems: [...state.folderItems.filter(i => i.id !== item.id), item]
-        })),
+        }), false, `Add ${item.name}`),
+      
+      removeFolderItems: (ids) =>
+        set((state) => {
+          const removed = new Set(ids.flatMap(id => [...subtreeIds(state.folderItems, id)]))
+          return { folderItems: state.folderItems.filter(i => !removed.has(i.id)) }
+        }, false, { label: `Delete ${describeItems(get().folderItems, ids)}`, destructive: true }),
+      
+      moveFolderItems: (ids, parentId) =>
+        set((state) => {
+          const moving = new Set(ids.filter(id => canMoveTo(state.folderItems, id, parentId)))
+          return moving.size > 0
+            ? { folderItems: state.folderItems.map(i => moving.has(i.id) ? { ...i, parentId } : i) }
+            : state
+        }, false, `Move ${describeItems(get().folderItems, ids)}`),
+      
+      tagFolderItems: (ids, tag) =>
+        set((state) => ({
+          folderItems: state.folderItems.map(i =>
+            ids.includes(i.id) && !i.tags?.includes(tag) ? { ...i, tags: [...(i.tags ?? []), tag] } : i
+          )
+        }), false, `Tag ${describeItems(get().folderItems, ids)} "${tag}"`),
+      
+      untagFolderItems: (ids, tag) =>
+        set((state) => ({
+          folderItems: state.folderItems.map(i =>
+            ids.includes(i.id) && i.tags?.includes(tag) ? { ...i, tags: i.tags.filter(t => t !== tag) } : i
+          )
+        }), false, `Untag ${describeItems(get().folderItems, ids)} "${tag}"`),
       
-      removeFolderItem: (id) =>
+      setFolderView: (key, view) =>
         set((state) => ({
-          folderItems: state.folderItems.filter(i => i.id !== id)
+          folderViews: {
+            ...state.folderViews,
+            [key]: { ...DEFAULT_FOLDER_VIEW, ...state.folderViews[key], ...view }
+          }
         })),
       
   setFormData: (data) =>
@@ -113,13 +253,114 @@ export const useStore = create<Store>()(
       formData: { ...state.formData, ...Object.fromEntries(
         Object.entries(data).filter(([_, v]) => v !== undefined)
       ) as Record<string, string> }
-    })),      setAiStatus: (aiStatus) => set({ aiStatus }),
+    })),
+      
+      setProject: (project) => set({ project }),
+      
+      // Moves are recorded; raising a card above the others is not worth an undo step
+      setBoardCardLayout: (id, layout) => {
+        const current = get().boardLayout[id]
+        const moved = (layout.x !== undefined && layout.x !== (current?.x ?? 0)) ||
+          (layout.y !== undefined && layout.y !== (current?.y ?? 0))
+        set((state) => ({
+          boardLayout: {
+            ...state.boardLayout,
+            [id]: { x: 0, y: 0, z: 0, ...state.boardLayout[id], ...layout }
+          }
+        }), false, moved ? `Move ${id} card` : undefined)
+      },
+      
+      resetBoardLayout: () => set({ boardLayout: {} }, false, { label: 'Reset board layout', destructive: true }),
+      
+      recordSelection: (key) =>
+        set((state) => ({
+          // Keep only the most recent selections
+          recentSelections: Object.fromEntries(
+            Object.entries({ ...state.recentSelections, [key]: Date.now() })
+              .sort(([, a], [, b]) => b - a)
+              .slice(0, MAX_RECENT_SELECTIONS)
+          )
+        })),
+      
+      addRecentSearch: (query, limit = DEFAULT_RECENT_SEARCH_LIMIT) =>
+        set((state) => {
+          const trimmed = query.trim()
+          if (!trimmed) return state
+          return {
+            recentSearches: [
+              { query: trimmed, searchedAt: Date.now() },
+              ...state.recentSearches.filter(s => s.query !== trimmed)
+            ].slice(0, limit)
+          }
+        }),
+      
+      removeRecentSearch: (query) =>
+        set((state) => ({
+          recentSearches: state.recentSearches.filter(s => s.query !== query)
+        })),
+      
+      clearRecentSearches: () => set({ recentSearches: [] }),
+      
+      pruneRecentSearches: (maxAgeMs) =>
+        set((state) => {
+          const cutoff = Date.now() - maxAgeMs
+          const kept = state.recentSearches.filter(s => s.searchedAt >= cutoff)
+          return kept.length === state.recentSearches.length ? state : { recentSearches: kept }
+        }),
+      
+      saveSearch: (query, name) =>
+        set((state) => {
+          const trimmed = query.trim()
+          if (!trimmed || state.savedSearches.some(s => s.query === trimmed)) return state
+          return {
+            savedSearches: [
+              ...state.savedSearches,
+              {
+                id: `saved-${Date.now().toString(36)}`,
+                name: name?.trim() || trimmed,
+                query: trimmed,
+                pinned: false,
+                createdAt: Date.now()
+              }
+            ]
+          }
+        }),
+      
+      renameSavedSearch: (id, name) =>
+        set((state) => ({
+          savedSearches: state.savedSearches.map(s =>
+            s.id === id && name.trim() ? { ...s, name: name.trim() } : s
+          )
+        })),
+      
+      togglePinnedSearch: (id) =>
+        set((state) => ({
+          savedSearches: state.savedSearches.map(s =>
+            s.id === id ? { ...s, pinned: !s.pinned } : s
+          )
+        })),
+      
+      removeSavedSearch: (id) =>
+        set((state) => ({
+          savedSearches: state.savedSearches.filter(s => s.id !== id)
+        })),
+      
+      setAiStatus: (aiStatus) => set({ aiStatus }),
       
       setPreferences: (prefs) =>
         set((state) => ({
           preferences: { ...state.preferences, ...prefs }
         })),
       
+      // null restores the default binding
+      setShortcutOverride: (id, keys) =>
+        set((state) => {
+          const shortcuts = { ...(state.preferences.shortcuts ?? {}) }
+          if (keys === null) delete shortcuts[id]
+          else shortcuts[id] = keys
+          return { preferences: { ...state.preferences, shortcuts } }
+        }),
+      
       markDayComplete: (day) =>
         set((state) => ({
           completedDays: state.completedDays.includes(day)
@@ -127,7 +368,10 @@ export const useStore = create<Store>()(
             : [...state.completedDays, day].sort()
         })),
       
-      reset: () => set(initialState)
+      reset: () => set({ ...initialState, past: [], future: [] })
+    }), {
+      track: { folderItems: 'list', boardLayout: 'record' },
+      limit: DEFAULT_HISTORY_LIMIT
     }),
     {
       name: 'flux-id-store',
@@ -135,9 +379,18 @@ export const useStore = create<Store>()(
         persona: state.persona,
         profile: state.profile,
         folderItems: state.folderItems,
+        folderSeeded: state.folderSeeded,
+        folderViews: state.folderViews,
         formData: state.formData,
+        project: state.project,
+        boardLayout: state.boardLayout,
+        recentSelections: state.recentSelections,
+        recentSearches: state.recentSearches,
+        savedSearches: state.savedSearches,
         preferences: state.preferences,
-        completedDays: state.completedDays
+        completedDays: state.completedDays,
+        past: newestWithinSize(state.past, HISTORY_STORAGE_CHARS),
+        future: newestWithinSize(state.future, HISTORY_STORAGE_CHARS / 4)
       })
     }
   )
@@ -147,6 +400,13 @@ export const useStore = create<Store>()(
 export const usePersona = () => useStore((state) => state.persona)
 export const useProfile = () => useStore((state) => state.profile)
 export const usePreferences = () => useStore((state) => state.preferences)
+export const useFolderItems = () => useStore((state) => state.folderItems)
+export const useFolderView = (key: string) => useStore((state) => state.folderViews[key] ?? DEFAULT_FOLDER_VIEW)
+export const useFormData = () => useStore((state) => state.formData)
+export const useProject = () => useStore((state) => state.project)
+export const useBoardLayout = () => useStore((state) => state.boardLayout)
+export const useRecentSearches = () => useStore((state) => state.recentSearches)
+export const useSavedSearches = () => useStore((state) => state.savedSearches)
 export const useCompletedDays = () => useStore((state) => state.completedDays)
 
 // Day completion selectors
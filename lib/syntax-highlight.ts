@@ -0,0 +1,175 @@
+// Small regex highlighter for previews: good enough to read code, not a parser
+export type Language = 'javascript' | 'json' | 'css' | 'markup' | 'yaml' | 'markdown' | 'plain'
+
+export type TokenType =
+  | 'comment'
+  | 'string'
+  | 'number'
+  | 'keyword'
+  | 'literal'
+  | 'tag'
+  | 'attribute'
+  | 'property'
+  | 'punctuation'
+  | 'plain'
+
+export type Token = { type: TokenType; text: string }
+
+// Rules are tried in order at each position; all must be sticky
+type Rule = { type: TokenType | ((match: string) => TokenType); pattern: RegExp }
+
+const EXTENSION_LANGUAGES: Record<string, Language> = {
+  '.js': 'javascript',
+  '.jsx': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.ts': 'javascript',
+  '.tsx': 'javascript',
+  '.json': 'json',
+  '.css': 'css',
+  '.html': 'markup',
+  '.htm': 'markup',
+  '.xml': 'markup',
+  '.svg': 'markup',
+  '.yml': 'yaml',
+  '.yaml': 'yaml',
+  '.md': 'markdown',
+  '.markdown': 'markdown'
+}
+
+const JS_KEYWORDS = new Set([
+  'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default',
+  'delete', 'do', 'else', 'enum', 'export', 'extends', 'finally', 'for', 'from', 'function', 'if',
+  'implements', 'import', 'in', 'instanceof', 'interface', 'let', 'new', 'of', 'private', 'protected',
+  'public', 'readonly', 'return', 'static', 'switch', 'throw', 'try', 'type', 'typeof', 'var', 'void',
+  'while', 'with', 'yield'
+])
+const JS_LITERALS = new Set(['true', 'false', 'null', 'undefined', 'this', 'super', 'NaN', 'Infinity'])
+
+const STRING = /'(?:\\.|[^\\'\n])*'?|"(?:\\.|[^\\"\n])*"?/y
+const NUMBER = /(?:0[xXbBoO][\da-fA-F_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?n?)(?![\w$])/y
+const WHITESPACE = /\s+/y
+
+const RULES: Record<Exclude<Language, 'markup' | 'plain'>, Rule[]> = {
+  javascript: [
+    { type: 'comment', pattern: /\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y },
+    { type: 'string', pattern: /`(?:\\[\s\S]|[^\\`])*`?/y },
+    { type: 'string', pattern: STRING },
+    { type: 'number', pattern: NUMBER },
+    {
+      type: word => (JS_KEYWORDS.has(word) ? 'keyword' : JS_LITERALS.has(word) ? 'literal' : 'plain'),
+      pattern: /[A-Za-z_$][\w$]*/y
+    },
+    { type: 'punctuation', pattern: /[{}()[\];,.<>=+\-*/%!&|^~?:@]+/y }
+  ],
+  json: [
+    { type: 'property', pattern: /"(?:\\.|[^\\"\n])*"(?=\s*:)/y },
+    { type: 'string', pattern: STRING },
+    { type: 'number', pattern: /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y },
+    { type: 'literal', pattern: /\b(?:true|false|null)\b/y },
+    { type: 'punctuation', pattern: /[{}[\],:]/y }
+  ],
+  css: [
+    { type: 'comment', pattern: /\/\*[\s\S]*?(?:\*\/|$)/y },
+    { type: 'string', pattern: STRING },
+    { type: 'keyword', pattern: /@[\w-]+|!important\b/y },
+    { type: 'property', pattern: /-{0,2}[A-Za-z][\w-]*(?=\s*:(?!:))/y },
+    { type: 'number', pattern: /#[\da-fA-F]{3,8}\b|-?(?:\d*\.)?\d+(?:%|[A-Za-z]+)?/y },
+    { type: 'plain', pattern: /[\w-]+/y },
+    { type: 'punctuation', pattern: /[{}()[\];:,.>+~*=]/y }
+  ],
+  yaml: [
+    { type: 'comment', pattern: /#[^\n]*/y },
+    { type: 'property', pattern: /[\w.-]+(?=\s*:(?:\s|$))/y },
+    { type: 'string', pattern: STRING },
+    { type: 'literal', pattern: /\b(?:true|false|null|yes|no|on|off|~)\b/y },
+    { type: 'number', pattern: NUMBER },
+    { type: 'plain', pattern: /[^\s:#'"[\]{},|>-][^\s:#]*/y },
+    { type: 'punctuation', pattern: /[:[\]{},|>-]/y }
+  ],
+  markdown: [
+    { type: 'keyword', pattern: /(?<=^|\n)#{1,6} [^\n]*/y },
+    { type: 'string', pattern: /```[\s\S]*?(?:```|$)|`[^`\n]*`/y },
+    { type: 'attribute', pattern: /!?\[[^\]\n]*\]\([^)\n]*\)/y },
+    { type: 'punctuation', pattern: /(?<=^|\n)\s*(?:[-*+]|\d+\.|>)(?= )/y },
+    { type: 'literal', pattern: /\*\*[^*\n]+\*\*|__[^_\n]+__/y },
+    { type: 'plain', pattern: /[^\n`#![*_>\-+\d]+/y }
+  ]
+}
+
+const MARKUP_TAG_RULES: Rule[] = [
+  { type: 'tag', pattern: /<\/?[\w:.-]*|\/?>/y },
+  { type: 'attribute', pattern: /[\w:.-]+(?=\s*=)/y },
+  { type: 'string', pattern: STRING },
+  { type: 'punctuation', pattern: /=/y }
+]
+
+export function languageFor(name: string): Language {
+  const dot = name.lastIndexOf('.')
+  return dot === -1 ? 'plain' : EXTENSION_LANGUAGES[name.slice(dot).toLowerCase()] ?? 'plain'
+}
+
+function push(tokens: Token[], type: TokenType, text: string) {
+  const last = tokens[tokens.length - 1]
+  if (last && last.type === type) last.text += text
+  else tokens.push({ type, text })
+}
+
+function tokenizeWith(source: string, rules: Rule[], tokens: Token[] = []): Token[] {
+  let index = 0
+  outer: while (index < source.length) {
+    WHITESPACE.lastIndex = index
+    const space = WHITESPACE.exec(source)
+    if (space) {
+      push(tokens, 'plain', space[0])
+      index += space[0].length
+      continue
+    }
+    for (const rule of rules) {
+      rule.pattern.lastIndex = index
+      const match = rule.pattern.exec(source)
+      if (match && match[0].length > 0) {
+        push(tokens, typeof rule.type === 'function' ? rule.type(match[0]) : rule.type, match[0])
+        index += match[0].length
+        continue outer
+      }
+    }
+    push(tokens, 'plain', source[index])
+    index++
+  }
+  return tokens
+}
+
+// Tags are tokenized on their own so apostrophes in text aren't taken for strings
+function tokenizeMarkup(source: string): Token[] {
+  const tokens: Token[] = []
+  const pieces = /<!--[\s\S]*?(?:-->|$)|<!\[CDATA\[[\s\S]*?(?:\]\]>|$)|<[!?/]?[A-Za-z][^>]*>?/g
+  let index = 0
+  for (const match of source.matchAll(pieces)) {
+    if (match.index > index) push(tokens, 'plain', source.slice(index, match.index))
+    const text = match[0]
+    if (text.startsWith('<!--') || text.startsWith('<![CDATA[')) push(tokens, 'comment', text)
+    else tokenizeWith(text, MARKUP_TAG_RULES, tokens)
+    index = match.index + text.length
+  }
+  if (index < source.length) push(tokens, 'plain', source.slice(index))
+  return tokens
+}
+
+export function tokenize(source: string, language: Language): Token[] {
+  if (language === 'plain') return source ? [{ type: 'plain', text: source }] : []
+  if (language === 'markup') return tokenizeMarkup(source)
+  return tokenizeWith(source, RULES[language])
+}
+
+/** Tokens split into lines, for rendering with line numbers */
+export function highlightLines(source: string, language: Language): Token[][] {
+  const lines: Token[][] = [[]]
+  for (const token of tokenize(source, language)) {
+    token.text.split('\n').forEach((part, index) => {
+      if (index > 0) lines.push([])
+      if (part) lines[lines.length - 1].push({ type: token.type, text: part })
+    })
+  }
+  return lines
+}
@@ -0,0 +1,259 @@
+// Browser side of /api/upload - chunked transfer with checksums, resume and byte-accurate progress
+import { CHUNK_CHECKSUM_HEADER, UploadSession, chunkCount, chunkLength } from './upload-protocol'
+
+const UPLOAD_ENDPOINT = '/api/upload'
+const RESUME_STORAGE_KEY = 'flux-upload-resume'
+
+// Network drops are retried from the server's resume point
+const MAX_CHUNK_ATTEMPTS = 5
+const RETRY_DELAY_MS = 1000
+
+export type UploadProgress = {
+  loaded: number
+  total: number
+}
+
+export type UploadOptions = {
+  chunkSize?: number
+  signal?: AbortSignal
+  onProgress?: (progress: UploadProgress) => void
+  // Called once the server session exists, e.g. to show or store its id
+  onSession?: (session: UploadSession) => void
+}
+
+export class UploadCancelledError extends Error {
+  constructor() {
+    super('Upload cancelled')
+    this.name = 'UploadCancelledError'
+  }
+}
+
+// Abort reason for a pause: the server session and resume point are kept
+export class UploadPausedError extends Error {
+  constructor() {
+    super('Upload paused')
+    this.name = 'UploadPausedError'
+  }
+}
+
+export class UploadError extends Error {
+  constructor(
+    readonly code: string,
+    readonly status: number
+  ) {
+    super(describeUploadError(code))
+    this.name = 'UploadError'
+  }
+}
+
+export function describeUploadError(code: string): string {
+  switch (code) {
+    case 'too_large':
+      return 'File is larger than the server accepts.'
+    case 'checksum_mismatch':
+      return 'The file changed or was corrupted in transit.'
+    case 'not_found':
+      return 'The upload expired. Please try again.'
+    case 'network':
+      return 'Network connection lost. Please try again.'
+    default:
+      return 'Upload failed. Please try again.'
+  }
+}
+
+export async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data)
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// Same file picked again after a reload or a drop resumes the same session
+function resumeKey(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`
+}
+
+function readResumeIds(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(RESUME_STORAGE_KEY) ?? '{}')
+  } catch {
+    return {}
+  }
+}
+
+function writeResumeId(key: string, id: string | null) {
+  try {
+    const ids = readResumeIds()
+    if (id) ids[key] = id
+    else delete ids[key]
+    localStorage.setItem(RESUME_STORAGE_KEY, JSON.stringify(ids))
+  } catch {
+    // Storage may be unavailable; uploads just won't resume across reloads
+  }
+}
+
+/** Forget where an upload of this file left off, e.g. after discarding its session */
+export function clearResumePoint(file: File) {
+  writeResumeId(resumeKey(file), null)
+}
+
+// Pausing aborts with an UploadPausedError reason; any other abort is a cancel
+function abortError(signal?: AbortSignal): Error {
+  return signal?.reason instanceof UploadPausedError ? signal.reason : new UploadCancelledError()
+}
+
+async function parseError(response: Response): Promise<UploadError> {
+  const body = await response.json().catch(() => ({}))
+  return new UploadError(typeof body.error === 'string' ? body.error : 'server_error', response.status)
+}
+
+async function createSession(file: File, chunkSize: number | undefined, signal?: AbortSignal): Promise<UploadSession> {
+  const response = await fetch(UPLOAD_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name: file.name, type: file.type, size: file.size, chunkSize }),
+    signal
+  })
+  if (!response.ok) throw await parseError(response)
+  return response.json()
+}
+
+export async function getUploadSession(id: string, signal?: AbortSignal): Promise<UploadSession | null> {
+  const response = await fetch(`${UPLOAD_ENDPOINT}?id=${encodeURIComponent(id)}`, { signal })
+  if (response.status === 404) return null
+  if (!response.ok) throw await parseError(response)
+  return response.json()
+}
+
+/** Discard a server-side upload; safe to call for ids that are already gone */
+export async function deleteUpload(id: string): Promise<void> {
+  await fetch(`${UPLOAD_ENDPOINT}?id=${encodeURIComponent(id)}`, { method: 'DELETE' }).catch(() => {})
+}
+
+// XHR rather than fetch: it reports upload progress per byte
+function putChunk(
+  session: UploadSession,
+  index: number,
+  body: Blob,
+  checksum: string,
+  onProgress: (loaded: number) => void,
+  signal?: AbortSignal
+): Promise<UploadSession> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+    const onAbort = () => xhr.abort()
+
+    xhr.open('PUT', `${UPLOAD_ENDPOINT}/chunk?id=${session.id}&index=${index}`)
+    xhr.setRequestHeader(CHUNK_CHECKSUM_HEADER, checksum)
+    xhr.setRequestHeader('Content-Type', 'application/octet-stream')
+    xhr.responseType = 'json'
+
+    xhr.upload.onprogress = (event) => onProgress(event.loaded)
+    xhr.onload = () => {
+      signal?.removeEventListener('abort', onAbort)
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(xhr.response)
+      } else {
+        reject(new UploadError(xhr.response?.error ?? 'server_error', xhr.status))
+      }
+    }
+    xhr.onerror = () => {
+      signal?.removeEventListener('abort', onAbort)
+      reject(new UploadError('network', 0))
+    }
+    xhr.onabort = () => {
+      signal?.removeEventListener('abort', onAbort)
+      reject(new UploadCancelledError())
+    }
+
+    signal?.addEventListener('abort', onAbort, { once: true })
+    xhr.send(body)
+  })
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new UploadCancelledError())
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+// Network failures and server hiccups are worth retrying; bad requests are not
+export function isRetryableUploadError(error: unknown): boolean {
+  return error instanceof UploadError && (error.code === 'network' || error.status >= 500)
+}
+
+/**
+ * Upload a file in checksummed chunks. Picks up an earlier session for the same file,
+ * retries dropped chunks from the server's resume point, and deletes the session if aborted.
+ * Aborting with an UploadPausedError reason keeps the session so a later call resumes it.
+ */
+export async function uploadFile(file: File, options: UploadOptions = {}): Promise<UploadSession> {
+  const { chunkSize, signal, onProgress, onSession } = options
+  const key = resumeKey(file)
+  if (signal?.aborted) throw abortError(signal)
+
+  let session: UploadSession
+  try {
+    const existingId = readResumeIds()[key]
+    const existing = existingId ? await getUploadSession(existingId, signal).catch(() => null) : null
+    session = existing && !existing.completedAt ? existing : await createSession(file, chunkSize, signal)
+  } catch (error) {
+    if (signal?.aborted) throw abortError(signal)
+    throw error instanceof UploadError ? error : new UploadError('network', 0)
+  }
+  writeResumeId(key, session.id)
+  onSession?.(session)
+
+  const sessionId = session.id
+  try {
+    const total = session.size
+    const chunks = chunkCount(session)
+    const confirmed = () => session.received.reduce((sum, index) => sum + chunkLength(session, index), 0)
+
+    onProgress?.({ loaded: confirmed(), total })
+
+    for (let index = 0; index < chunks && !session.completedAt; index++) {
+      if (session.received.includes(index)) continue
+
+      const start = index * session.chunkSize
+      const blob = file.slice(start, start + chunkLength(session, index))
+      const checksum = await sha256Hex(await blob.arrayBuffer())
+
+      for (let attempt = 1; ; attempt++) {
+        if (signal?.aborted) throw abortError(signal)
+        try {
+          const base = confirmed()
+          session = await putChunk(session, index, blob, checksum, loaded => {
+            onProgress?.({ loaded: Math.min(total, base + loaded), total })
+          }, signal)
+          break
+        } catch (error) {
+          if (!isRetryableUploadError(error) || attempt >= MAX_CHUNK_ATTEMPTS) throw error
+          await wait(RETRY_DELAY_MS * attempt, signal)
+          // The server may have stored more than we saw before the drop
+          session = (await getUploadSession(sessionId, signal).catch(() => null)) ?? session
+          if (session.received.includes(index)) break
+        }
+      }
+
+      onProgress?.({ loaded: confirmed(), total })
+    }
+
+    writeResumeId(key, null)
+    return session
+  } catch (error) {
+    if (signal?.reason instanceof UploadPausedError) throw signal.reason
+    if (error instanceof UploadCancelledError || signal?.aborted) {
+      writeResumeId(key, null)
+      await deleteUpload(sessionId)
+      throw new UploadCancelledError()
+    }
+    throw error
+  }
+}
@@ -0,0 +1,87 @@
+// The steps every picked or dropped file goes through before it is shown or uploaded
+import {
+  FileCategory,
+  RuleViolation,
+  UploadPolicy,
+  categoryOf,
+  inspectFile,
+  validateInspection
+} from './file-validation'
+import { CropRect, ImageProcessOptions, canProcessImage, createThumbnail, hasMetadata, processImage } from './image-pipeline'
+
+export type PreparedFile = {
+  original: File
+  // What to upload: the original, or the image pipeline's output
+  file: File
+  type: FileCategory
+  // From the contents when recognized, else whatever the browser reported
+  mimeType: string
+  violations: RuleViolation[]
+  preview?: string
+  // The pipeline dropped GPS coordinates from the photo
+  locationRemoved: boolean
+}
+
+export type PrepareOptions = {
+  policy: UploadPolicy
+  // Bytes already taken by accepted files, for the total-size rule
+  usedBytes: number
+  imageProcessing?: ImageProcessOptions | false
+  // Crop step for images; resolving null drops the file
+  requestCrop?: (file: File) => Promise<CropRect | null>
+}
+
+/** Thumbnail data URL for images; undefined for everything else or when the browser can't decode it */
+export async function createPreview(file: File, isImage: boolean): Promise<string | undefined> {
+  if (!isImage) return undefined
+  try {
+    return await createThumbnail(file)
+  } catch {
+    // e.g. SVG in some browsers; callers show an icon instead
+    return undefined
+  }
+}
+
+/** Validate a file by its contents, run images through the pipeline and make a preview; null if the user dropped it */
+export async function prepareFile(original: File, options: PrepareOptions): Promise<PreparedFile | null> {
+  const inspection = await inspectFile(original)
+  const violations = validateInspection(inspection, { policy: options.policy, usedBytes: options.usedBytes })
+  const type = categoryOf(inspection)
+  const sourceType = inspection.detected?.mimes[0] ?? ''
+  let file = original
+  let locationRemoved = false
+
+  if (violations.length === 0 && canProcessImage(sourceType)) {
+    let crop: CropRect | undefined
+    if (options.requestCrop) {
+      const chosen = await options.requestCrop(original)
+      if (!chosen) return null
+      crop = chosen
+    }
+    const imageOptions = options.imageProcessing === false || options.imageProcessing === undefined
+      ? (crop ? { crop } : null)
+      : { ...options.imageProcessing, crop }
+    if (imageOptions) {
+      try {
+        const processed = await processImage(original, imageOptions)
+        file = processed.file
+        locationRemoved = processed.removed?.hasGps ?? false
+      } catch {
+        // Undecodable here; when metadata should be stripped, the original may only go up as is with none
+        if (options.imageProcessing && hasMetadata(new Uint8Array(await original.arrayBuffer()))) {
+          violations.push({ rule: 'image-metadata', message: 'Image metadata could not be removed from this file' })
+        }
+      }
+    }
+  }
+
+  return {
+    original,
+    file,
+    type,
+    mimeType: file !== original ? file.type : sourceType || original.type,
+    violations,
+    preview: await createPreview(file, type === 'image'),
+    locationRemoved
+  }
+}
@@ -0,0 +1,24 @@
+// Wire format shared by /api/upload and its browser client, free of Node and DOM APIs so either side can import it
+
+export type UploadSession = {
+  id: string
+  name: string
+  type: string
+  size: number
+  chunkSize: number
+  // Indexes of chunks already written and verified
+  received: number[]
+  createdAt: number
+  completedAt: number | null
+}
+
+export const CHUNK_CHECKSUM_HEADER = 'x-chunk-sha256'
+
+export function chunkCount(session: Pick<UploadSession, 'size' | 'chunkSize'>): number {
+  return Math.max(1, Math.ceil(session.size / session.chunkSize))
+}
+
+// Expected byte length of a chunk; only the last one may be short
+export function chunkLength(session: Pick<UploadSession, 'size' | 'chunkSize'>, index: number): number {
+  return Math.min(session.chunkSize, session.size - index * session.chunkSize)
+}
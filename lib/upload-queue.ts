@@ -0,0 +1,424 @@
+// Upload queue: priority order, pause/resume, automatic retries and state that survives reloads
+import {
+  UploadCancelledError,
+  UploadError,
+  UploadPausedError,
+  clearResumePoint,
+  deleteUpload,
+  isRetryableUploadError,
+  uploadFile
+} from './upload-client'
+
+export type QueueItemStatus = 'queued' | 'uploading' | 'paused' | 'retrying' | 'success' | 'error'
+
+export type QueueItem = {
+  id: string
+  file: File
+  status: QueueItemStatus
+  // Bytes confirmed by the server plus the chunk in flight
+  loaded: number
+  // Tries since the item was added, resumed or retried by hand
+  attempts: number
+  uploadId?: string
+  error?: string
+  // When the next automatic retry starts
+  retryAt?: number
+}
+
+export type QueueStats = {
+  loaded: number
+  total: number
+  bytesPerSecond: number
+  // null until there is a speed to go by
+  etaSeconds: number | null
+  // Items not yet finished, paused ones included
+  pending: number
+}
+
+export type QueueSnapshot = {
+  items: QueueItem[]
+  stats: QueueStats
+}
+
+export type UploadQueueOptions = {
+  concurrency: number
+  chunkSize?: number
+  maxAttempts: number
+  retryBaseMs: number
+  retryMaxMs: number
+}
+
+export const DEFAULT_QUEUE_OPTIONS: UploadQueueOptions = {
+  concurrency: 3,
+  maxAttempts: 5,
+  retryBaseMs: 1000,
+  retryMaxMs: 30_000
+}
+
+// Speed is smoothed over samples of at least this long
+const SPEED_SAMPLE_MS = 1000
+const SPEED_SMOOTHING = 0.3
+
+const PENDING: QueueItemStatus[] = ['queued', 'uploading', 'paused', 'retrying']
+
+/** Exponential backoff with equal jitter: half the ceiling, plus up to half again at random */
+export function retryDelay(attempt: number, baseMs: number, maxMs: number): number {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** Math.max(0, attempt - 1))
+  return ceiling / 2 + Math.random() * (ceiling / 2)
+}
+
+function isRetryable(error: unknown): boolean {
+  // An expired session is replaced by a fresh one on the next try
+  return isRetryableUploadError(error) || (error instanceof UploadError && error.code === 'not_found')
+}
+
+type PersistedItem = Pick<QueueItem, 'id' | 'status' | 'attempts' | 'uploadId' | 'error'>
+
+// Files go in one store, written once; the ordered item list in another, rewritten on every change
+class QueueStorage {
+  private db: Promise<IDBDatabase> | null = null
+
+  constructor(private readonly name: string) {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(`flux-upload-queue-${this.name}`, 1)
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore('files')
+          request.result.createObjectStore('state')
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+    }
+    return this.db
+  }
+
+  private async write(work: (files: IDBObjectStore, state: IDBObjectStore) => void): Promise<void> {
+    const db = await this.open()
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(['files', 'state'], 'readwrite')
+      work(transaction.objectStore('files'), transaction.objectStore('state'))
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  }
+
+  async load(): Promise<{ items: PersistedItem[]; files: Map<string, File> }> {
+    const db = await this.open()
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(['files', 'state'], 'readonly')
+      const itemsRequest = transaction.objectStore('state').get('items')
+      const files = new Map<string, File>()
+      const cursor = transaction.objectStore('files').openCursor()
+      cursor.onsuccess = () => {
+        if (!cursor.result) return
+        files.set(String(cursor.result.key), cursor.result.value)
+        cursor.result.continue()
+      }
+      transaction.oncomplete = () => resolve({ items: itemsRequest.result ?? [], files })
+      transaction.onerror = () => reject(transaction.error)
+    })
+  }
+
+  save(items: PersistedItem[], added: QueueItem[] = [], removed: string[] = []): Promise<void> {
+    return this.write((files, state) => {
+      added.forEach(item => files.put(item.file, item.id))
+      removed.forEach(id => files.delete(id))
+      state.put(items, 'items')
+    })
+  }
+}
+
+/**
+ * Uploads files through /api/upload in list order, a few at a time. Paused items keep their
+ * server session; failures retry with backoff; unfinished items are restored after a reload.
+ */
+export class UploadQueue {
+  private items: QueueItem[] = []
+  private controllers = new Map<string, AbortController>()
+  private timers = new Map<string, ReturnType<typeof setTimeout>>()
+  private waiters = new Map<string, ((item: QueueItem | null) => void)[]>()
+  // Items counted in the aggregate progress; reset once everything has finished
+  private batch = new Set<string>()
+  private listeners = new Set<() => void>()
+  private snapshot: QueueSnapshot = { items: [], stats: { loaded: 0, total: 0, bytesPerSecond: 0, etaSeconds: null, pending: 0 } }
+  private speed = 0
+  private sample = { startedAt: 0, bytes: 0 }
+  private storage: QueueStorage | null
+  private restoring: Promise<void> | null = null
+
+  constructor(name: string, private options: UploadQueueOptions = DEFAULT_QUEUE_OPTIONS) {
+    this.storage = typeof indexedDB !== 'undefined' ? new QueueStorage(name) : null
+  }
+
+  configure(options: Partial<UploadQueueOptions>) {
+    this.options = { ...this.options, ...options }
+    this.pump()
+  }
+
+  /** Bring back items from an earlier page load; safe to call repeatedly */
+  restore(): Promise<void> {
+    if (!this.restoring) {
+      this.restoring = (this.storage?.load() ?? Promise.resolve({ items: [], files: new Map<string, File>() }))
+        .then(({ items, files }) => {
+          const known = new Set(this.items.map(item => item.id))
+          const restored = items
+            .filter(item => files.has(item.id) && !known.has(item.id))
+            .map((item): QueueItem => ({
+              ...item,
+              file: files.get(item.id)!,
+              // Whatever was running when the page went away picks up from the server's resume point
+              status: item.status === 'paused' || item.status === 'error' ? item.status : 'queued',
+              loaded: 0
+            }))
+          if (restored.length === 0) return
+          this.items = [...restored, ...this.items]
+          restored.filter(item => item.status !== 'error').forEach(item => this.batch.add(item.id))
+          this.emit()
+          this.pump()
+        })
+        .catch(() => {
+          // Storage unavailable or blocked; the queue still works for this page load
+        })
+    }
+    return this.restoring
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getSnapshot = (): QueueSnapshot => this.snapshot
+
+  get(id: string): QueueItem | undefined {
+    return this.items.find(item => item.id === id)
+  }
+
+  /** Queue a file at the back; resolves once it succeeds or finally fails, or with null if removed */
+  add(id: string, file: File): Promise<QueueItem | null> {
+    const item: QueueItem = { id, file, status: 'queued', loaded: 0, attempts: 0 }
+    this.items = [...this.items, item]
+    this.batch.add(id)
+    this.persist([item])
+    this.emit()
+    const settled = this.whenSettled(id)
+    this.pump()
+    return settled
+  }
+
+  whenSettled(id: string): Promise<QueueItem | null> {
+    return new Promise(resolve => {
+      this.waiters.set(id, [...(this.waiters.get(id) ?? []), resolve])
+    })
+  }
+
+  pause(id: string) {
+    const item = this.get(id)
+    if (!item || !['queued', 'uploading', 'retrying'].includes(item.status)) return
+    this.clearTimer(id)
+    this.update(id, { status: 'paused', retryAt: undefined })
+    this.controllers.get(id)?.abort(new UploadPausedError())
+  }
+
+  resume(id: string) {
+    if (this.get(id)?.status !== 'paused') return
+    this.batch.add(id)
+    this.update(id, { status: 'queued', attempts: 0 })
+    this.pump()
+  }
+
+  /** Try a failed item again from where the server left off */
+  retry(id: string): Promise<QueueItem | null> {
+    const item = this.get(id)
+    if (!item || (item.status !== 'error' && item.status !== 'retrying')) return Promise.resolve(item ?? null)
+    this.clearTimer(id)
+    this.batch.add(id)
+    this.update(id, { status: 'queued', attempts: 0, error: undefined, retryAt: undefined })
+    const settled = this.whenSettled(id)
+    this.pump()
+    return settled
+  }
+
+  /** Drop an item, discarding anything the server stored for it */
+  remove(id: string) {
+    const item = this.get(id)
+    if (!item) return
+    this.clearTimer(id)
+    const controller = this.controllers.get(id)
+    if (controller) {
+      // The upload deletes its own session when cancelled
+      controller.abort()
+    } else if (item.uploadId && item.status !== 'success') {
+      deleteUpload(item.uploadId)
+      clearResumePoint(item.file)
+    }
+    this.items = this.items.filter(other => other.id !== id)
+    this.batch.delete(id)
+    this.persist([], [id])
+    this.settle(id, null)
+    this.emit()
+    this.pump()
+  }
+
+  clear() {
+    this.items.map(item => item.id).forEach(id => this.remove(id))
+  }
+
+  /** Move an item to `index` in the list; pending items start in list order */
+  move(id: string, index: number) {
+    const from = this.items.findIndex(item => item.id === id)
+    if (from < 0) return
+    const items = [...this.items]
+    const [item] = items.splice(from, 1)
+    items.splice(Math.max(0, Math.min(index, items.length)), 0, item)
+    this.items = items
+    this.persist()
+    this.emit()
+  }
+
+  private pump() {
+    let running = this.items.filter(item => item.status === 'uploading').length
+    for (const item of this.items) {
+      if (running >= this.options.concurrency) break
+      if (item.status !== 'queued') continue
+      running++
+      this.run(item)
+    }
+  }
+
+  private run(item: QueueItem) {
+    const controller = new AbortController()
+    this.controllers.set(item.id, controller)
+    this.update(item.id, { status: 'uploading', attempts: item.attempts + 1, error: undefined, retryAt: undefined })
+
+    uploadFile(item.file, {
+      chunkSize: this.options.chunkSize,
+      signal: controller.signal,
+      onSession: session => this.update(item.id, { uploadId: session.id }),
+      onProgress: ({ loaded }) => this.progress(item.id, loaded)
+    })
+      .then(() => {
+        this.update(item.id, { status: 'success', loaded: item.file.size })
+        this.settle(item.id, this.get(item.id) ?? null)
+      })
+      .catch(error => {
+        // Paused or removed: the caller already updated the list
+        if (error instanceof UploadPausedError || error instanceof UploadCancelledError) return
+        const current = this.get(item.id)
+        if (!current) return
+
+        if (isRetryable(error) && current.attempts < this.options.maxAttempts) {
+          const delay = retryDelay(current.attempts, this.options.retryBaseMs, this.options.retryMaxMs)
+          this.update(item.id, { status: 'retrying', retryAt: Date.now() + delay })
+          this.timers.set(item.id, setTimeout(() => {
+            this.timers.delete(item.id)
+            if (this.get(item.id)?.status !== 'retrying') return
+            this.update(item.id, { status: 'queued', retryAt: undefined })
+            this.pump()
+          }, delay))
+          return
+        }
+
+        this.update(item.id, {
+          status: 'error',
+          error: error instanceof UploadError ? error.message : 'Upload failed. Please try again.'
+        })
+        this.settle(item.id, this.get(item.id) ?? null)
+      })
+      .finally(() => {
+        if (this.controllers.get(item.id) === controller) this.controllers.delete(item.id)
+        this.pump()
+      })
+  }
+
+  private progress(id: string, loaded: number) {
+    const item = this.get(id)
+    if (!item) return
+    const now = Date.now()
+    if (!this.sample.startedAt) this.sample = { startedAt: now, bytes: 0 }
+    // Progress can step back when a chunk is retried; that is not negative speed
+    this.sample.bytes += Math.max(0, loaded - item.loaded)
+    const elapsed = now - this.sample.startedAt
+    if (elapsed >= SPEED_SAMPLE_MS) {
+      const rate = (this.sample.bytes * 1000) / elapsed
+      this.speed = this.speed ? this.speed * (1 - SPEED_SMOOTHING) + rate * SPEED_SMOOTHING : rate
+      this.sample = { startedAt: now, bytes: 0 }
+    }
+    this.update(id, { loaded })
+  }
+
+  private update(id: string, changes: Partial<QueueItem>) {
+    const persisted = 'status' in changes || 'uploadId' in changes || 'attempts' in changes
+    this.items = this.items.map(item => item.id === id ? { ...item, ...changes } : item)
+    const item = this.get(id)
+    // Finished items leave storage; the list only lives on for this page
+    if (item?.status === 'success') this.persist([], [id])
+    else if (persisted) this.persist()
+    this.emit()
+  }
+
+  private settle(id: string, item: QueueItem | null) {
+    this.waiters.get(id)?.forEach(resolve => resolve(item))
+    this.waiters.delete(id)
+  }
+
+  private clearTimer(id: string) {
+    clearTimeout(this.timers.get(id))
+    this.timers.delete(id)
+  }
+
+  private persist(added: QueueItem[] = [], removed: string[] = []) {
+    const items = this.items
+      .filter(item => item.status !== 'success')
+      .map(({ id, status, attempts, uploadId, error }): PersistedItem => ({ id, status, attempts, uploadId, error }))
+    this.storage?.save(items, added, removed).catch(() => {
+      // Quota or private mode; the queue just won't survive a reload
+    })
+  }
+
+  private emit() {
+    const pending = this.items.filter(item => PENDING.includes(item.status))
+    const uploading = pending.some(item => item.status === 'uploading')
+    if (!uploading) {
+      this.speed = 0
+      this.sample = { startedAt: 0, bytes: 0 }
+    }
+    if (pending.length === 0) this.batch.clear()
+
+    const batch = this.items.filter(item => this.batch.has(item.id) && item.status !== 'error')
+    const total = batch.reduce((sum, item) => sum + item.file.size, 0)
+    const loaded = batch.reduce((sum, item) => sum + (item.status === 'success' ? item.file.size : item.loaded), 0)
+    const waiting = pending.filter(item => item.status !== 'paused')
+    const remaining = waiting.reduce((sum, item) => sum + item.file.size - item.loaded, 0)
+
+    this.snapshot = {
+      items: this.items,
+      stats: {
+        loaded,
+        total,
+        bytesPerSecond: this.speed,
+        etaSeconds: this.speed > 0 && waiting.length > 0 ? remaining / this.speed : null,
+        pending: pending.length
+      }
+    }
+    this.listeners.forEach(listener => listener())
+  }
+}
+
+const queues = new Map<string, UploadQueue>()
+
+/** One queue per name for the whole app, so uploads keep going across page changes */
+export function getUploadQueue(name = 'default'): UploadQueue {
+  let queue = queues.get(name)
+  if (!queue) {
+    queue = new UploadQueue(name)
+    queues.set(name, queue)
+  }
+  return queue
+}
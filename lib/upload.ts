@@ -0,0 +1,205 @@
+// Chunked, resumable upload storage on local disk (server only)
+import { createHash, randomBytes } from 'node:crypto'
+import { mkdir, open, readFile, readdir, rm, stat, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { UploadSession, chunkCount, chunkLength } from './upload-protocol'
+
+export type UploadConfig = {
+  directory: string
+  maxFileSize: number
+  minChunkSize: number
+  maxChunkSize: number
+  // Unfinished uploads with no chunk written for this long are deleted
+  abandonedAfterMs: number
+}
+
+export const DEFAULT_CHUNK_SIZE = 1024 * 1024
+
+export const DEFAULT_UPLOAD_CONFIG: UploadConfig = {
+  directory: path.join(process.cwd(), '.uploads'),
+  maxFileSize: 100 * 1024 * 1024,
+  minChunkSize: 64 * 1024,
+  maxChunkSize: 8 * 1024 * 1024,
+  abandonedAfterMs: 24 * 60 * 60 * 1000
+}
+
+export type UploadCreateResult =
+  | { ok: true; session: UploadSession }
+  | { ok: false; error: 'invalid_request' | 'too_large' }
+
+export type UploadChunkResult =
+  | { ok: true; session: UploadSession }
+  | { ok: false; error: 'not_found' | 'invalid_index' | 'invalid_length' | 'checksum_mismatch' }
+
+// Upload ids become file names, so accept nothing but our own format
+const ID_PATTERN = /^[a-f0-9]{32}$/
+
+export function isUploadId(id: string): boolean {
+  return ID_PATTERN.test(id)
+}
+
+export function sha256(data: Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+/** Read a request body, giving up with null as soon as it passes `maxBytes` */
+export async function readBodyWithin(body: ReadableStream<Uint8Array> | null, maxBytes: number): Promise<Uint8Array | null> {
+  if (!body) return new Uint8Array(0)
+  const reader = body.getReader()
+  const parts: Uint8Array[] = []
+  let total = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    total += value.byteLength
+    if (total > maxBytes) {
+      await reader.cancel()
+      return null
+    }
+    parts.push(value)
+  }
+
+  const data = new Uint8Array(total)
+  let offset = 0
+  parts.forEach(part => {
+    data.set(part, offset)
+    offset += part.byteLength
+  })
+  return data
+}
+
+/** Upload sessions stored as a JSON manifest plus a data file, so transfers resume across restarts */
+export class UploadStore {
+  // Serialize writes per upload so concurrent chunks cannot clobber the manifest
+  private locks = new Map<string, Promise<unknown>>()
+
+  constructor(private readonly config: UploadConfig = DEFAULT_UPLOAD_CONFIG) {}
+
+  /** Largest chunk any session accepts, for rejecting oversized bodies before reading them */
+  get maxChunkSize(): number {
+    return this.config.maxChunkSize
+  }
+
+  private manifestPath(id: string) {
+    return path.join(this.config.directory, `${id}.json`)
+  }
+
+  private dataPath(id: string) {
+    return path.join(this.config.directory, `${id}.data`)
+  }
+
+  private withLock<T>(id: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(id) ?? Promise.resolve()
+    const next = previous.catch(() => {}).then(task)
+    this.locks.set(id, next)
+    next.finally(() => {
+      if (this.locks.get(id) === next) this.locks.delete(id)
+    }).catch(() => {})
+    return next
+  }
+
+  private async save(session: UploadSession) {
+    await writeFile(this.manifestPath(session.id), JSON.stringify(session))
+  }
+
+  async create(input: { name: unknown; type: unknown; size: unknown; chunkSize?: unknown }, now = Date.now()): Promise<UploadCreateResult> {
+    const { name, type, size } = input
+    const chunkSize = input.chunkSize ?? DEFAULT_CHUNK_SIZE
+    if (typeof name !== 'string' || !name || typeof type !== 'string') return { ok: false, error: 'invalid_request' }
+    if (typeof size !== 'number' || !Number.isInteger(size) || size < 0) return { ok: false, error: 'invalid_request' }
+    if (typeof chunkSize !== 'number' || !Number.isInteger(chunkSize)) return { ok: false, error: 'invalid_request' }
+    if (size > this.config.maxFileSize) return { ok: false, error: 'too_large' }
+
+    const session: UploadSession = {
+      id: randomBytes(16).toString('hex'),
+      // Only the base name; paths from the client are never used on disk
+      name: path.basename(name).slice(0, 255),
+      type: type.slice(0, 255),
+      size,
+      chunkSize: Math.min(this.config.maxChunkSize, Math.max(this.config.minChunkSize, chunkSize)),
+      received: [],
+      createdAt: now,
+      completedAt: null
+    }
+
+    await mkdir(this.config.directory, { recursive: true })
+    await writeFile(this.dataPath(session.id), '')
+    if (size === 0) session.completedAt = now
+    await this.save(session)
+    return { ok: true, session }
+  }
+
+  async get(id: string): Promise<UploadSession | null> {
+    if (!isUploadId(id)) return null
+    try {
+      return JSON.parse(await readFile(this.manifestPath(id), 'utf8')) as UploadSession
+    } catch {
+      return null
+    }
+  }
+
+  /** Verify a chunk against its SHA-256 and write it in place; re-sending a chunk is harmless */
+  writeChunk(id: string, index: number, data: Uint8Array, checksum: string, now = Date.now()): Promise<UploadChunkResult> {
+    return this.withLock(id, async (): Promise<UploadChunkResult> => {
+      const session = await this.get(id)
+      if (!session) return { ok: false, error: 'not_found' }
+      if (!Number.isInteger(index) || index < 0 || index >= chunkCount(session)) return { ok: false, error: 'invalid_index' }
+      if (data.byteLength !== chunkLength(session, index)) return { ok: false, error: 'invalid_length' }
+      if (sha256(data) !== checksum.toLowerCase()) return { ok: false, error: 'checksum_mismatch' }
+
+      const file = await open(this.dataPath(id), 'r+')
+      try {
+        await file.write(data, 0, data.byteLength, index * session.chunkSize)
+      } finally {
+        await file.close()
+      }
+
+      if (!session.received.includes(index)) {
+        session.received = [...session.received, index].sort((a, b) => a - b)
+      }
+      if (session.received.length === chunkCount(session) && !session.completedAt) {
+        session.completedAt = now
+      }
+      await this.save(session)
+      return { ok: true, session }
+    })
+  }
+
+  remove(id: string): Promise<boolean> {
+    return this.withLock(id, async () => {
+      if (!(await this.get(id))) return false
+      await rm(this.dataPath(id), { force: true })
+      await rm(this.manifestPath(id), { force: true })
+      return true
+    })
+  }
+
+  /** Delete unfinished uploads whose manifest hasn't changed in `abandonedAfterMs`; returns how many went */
+  async prune(now = Date.now()): Promise<number> {
+    const names = await readdir(this.config.directory).catch(() => [] as string[])
+    const ids = names.filter(name => name.endsWith('.json')).map(name => name.slice(0, -5)).filter(isUploadId)
+    const removed = await Promise.all(ids.map(id => this.withLock(id, async () => {
+      const session = await this.get(id)
+      // Every chunk rewrites the manifest, so its mtime is the last sign of life
+      const touched = await stat(this.manifestPath(id)).then(info => info.mtimeMs, () => null)
+      if (!session || session.completedAt || touched === null || now - touched < this.config.abandonedAfterMs) return false
+      await rm(this.dataPath(id), { force: true })
+      await rm(this.manifestPath(id), { force: true })
+      return true
+    })))
+    return removed.filter(Boolean).length
+  }
+}
+
+// Survive dev-server module reloads
+const globalForUploads = globalThis as unknown as { uploadStore?: UploadStore }
+
+export function getUploadStore(): UploadStore {
+  if (!globalForUploads.uploadStore) {
+    globalForUploads.uploadStore = new UploadStore({
+      ...DEFAULT_UPLOAD_CONFIG,
+      directory: process.env.UPLOAD_DIR ?? DEFAULT_UPLOAD_CONFIG.directory
+    })
+  }
+  return globalForUploads.uploadStore
+}
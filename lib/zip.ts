@@ -0,0 +1,102 @@
+// Minimal ZIP writer: stored (uncompressed) entries, UTF-8 names, no ZIP64, so under 4 GB in total
+export type ZipEntry = {
+  // Forward-slash separated path inside the archive
+  path: string
+  data: Blob
+  modified?: Date
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS date and time, local time with two-second resolution
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: (Math.max(0, date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  }
+}
+
+// General purpose flag bit 11: names are UTF-8
+const UTF8_FLAG = 0x0800
+
+/** Pack entries into a .zip Blob; duplicate paths get a numeric suffix */
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+  const encoder = new TextEncoder()
+  const parts: BlobPart[] = []
+  const central: Uint8Array<ArrayBuffer>[] = []
+  const used = new Set<string>()
+  let offset = 0
+
+  for (const entry of entries) {
+    const path = uniquePath(entry.path, used)
+    // Copied so the bytes sit on a plain ArrayBuffer, as Blob parts must
+    const name = new Uint8Array(encoder.encode(path))
+    const data = new Uint8Array(await entry.data.arrayBuffer())
+    const crc = crc32(data)
+    const stamp = dosDateTime(entry.modified ?? new Date())
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(4, 20, true)
+    local.setUint16(6, UTF8_FLAG, true)
+    local.setUint16(8, 0, true)
+    local.setUint16(10, stamp.time, true)
+    local.setUint16(12, stamp.date, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, data.length, true)
+    local.setUint32(22, data.length, true)
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, 0, true)
+    parts.push(local.buffer, name, data)
+
+    const header = new DataView(new ArrayBuffer(46))
+    header.setUint32(0, 0x02014b50, true)
+    header.setUint16(4, 20, true)
+    header.setUint16(6, 20, true)
+    header.setUint16(8, UTF8_FLAG, true)
+    header.setUint16(10, 0, true)
+    header.setUint16(12, stamp.time, true)
+    header.setUint16(14, stamp.date, true)
+    header.setUint32(16, crc, true)
+    header.setUint32(20, data.length, true)
+    header.setUint32(24, data.length, true)
+    header.setUint16(28, name.length, true)
+    header.setUint32(42, offset, true)
+    central.push(new Uint8Array(header.buffer), name)
+
+    offset += 30 + name.length + data.length
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' })
+}
+
+function uniquePath(path: string, used: Set<string>): string {
+  let candidate = path
+  const dot = path.lastIndexOf('.')
+  const [stem, extension] = dot > path.lastIndexOf('/') ? [path.slice(0, dot), path.slice(dot)] : [path, '']
+  for (let n = 2; used.has(candidate); n++) candidate = `${stem} (${n})${extension}`
+  used.add(candidate)
+  return candidate
+}